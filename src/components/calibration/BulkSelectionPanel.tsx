@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { formatEAT } from '@/lib/timezoneConfig';
+import { Ban, Flag, FlagOff, Loader2, SlidersHorizontal, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { isFlagged, QUALITY_FLAG_LABELS, QualityFlag } from "@/lib/qualityFlags";
+
+interface Reading {
+  id: string;
+  measured_at: string;
+  value: number;
+  quality_flag: string;
+}
+
+export type BulkReadingOperation = "flag" | "unflag" | "exclude" | "offset";
+
+export interface BulkActionRequest {
+  operation: BulkReadingOperation;
+  readingIds: string[];
+  // Selected time window, used as the validity period of an offset
+  windowStart: string;
+  windowEnd: string;
+  reason?: string;
+  offsetValue?: number;
+}
+
+interface BulkSelectionPanelProps {
+  readings: Reading[];
+  unit: string | null;
+  windowStart: number;
+  windowEnd: number;
+  onBulkAction: (request: BulkActionRequest) => Promise<void>;
+  onClear: () => void;
+}
+
+// Selected readings listed individually; the counts always cover the whole selection
+const LISTED_READINGS = 100;
+
+export const BulkSelectionPanel = ({ readings, unit, windowStart, windowEnd, onBulkAction, onClear }: BulkSelectionPanelProps) => {
+  const [pendingOperation, setPendingOperation] = useState<"exclude" | "offset" | null>(null);
+  const [reason, setReason] = useState("");
+  const [offsetValue, setOffsetValue] = useState("");
+  const [runningOperation, setRunningOperation] = useState<BulkReadingOperation | null>(null);
+
+  const flaggedCount = readings.filter(r => isFlagged(r.quality_flag)).length;
+  const values = readings.map(r => r.value);
+  const mean = values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+  const run = async (operation: BulkReadingOperation) => {
+    setRunningOperation(operation);
+    try {
+      await onBulkAction({
+        operation,
+        readingIds: readings.map(r => r.id),
+        windowStart: new Date(windowStart).toISOString(),
+        windowEnd: new Date(windowEnd).toISOString(),
+        reason: reason.trim() || undefined,
+        offsetValue: offsetValue ? parseFloat(offsetValue) : undefined,
+      });
+      setPendingOperation(null);
+      setReason("");
+      setOffsetValue("");
+    } catch (error) {
+      console.error(`Bulk ${operation} failed:`, error);
+    } finally {
+      setRunningOperation(null);
+    }
+  };
+
+  const canConfirm = reason.trim() !== "" && (pendingOperation !== "offset" || Number.isFinite(parseFloat(offsetValue)));
+
+  return (
+    <div className="mt-4 rounded-md border p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm">
+          <span className="font-medium">{readings.length.toLocaleString()} reading{readings.length !== 1 ? "s" : ""} selected</span>
+          {flaggedCount > 0 && <Badge variant="destructive" className="ml-2">{flaggedCount} flagged</Badge>}
+          <span className="text-muted-foreground"> • {formatEAT(windowStart)} to {formatEAT(windowEnd)}</span>
+          {mean !== null && (
+            <span className="text-muted-foreground">
+              {" "}• min {Math.min(...values).toFixed(2)}, mean {mean.toFixed(2)}, max {Math.max(...values).toFixed(2)} {unit}
+            </span>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClear}>
+          <X className="h-4 w-4 mr-1" />
+          Clear selection
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" disabled={runningOperation !== null || readings.length === 0} onClick={() => run("flag")}>
+          {runningOperation === "flag" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Flag className="h-4 w-4 mr-2" />}
+          Flag
+        </Button>
+        <Button size="sm" variant="outline" disabled={runningOperation !== null || flaggedCount === 0} onClick={() => run("unflag")}>
+          {runningOperation === "unflag" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FlagOff className="h-4 w-4 mr-2" />}
+          Clear flags
+        </Button>
+        <Button
+          size="sm"
+          variant={pendingOperation === "exclude" ? "default" : "outline"}
+          disabled={runningOperation !== null || readings.length === 0}
+          onClick={() => setPendingOperation("exclude")}
+        >
+          <Ban className="h-4 w-4 mr-2" />
+          Exclude…
+        </Button>
+        <Button
+          size="sm"
+          variant={pendingOperation === "offset" ? "default" : "outline"}
+          disabled={runningOperation !== null}
+          onClick={() => setPendingOperation("offset")}
+        >
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          Offset this window…
+        </Button>
+      </div>
+
+      {pendingOperation && (
+        <div className="flex flex-wrap items-end gap-4">
+          {pendingOperation === "offset" && (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-offset-value">Offset {unit ? `(${unit})` : ""}</Label>
+              <Input
+                id="bulk-offset-value"
+                type="number"
+                step="any"
+                className="w-32"
+                value={offsetValue}
+                onChange={(e) => setOffsetValue(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="space-y-2 flex-1 min-w-[240px]">
+            <Label htmlFor="bulk-reason">Reason</Label>
+            <Input
+              id="bulk-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={pendingOperation === "exclude" ? "e.g. Sensor fouled until cleaning" : "e.g. Drift found at field check"}
+            />
+          </div>
+          <Button
+            size="sm"
+            variant={pendingOperation === "exclude" ? "destructive" : "default"}
+            disabled={runningOperation !== null || !canConfirm}
+            onClick={() => run(pendingOperation)}
+          >
+            {runningOperation === pendingOperation && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {pendingOperation === "exclude" ? `Exclude ${readings.length.toLocaleString()} readings` : "Create offset"}
+          </Button>
+          <Button size="sm" variant="ghost" disabled={runningOperation !== null} onClick={() => setPendingOperation(null)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {readings.length > 0 && (
+        <div className="rounded-md border max-h-64 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date & Time</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Quality</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {readings.slice(0, LISTED_READINGS).map((reading) => (
+                <TableRow key={reading.id}>
+                  <TableCell>{formatEAT(reading.measured_at)}</TableCell>
+                  <TableCell>{reading.value} {unit}</TableCell>
+                  <TableCell>
+                    {isFlagged(reading.quality_flag)
+                      ? <Badge variant="destructive">{QUALITY_FLAG_LABELS[reading.quality_flag as QualityFlag] || reading.quality_flag}</Badge>
+                      : <span className="text-muted-foreground">{QUALITY_FLAG_LABELS.good}</span>}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {readings.length > LISTED_READINGS && (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-muted-foreground">
+                    and {(readings.length - LISTED_READINGS).toLocaleString()} more
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
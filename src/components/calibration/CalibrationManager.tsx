@@ -1,14 +1,26 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { Loader2 } from "lucide-react";
+import { Loader2, LogOut } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { PasswordDialog } from "./PasswordDialog";
+import { SignInDialog } from "./SignInDialog";
 import { SensorSelector } from "./SensorSelector";
 import { FullHistoryChart } from "./FullHistoryChart";
+import { BulkActionRequest } from "./BulkSelectionPanel";
 import { ReadingDataTable } from "./ReadingDataTable";
-import { OffsetCreationForm } from "./OffsetCreationForm";
+import { NewCalibrationOffset, OffsetCreationForm } from "./OffsetCreationForm";
 import { OffsetManagementTable } from "./OffsetManagementTable";
+import { CalibrationSuggestion, NewReferenceCheck, ReferenceCheck, ReferenceCheckPanel } from "./ReferenceCheckPanel";
+import { ChannelRulesManager } from "./ChannelRulesManager";
+import { ChannelHistoryTable } from "./ChannelHistoryTable";
+import { QcRulesManager } from "./QcRulesManager";
+import { ExcludedReadingsTable } from "./ExcludedReadingsTable";
+import { StaffRolesManager } from "./StaffRolesManager";
+import { Button } from "@/components/ui/button";
+import { hasRole, ROLE_LABELS, useStaffSession } from "@/hooks/use-staff-session";
+import { AdminActionResult, CallAdminAction, errorMessage, toEdgeFunctionError } from "@/lib/edgeFunctions";
+import { DataGap, toDataGap } from "@/lib/dataGaps";
+import { CalibrationModel, ProposedCalibration, previewCalibration } from "@/lib/calibration";
 
 interface Sensor {
   id: string;
@@ -21,15 +33,17 @@ interface Reading {
   id: string;
   measured_at: string;
   value: number;
+  quality_flag: string;
 }
 
-interface CalibrationOffset {
+interface CalibrationOffset extends CalibrationModel {
   id: string;
-  offset_value: number;
   valid_from: string;
   valid_until: string | null;
   reason: string;
   created_at: string;
+  start_check_id: string | null;
+  end_check_id: string | null;
 }
 
 interface CalibrationManagerProps {
@@ -38,16 +52,29 @@ interface CalibrationManagerProps {
 }
 
 export const CalibrationManager = ({ isOpen, onClose }: CalibrationManagerProps) => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [password, setPassword] = useState("");
+  const { member, isLoading: isSessionLoading, signIn, signOut } = useStaffSession();
+  const isSignedIn = !!member;
+  const canEdit = hasRole(member, "technician");
   const [sensors, setSensors] = useState<Sensor[]>([]);
   const [selectedSensorId, setSelectedSensorId] = useState<string | null>(null);
   const [readings, setReadings] = useState<Reading[]>([]);
   const [offsets, setOffsets] = useState<CalibrationOffset[]>([]);
+  const [gaps, setGaps] = useState<DataGap[]>([]);
+  const [completeness, setCompleteness] = useState<number | null>(null);
+  // The correction being filled in, drawn on the chart before it is saved
+  const [proposedOffset, setProposedOffset] = useState<ProposedCalibration | null>(null);
+  const [referenceChecks, setReferenceChecks] = useState<ReferenceCheck[]>([]);
+  // A reference check picked to fill in the offset form
+  const [suggestion, setSuggestion] = useState<CalibrationSuggestion | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
   const selectedSensor = sensors.find((s) => s.id === selectedSensorId);
 
+  const proposedPreview = useMemo(
+    () => (proposedOffset ? previewCalibration(readings, proposedOffset) : null),
+    [readings, proposedOffset]
+  );
+
   // Fetch sensors on mount
   useEffect(() => {
     fetchSensors();
@@ -55,11 +82,15 @@ export const CalibrationManager = ({ isOpen, onClose }: CalibrationManagerProps)
 
   // Fetch offsets when sensor changes (readings are fetched on-demand via date selection)
   useEffect(() => {
-    if (selectedSensorId && isAuthenticated) {
+    if (selectedSensorId && isSignedIn) {
       fetchOffsets(selectedSensorId);
+      fetchReferenceChecks(selectedSensorId);
+      setSuggestion(null);
       setReadings([]); // Clear readings when sensor changes
+      setGaps([]);
+      setCompleteness(null);
     }
-  }, [selectedSensorId, isAuthenticated]);
+  }, [selectedSensorId, isSignedIn]);
 
   const fetchSensors = async () => {
     try {
@@ -80,16 +111,35 @@ export const CalibrationManager = ({ isOpen, onClose }: CalibrationManagerProps)
   const fetchReadings = async (channelId: string, startDate: Date, endDate: Date) => {
     setIsLoading(true);
     try {
-      const { data, error } = await supabase
-        .from("sensor_readings")
-        .select("id, measured_at, value")
-        .eq("channel_id", channelId)
-        .gte("measured_at", startDate.toISOString())
-        .lte("measured_at", endDate.toISOString())
-        .order("measured_at", { ascending: true });
+      const [{ data, error }, gapsResult, completenessResult] = await Promise.all([
+        supabase
+          .from("sensor_readings")
+          .select("id, measured_at, value, quality_flag")
+          .eq("channel_id", channelId)
+          .is("excluded_at", null)
+          .gte("measured_at", startDate.toISOString())
+          .lte("measured_at", endDate.toISOString())
+          .order("measured_at", { ascending: true }),
+        supabase
+          .from("channel_data_gaps")
+          .select("gap_start, gap_end, duration_minutes")
+          .eq("channel_id", channelId)
+          .lt("gap_start", endDate.toISOString())
+          .gt("gap_end", startDate.toISOString())
+          .order("gap_start", { ascending: true }),
+        supabase.rpc("get_channel_completeness", {
+          p_channel_ids: [channelId],
+          p_from: startDate.toISOString(),
+          p_to: endDate.toISOString(),
+        }),
+      ]);
 
       if (error) throw error;
+      if (gapsResult.error) throw gapsResult.error;
+      if (completenessResult.error) throw completenessResult.error;
       setReadings(data || []);
+      setGaps((gapsResult.data || []).map(toDataGap));
+      setCompleteness(completenessResult.data?.[0]?.completeness_percent ?? null);
       toast.success(`Loaded ${data?.length || 0} readings`);
     } catch (error) {
       console.error("Error fetching readings:", error);
@@ -108,53 +158,98 @@ export const CalibrationManager = ({ isOpen, onClose }: CalibrationManagerProps)
         .order("valid_from", { ascending: false });
 
       if (error) throw error;
-      setOffsets(data || []);
+      setOffsets((data || []) as unknown as CalibrationOffset[]);
     } catch (error) {
       console.error("Error fetching offsets:", error);
       toast.error("Failed to load calibration offsets");
     }
   };
 
-  const handleAuthenticate = (inputPassword: string) => {
-    setPassword(inputPassword);
-    setIsAuthenticated(true);
-    toast.success("Authentication successful");
+  const fetchReferenceChecks = async (channelId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("reference_checks")
+        .select("id, checked_at, reference_value, sonde_value, sonde_measured_at, instrument, operator, notes")
+        .eq("channel_id", channelId)
+        .order("checked_at", { ascending: false });
+
+      if (error) throw error;
+      setReferenceChecks(data || []);
+    } catch (error) {
+      console.error("Error fetching reference checks:", error);
+      toast.error("Failed to load reference checks");
+    }
+  };
+
+  const handleSignIn = async (email: string, password: string) => {
+    await signIn(email, password);
+    toast.success("Signed in");
   };
 
-  const callEdgeFunction = async (action: string, data?: any) => {
+  // The session's JWT goes with the call; the function checks the role the action needs
+  const callEdgeFunction: CallAdminAction = async <T,>(action: string, data?: object) => {
     try {
-      const { data: result, error } = await supabase.functions.invoke("manage-calibration-offsets", {
-        body: { action, password, data },
+      const { data: result, error } = await supabase.functions.invoke<AdminActionResult<T>>("manage-calibration-offsets", {
+        body: { action, data },
       });
 
-      if (error) throw error;
+      if (error) {
+        const functionError = await toEdgeFunctionError(error);
+        if (functionError.status === 401) {
+          await signOut();
+          toast.error("Your session has expired. Please sign in again.");
+        }
+        throw functionError;
+      }
       if (!result.success) throw new Error(result.error || "Operation failed");
       
       return result;
-    } catch (error: any) {
+    } catch (error: unknown) {
       console.error("Edge function error:", error);
-      if (error.message?.includes("Invalid password")) {
-        setIsAuthenticated(false);
-        setPassword("");
-        toast.error("Authentication expired. Please log in again.");
-      }
       throw error;
     }
   };
 
-  const handleCreateOffset = async (offsetData: any) => {
+  const handleCreateOffset = async (offsetData: NewCalibrationOffset) => {
     try {
       await callEdgeFunction("create", offsetData);
       toast.success("Calibration offset created successfully");
       if (selectedSensorId) {
         await fetchOffsets(selectedSensorId);
       }
-    } catch (error: any) {
-      toast.error(error.message || "Failed to create offset");
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, "Failed to create offset"));
       throw error;
     }
   };
 
+  const handleCreateReferenceCheck = async (checkData: NewReferenceCheck) => {
+    if (!selectedSensorId) return;
+    try {
+      const { data: created } = await callEdgeFunction<ReferenceCheck>("create_reference_check", {
+        channel_id: selectedSensorId,
+        ...checkData,
+      });
+      toast.success(`Reference check recorded against a sonde reading of ${Number(Number(created.sonde_value).toFixed(4))}`);
+      await fetchReferenceChecks(selectedSensorId);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, "Failed to record reference check"));
+      throw error;
+    }
+  };
+
+  const handleDeleteReferenceCheck = async (id: string) => {
+    try {
+      await callEdgeFunction("delete_reference_check", { id });
+      toast.success("Reference check deleted");
+      if (selectedSensorId) {
+        await Promise.all([fetchReferenceChecks(selectedSensorId), fetchOffsets(selectedSensorId)]);
+      }
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, "Failed to delete reference check"));
+    }
+  };
+
   const handleDeleteOffset = async (id: string) => {
     try {
       await callEdgeFunction("delete", { id });
@@ -162,8 +257,8 @@ export const CalibrationManager = ({ isOpen, onClose }: CalibrationManagerProps)
       if (selectedSensorId) {
         await fetchOffsets(selectedSensorId);
       }
-    } catch (error: any) {
-      toast.error(error.message || "Failed to delete offset");
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, "Failed to delete offset"));
     }
   };
 
@@ -175,7 +270,6 @@ export const CalibrationManager = ({ isOpen, onClose }: CalibrationManagerProps)
       await callEdgeFunction("update", {
         id,
         channel_id: selectedSensorId,
-        offset_value: offset.offset_value,
         valid_from: offset.valid_from,
         valid_until: new Date().toISOString(),
         reason: offset.reason,
@@ -185,112 +279,246 @@ export const CalibrationManager = ({ isOpen, onClose }: CalibrationManagerProps)
       if (selectedSensorId) {
         await fetchOffsets(selectedSensorId);
       }
-    } catch (error: any) {
-      toast.error(error.message || "Failed to deactivate offset");
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, "Failed to deactivate offset"));
     }
   };
 
-  const handleDeleteReading = async (readingId: string) => {
+  const handleExcludeReading = async (readingId: string, reason: string) => {
     try {
-      await callEdgeFunction("delete_reading", { reading_id: readingId });
-      toast.success("Reading deleted successfully");
-      // Remove the deleted reading from state without refetching
+      await callEdgeFunction("exclude_reading", {
+        reading_id: readingId,
+        excluded_reason: reason,
+      });
+      toast.success("Reading excluded");
+      // Remove the excluded reading from state without refetching
       setReadings(prevReadings => prevReadings.filter(r => r.id !== readingId));
-    } catch (error: any) {
-      toast.error(error.message || "Failed to delete reading");
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, "Failed to exclude reading"));
+      throw error;
+    }
+  };
+
+  const handleSetQualityFlag = async (readingId: string, qualityFlag: "good" | "manual") => {
+    try {
+      await callEdgeFunction("set_quality_flag", { reading_id: readingId, quality_flag: qualityFlag });
+      toast.success(qualityFlag === "manual" ? "Reading flagged" : "Flag cleared");
+      setReadings(prevReadings =>
+        prevReadings.map(r => (r.id === readingId ? { ...r, quality_flag: qualityFlag } : r))
+      );
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, "Failed to update quality flag"));
+    }
+  };
+
+  const handleBulkAction = async (request: BulkActionRequest) => {
+    if (!selectedSensorId) return;
+    try {
+      const result = await callEdgeFunction<{ updated: number }>("bulk_update_readings", {
+        channel_id: selectedSensorId,
+        operation: request.operation,
+        reading_ids: request.readingIds,
+        excluded_reason: request.reason,
+        offset_value: request.offsetValue,
+        valid_from: request.windowStart,
+        valid_until: request.windowEnd,
+        reason: request.reason,
+      });
+
+      if (request.operation === "offset") {
+        toast.success("Calibration offset created for the selected window");
+        await fetchOffsets(selectedSensorId);
+        return;
+      }
+
+      const updated = result.data.updated;
+      const changedIds = new Set(request.readingIds);
+      if (request.operation === "exclude") {
+        toast.success(`${updated} reading${updated !== 1 ? "s" : ""} excluded`);
+        setReadings(prevReadings => prevReadings.filter(r => !changedIds.has(r.id)));
+      } else {
+        const qualityFlag = request.operation === "flag" ? "manual" : "good";
+        toast.success(`${updated} reading${updated !== 1 ? "s" : ""} ${request.operation === "flag" ? "flagged" : "cleared"}`);
+        setReadings(prevReadings =>
+          prevReadings.map(r => (changedIds.has(r.id) ? { ...r, quality_flag: qualityFlag } : r))
+        );
+      }
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, "Bulk update failed"));
       throw error;
     }
   };
 
   const handleClose = () => {
-    setIsAuthenticated(false);
-    setPassword("");
     setSelectedSensorId(null);
     setReadings([]);
     setOffsets([]);
+    setGaps([]);
+    setCompleteness(null);
     onClose();
   };
 
   return (
     <>
-      <PasswordDialog
-        open={isOpen && !isAuthenticated}
+      <SignInDialog
+        open={isOpen && !isSessionLoading && !isSignedIn}
         onOpenChange={handleClose}
-        onAuthenticate={handleAuthenticate}
+        onSignIn={handleSignIn}
       />
 
-      {isOpen && isAuthenticated && (
+      {isOpen && member && !hasRole(member, "viewer") && (
+        <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center">
+          <div className="rounded-md border bg-background p-6 space-y-4 max-w-md">
+            <p>
+              {member.name} has no role yet. Ask a data manager to grant you access to sensor management.
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleClose}>Close</Button>
+              <Button variant="outline" onClick={signOut}>Sign out</Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isOpen && member && hasRole(member, "viewer") && (
         <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm overflow-y-auto">
           <div className="container mx-auto p-6 space-y-6 min-h-screen">
             <div className="flex justify-between items-center">
-              <h1 className="text-3xl font-bold">Calibration Offset Manager</h1>
-              <button
-                onClick={handleClose}
-                className="text-muted-foreground hover:text-foreground"
-              >
-                Close ✕
-              </button>
+              <h1 className="text-3xl font-bold">Sensor Management</h1>
+              <div className="flex items-center gap-4">
+                <span className="text-sm text-muted-foreground">
+                  {member.name} · {member.roles.map(role => ROLE_LABELS[role]).join(", ")}
+                </span>
+                <Button variant="ghost" size="sm" onClick={signOut}>
+                  <LogOut className="h-4 w-4 mr-2" />
+                  Sign out
+                </Button>
+                <button
+                  onClick={handleClose}
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  Close ✕
+                </button>
+              </div>
             </div>
 
-            <SensorSelector
-              sensors={sensors}
-              selectedSensorId={selectedSensorId}
-              onSensorChange={setSelectedSensorId}
-            />
-
-            {selectedSensorId && selectedSensor && (
-              <>
-                {isLoading ? (
-                  <div className="flex items-center justify-center py-12">
-                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
-                  </div>
-                ) : (
+            {!canEdit && (
+              <p className="text-sm text-muted-foreground">
+                You have view-only access. Changes need the technician or data manager role.
+              </p>
+            )}
+
+            <Tabs defaultValue="offsets" className="w-full">
+              <TabsList>
+                <TabsTrigger value="offsets">Calibration Offsets</TabsTrigger>
+                <TabsTrigger value="rules">Channel Rules</TabsTrigger>
+                <TabsTrigger value="qc">QC Rules</TabsTrigger>
+                <TabsTrigger value="excluded">Excluded Readings</TabsTrigger>
+                {hasRole(member, "data_manager") && <TabsTrigger value="staff">Staff</TabsTrigger>}
+              </TabsList>
+
+              <TabsContent value="offsets" className="mt-4 space-y-6">
+                <SensorSelector
+                  sensors={sensors}
+                  selectedSensorId={selectedSensorId}
+                  onSensorChange={setSelectedSensorId}
+                />
+
+                {selectedSensorId && selectedSensor && (
                   <>
-                    <Tabs defaultValue="chart" className="w-full">
-                      <TabsList className="grid w-full grid-cols-2">
-                        <TabsTrigger value="chart">Chart View</TabsTrigger>
-                        <TabsTrigger value="table">Table View</TabsTrigger>
-                      </TabsList>
+                    {isLoading ? (
+                      <div className="flex items-center justify-center py-12">
+                        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                      </div>
+                    ) : (
+                      <>
+                        <Tabs defaultValue="chart" className="w-full">
+                          <TabsList className="grid w-full grid-cols-2">
+                            <TabsTrigger value="chart">Chart View</TabsTrigger>
+                            <TabsTrigger value="table">Table View</TabsTrigger>
+                          </TabsList>
                       
-                      <TabsContent value="chart" className="mt-4">
-                        <FullHistoryChart
-                          sensorName={selectedSensor.channel_name}
-                          unit={selectedSensor.unit}
-                          readings={readings}
-                          offsets={offsets}
-                          onDeleteReading={handleDeleteReading}
-                          onFetchReadings={async (startDate, endDate) => {
-                            if (selectedSensorId) {
-                              await fetchReadings(selectedSensorId, startDate, endDate);
-                            }
-                          }}
-                        />
-                      </TabsContent>
+                          <TabsContent value="chart" className="mt-4">
+                            <FullHistoryChart
+                              sensorName={selectedSensor.channel_name}
+                              unit={selectedSensor.unit}
+                              readings={readings}
+                              offsets={offsets}
+                              proposedOffset={proposedOffset}
+                              gaps={gaps}
+                              completeness={completeness}
+                              onExcludeReading={canEdit ? handleExcludeReading : undefined}
+                              onBulkAction={canEdit ? handleBulkAction : undefined}
+                              onFetchReadings={async (startDate, endDate) => {
+                                if (selectedSensorId) {
+                                  await fetchReadings(selectedSensorId, startDate, endDate);
+                                }
+                              }}
+                            />
+                          </TabsContent>
                       
-                      <TabsContent value="table" className="mt-4">
-                        <ReadingDataTable
-                          readings={readings}
+                          <TabsContent value="table" className="mt-4">
+                            <ReadingDataTable
+                              readings={readings}
+                              unit={selectedSensor.unit}
+                              onExcludeReading={handleExcludeReading}
+                              onSetQualityFlag={handleSetQualityFlag}
+                            />
+                          </TabsContent>
+                        </Tabs>
+
+                        {canEdit && (
+                          <OffsetCreationForm
+                            sensorId={selectedSensorId}
+                            sensorName={selectedSensor.channel_name}
+                            onCreateOffset={handleCreateOffset}
+                            onPreviewChange={setProposedOffset}
+                            preview={proposedPreview}
+                            suggestion={suggestion}
+                          />
+                        )}
+
+                        <ReferenceCheckPanel
+                          checks={referenceChecks}
                           unit={selectedSensor.unit}
-                          onDeleteReading={handleDeleteReading}
+                          operatorName={member.name}
+                          onCreateCheck={handleCreateReferenceCheck}
+                          onDeleteCheck={handleDeleteReferenceCheck}
+                          onUseCheck={setSuggestion}
                         />
-                      </TabsContent>
-                    </Tabs>
-
-                    <OffsetCreationForm
-                      sensorId={selectedSensorId}
-                      sensorName={selectedSensor.channel_name}
-                      onCreateOffset={handleCreateOffset}
-                    />
-
-                    <OffsetManagementTable
-                      offsets={offsets}
-                      onDeleteOffset={handleDeleteOffset}
-                      onDeactivateOffset={handleDeactivateOffset}
-                    />
+
+                        <OffsetManagementTable
+                          offsets={offsets}
+                          referenceChecks={referenceChecks}
+                          onDeleteOffset={handleDeleteOffset}
+                          onDeactivateOffset={handleDeactivateOffset}
+                        />
+
+                        <ChannelHistoryTable channelId={selectedSensorId} />
+                      </>
+                    )}
                   </>
                 )}
-              </>
-            )}
+              </TabsContent>
+
+              <TabsContent value="rules" className="mt-4">
+                <ChannelRulesManager onCallAction={callEdgeFunction} onRulesChanged={fetchSensors} />
+              </TabsContent>
+
+              <TabsContent value="qc" className="mt-4">
+                <QcRulesManager onCallAction={callEdgeFunction} />
+              </TabsContent>
+
+              <TabsContent value="excluded" className="mt-4">
+                <ExcludedReadingsTable onCallAction={callEdgeFunction} />
+              </TabsContent>
+
+              {hasRole(member, "data_manager") && (
+                <TabsContent value="staff" className="mt-4">
+                  <StaffRolesManager currentUserId={member.id} onCallAction={callEdgeFunction} />
+                </TabsContent>
+              )}
+            </Tabs>
           </div>
         </div>
       )}
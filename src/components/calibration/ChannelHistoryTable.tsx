@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { formatInTimeZone } from 'date-fns-tz';
+import { EAST_AFRICAN_TIMEZONE, TIMEZONE_LABEL } from '@/lib/timezoneConfig';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+
+interface ChannelChange {
+  id: string;
+  change_type: string;
+  old_value: string | null;
+  new_value: string | null;
+  detected_at: string;
+}
+
+interface ChannelHistoryTableProps {
+  channelId: string;
+}
+
+const CHANGE_LABELS: Record<string, string> = {
+  added: "Added",
+  renamed: "Renamed",
+  unit_changed: "Unit changed",
+  sensor_changed: "Sensor changed",
+  removed: "Removed",
+  restored: "Restored",
+};
+
+export const ChannelHistoryTable = ({ channelId }: ChannelHistoryTableProps) => {
+  const [changes, setChanges] = useState<ChannelChange[]>([]);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      const { data, error } = await supabase
+        .from("sensor_channel_history")
+        .select("id, change_type, old_value, new_value, detected_at")
+        .eq("channel_id", channelId)
+        .order("detected_at", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching channel history:", error);
+        return;
+      }
+      setChanges(data || []);
+    };
+
+    fetchHistory();
+  }, [channelId]);
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Channel History ({changes.length})</CardTitle>
+        <CardDescription>Configuration changes detected in the Stevens config packet</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Detected</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>From</TableHead>
+                <TableHead>To</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {changes.map((change) => (
+                <TableRow key={change.id}>
+                  <TableCell>
+                    {formatInTimeZone(new Date(change.detected_at), EAST_AFRICAN_TIMEZONE, "MMM d, yyyy HH:mm")} {TIMEZONE_LABEL}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={change.change_type === "removed" ? "destructive" : "secondary"}>
+                      {CHANGE_LABELS[change.change_type] || change.change_type}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{change.old_value || "—"}</TableCell>
+                  <TableCell>{change.new_value || "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
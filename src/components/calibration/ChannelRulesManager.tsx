@@ -0,0 +1,344 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+import { CallAdminAction, errorMessage } from "@/lib/edgeFunctions";
+
+interface Station {
+  id: string;
+  station_name: string;
+}
+
+interface ChannelRule {
+  id: string;
+  sensor_name: string;
+  channel_name: string | null;
+  ingest: boolean;
+  visibility: string;
+}
+
+interface StationChannel {
+  id: string;
+  sensor_name: string | null;
+  channel_name: string;
+  unit: string | null;
+  is_active: boolean | null;
+  visibility: string;
+  removed_at: string | null;
+}
+
+interface ChannelRulesManagerProps {
+  onCallAction: CallAdminAction;
+  onRulesChanged?: () => void;
+}
+
+// Select value standing in for a sensor-wide rule (channel_name NULL)
+const ALL_CHANNELS = "__all__";
+
+export const ChannelRulesManager = ({ onCallAction, onRulesChanged }: ChannelRulesManagerProps) => {
+  const [stations, setStations] = useState<Station[]>([]);
+  const [selectedStationId, setSelectedStationId] = useState<string | null>(null);
+  const [rules, setRules] = useState<ChannelRule[]>([]);
+  const [channels, setChannels] = useState<StationChannel[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [newSensorName, setNewSensorName] = useState("");
+  const [newChannelName, setNewChannelName] = useState(ALL_CHANNELS);
+  const [newIngest, setNewIngest] = useState(true);
+  const [newVisibility, setNewVisibility] = useState("public");
+
+  useEffect(() => {
+    const fetchStations = async () => {
+      const { data, error } = await supabase
+        .from("sensor_stations")
+        .select("id, station_name")
+        .order("station_name");
+
+      if (error) {
+        console.error("Error fetching stations:", error);
+        toast.error("Failed to load stations");
+        return;
+      }
+      setStations(data || []);
+      if (data && data.length > 0) {
+        setSelectedStationId(current => current || data[0].id);
+      }
+    };
+
+    fetchStations();
+  }, []);
+
+  const fetchStationConfig = async (stationId: string) => {
+    try {
+      const [rulesResult, channelsResult] = await Promise.all([
+        supabase
+          .from("channel_ingest_rules")
+          .select("id, sensor_name, channel_name, ingest, visibility")
+          .eq("station_id", stationId)
+          .order("sensor_name"),
+        supabase
+          .from("sensor_channels")
+          .select("id, sensor_name, channel_name, unit, is_active, visibility, removed_at")
+          .eq("station_id", stationId)
+          .order("sensor_name")
+          .order("channel_name"),
+      ]);
+
+      if (rulesResult.error) throw rulesResult.error;
+      if (channelsResult.error) throw channelsResult.error;
+
+      setRules(rulesResult.data || []);
+      setChannels(channelsResult.data || []);
+    } catch (error) {
+      console.error("Error fetching channel rules:", error);
+      toast.error("Failed to load channel rules");
+    }
+  };
+
+  useEffect(() => {
+    if (selectedStationId) {
+      fetchStationConfig(selectedStationId);
+    }
+  }, [selectedStationId]);
+
+  const sensorNames = useMemo(
+    () => Array.from(new Set(channels.map(c => c.sensor_name).filter((name): name is string => !!name))),
+    [channels]
+  );
+
+  const sensorChannels = channels.filter(c => c.sensor_name === newSensorName);
+
+  const runAction = async (action: string, data: object, successMessage: string) => {
+    if (!selectedStationId) return;
+    setIsSaving(true);
+    try {
+      await onCallAction(action, data);
+      toast.success(successMessage);
+      await fetchStationConfig(selectedStationId);
+      onRulesChanged?.();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, "Failed to save channel rule"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddRule = async () => {
+    if (!selectedStationId || !newSensorName) return;
+    await runAction("create_ingest_rule", {
+      station_id: selectedStationId,
+      sensor_name: newSensorName,
+      channel_name: newChannelName === ALL_CHANNELS ? null : newChannelName,
+      ingest: newIngest,
+      visibility: newVisibility,
+    }, "Channel rule added");
+    setNewChannelName(ALL_CHANNELS);
+  };
+
+  const handleUpdateRule = (rule: ChannelRule, changes: Partial<Pick<ChannelRule, "ingest" | "visibility">>) =>
+    runAction("update_ingest_rule", {
+      id: rule.id,
+      ingest: changes.ingest ?? rule.ingest,
+      visibility: changes.visibility ?? rule.visibility,
+    }, "Channel rule updated");
+
+  const handleDeleteRule = (rule: ChannelRule) =>
+    runAction("delete_ingest_rule", { id: rule.id }, "Channel rule deleted");
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="station-select">Station</Label>
+        <Select value={selectedStationId || ""} onValueChange={setSelectedStationId}>
+          <SelectTrigger id="station-select" className="w-full">
+            <SelectValue placeholder="Choose a station..." />
+          </SelectTrigger>
+          <SelectContent>
+            {stations.map((station) => (
+              <SelectItem key={station.id} value={station.id}>
+                {station.station_name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Channel Rules ({rules.length})</CardTitle>
+          <CardDescription>
+            A rule for a whole sensor applies to all of its channels unless a channel has its own rule.
+            Channels no rule mentions are not ingested. Stations without any rules ingest everything as internal.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {rules.length > 0 && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Sensor</TableHead>
+                    <TableHead>Channel</TableHead>
+                    <TableHead>Ingest</TableHead>
+                    <TableHead>Visibility</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((rule) => (
+                    <TableRow key={rule.id}>
+                      <TableCell className="font-medium">{rule.sensor_name}</TableCell>
+                      <TableCell>{rule.channel_name || <span className="text-muted-foreground">All channels</span>}</TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={rule.ingest}
+                          disabled={isSaving}
+                          onCheckedChange={(checked) => handleUpdateRule(rule, { ingest: checked })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={rule.visibility}
+                          disabled={isSaving}
+                          onValueChange={(value) => handleUpdateRule(rule, { visibility: value })}
+                        >
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="public">Public</SelectItem>
+                            <SelectItem value="internal">Internal</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          disabled={isSaving}
+                          onClick={() => handleDeleteRule(rule)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="rule-sensor">Sensor</Label>
+              <Select
+                value={newSensorName}
+                onValueChange={(value) => {
+                  setNewSensorName(value);
+                  setNewChannelName(ALL_CHANNELS);
+                }}
+              >
+                <SelectTrigger id="rule-sensor">
+                  <SelectValue placeholder="Choose a sensor..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {sensorNames.map((name) => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-channel">Channel</Label>
+              <Select value={newChannelName} onValueChange={setNewChannelName} disabled={!newSensorName}>
+                <SelectTrigger id="rule-channel">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CHANNELS}>All channels</SelectItem>
+                  {sensorChannels.map((channel) => (
+                    <SelectItem key={channel.id} value={channel.channel_name}>{channel.channel_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 h-10">
+              <Switch id="rule-ingest" checked={newIngest} onCheckedChange={setNewIngest} />
+              <Label htmlFor="rule-ingest">Ingest</Label>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-visibility">Visibility</Label>
+              <Select value={newVisibility} onValueChange={setNewVisibility}>
+                <SelectTrigger id="rule-visibility">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="public">Public</SelectItem>
+                  <SelectItem value="internal">Internal</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleAddRule} disabled={isSaving || !newSensorName}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Discovered Channels ({channels.length})</CardTitle>
+          <CardDescription>
+            Every channel the station has reported and how the rules currently treat it
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sensor</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Unit</TableHead>
+                  <TableHead>Ingested</TableHead>
+                  <TableHead>Visibility</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {channels.map((channel) => (
+                  <TableRow key={channel.id}>
+                    <TableCell>{channel.sensor_name || "—"}</TableCell>
+                    <TableCell className="font-medium">{channel.channel_name}</TableCell>
+                    <TableCell>{channel.unit || "—"}</TableCell>
+                    <TableCell>
+                      {channel.removed_at ? (
+                        <Badge variant="destructive">Removed</Badge>
+                      ) : (
+                        <Badge variant={channel.is_active ? "default" : "secondary"}>
+                          {channel.is_active ? "Yes" : "No"}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={channel.visibility === "public" ? "outline" : "secondary"}>
+                        {channel.visibility === "public" ? "Public" : "Internal"}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
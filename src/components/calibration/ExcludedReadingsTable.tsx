@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { formatEAT } from '@/lib/timezoneConfig';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Undo2 } from "lucide-react";
+import { CallAdminAction, errorMessage } from "@/lib/edgeFunctions";
+
+interface ExcludedReading {
+  id: string;
+  measured_at: string;
+  value: number;
+  excluded_at: string;
+  excluded_reason: string;
+  excluded_by: string;
+  sensor_channels: { sensor_name: string | null; channel_name: string; unit: string | null } | null;
+}
+
+interface ExcludedReadingsTableProps {
+  onCallAction: CallAdminAction;
+}
+
+// Most recent exclusions shown
+const EXCLUDED_LIMIT = 500;
+
+export const ExcludedReadingsTable = ({ onCallAction }: ExcludedReadingsTableProps) => {
+  const [readings, setReadings] = useState<ExcludedReading[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchExcluded = async () => {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from("sensor_readings")
+        .select("id, measured_at, value, excluded_at, excluded_reason, excluded_by, sensor_channels(sensor_name, channel_name, unit)")
+        .not("excluded_at", "is", null)
+        .order("excluded_at", { ascending: false })
+        .limit(EXCLUDED_LIMIT);
+
+      if (error) {
+        console.error("Error fetching excluded readings:", error);
+        toast.error("Failed to load excluded readings");
+      } else {
+        setReadings((data || []) as ExcludedReading[]);
+      }
+      setIsLoading(false);
+    };
+
+    fetchExcluded();
+  }, []);
+
+  const handleRestore = async (readingId: string) => {
+    setRestoringId(readingId);
+    try {
+      await onCallAction("restore_reading", { reading_id: readingId });
+      toast.success("Reading restored");
+      setReadings(current => current.filter(r => r.id !== readingId));
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, "Failed to restore reading"));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Excluded Readings ({readings.length})</CardTitle>
+        <CardDescription>
+          Readings rejected by an operator. They are hidden from the dashboard and QC, and later ingests leave them excluded.
+          Restoring a reading brings it back everywhere.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Excluded</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Reading Time</TableHead>
+                  <TableHead>Value</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {readings.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      No excluded readings
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  readings.map((reading) => (
+                    <TableRow key={reading.id}>
+                      <TableCell>{formatEAT(reading.excluded_at)}</TableCell>
+                      <TableCell>
+                        {reading.sensor_channels
+                          ? `${reading.sensor_channels.sensor_name ? `${reading.sensor_channels.sensor_name} - ` : ""}${reading.sensor_channels.channel_name}`
+                          : "—"}
+                      </TableCell>
+                      <TableCell>{formatEAT(reading.measured_at)}</TableCell>
+                      <TableCell>{reading.value} {reading.sensor_channels?.unit}</TableCell>
+                      <TableCell className="max-w-xs">{reading.excluded_reason}</TableCell>
+                      <TableCell>{reading.excluded_by}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={restoringId !== null}
+                          onClick={() => handleRestore(reading.id)}
+                        >
+                          {restoringId === reading.id ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Undo2 className="h-4 w-4 mr-2" />}
+                          Restore
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
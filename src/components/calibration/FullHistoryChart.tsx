@@ -9,17 +9,24 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Button } from "@/components/ui/button";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
+import { isFlagged, QUALITY_FLAG_LABELS, QualityFlag } from "@/lib/qualityFlags";
+import { DataGap, formatGapDuration, withGapBreaks } from "@/lib/dataGaps";
+import { BulkActionRequest, BulkSelectionPanel } from "./BulkSelectionPanel";
+import { applyCalibration, CalibrationModel, describeCalibration, evaluateCalibration, isWithinWindow, ProposedCalibration } from "@/lib/calibration";
 
 interface Reading {
   id: string;
   measured_at: string;
   value: number;
+  quality_flag: string;
 }
 
-interface CalibrationOffset {
+interface CalibrationOffset extends CalibrationModel {
   id: string;
-  offset_value: number;
   valid_from: string;
   valid_until: string | null;
   reason: string;
@@ -30,15 +37,29 @@ interface FullHistoryChartProps {
   unit: string | null;
   readings: Reading[];
   offsets: CalibrationOffset[];
-  onDeleteReading?: (readingId: string) => Promise<void>;
+  // A correction still being filled in, drawn over its window without being saved
+  proposedOffset?: ProposedCalibration | null;
+  gaps?: DataGap[];
+  // Percentage of expected readings received over the loaded range
+  completeness?: number | null;
+  onExcludeReading?: (readingId: string, reason: string) => Promise<void>;
+  onBulkAction?: (request: BulkActionRequest) => Promise<void>;
   onFetchReadings?: (startDate: Date, endDate: Date) => Promise<void>;
 }
 
-export const FullHistoryChart = ({ sensorName, unit, readings, offsets, onDeleteReading, onFetchReadings }: FullHistoryChartProps) => {
+export const FullHistoryChart = ({ sensorName, unit, readings, offsets, proposedOffset = null, gaps = [], completeness = null, onExcludeReading, onBulkAction, onFetchReadings }: FullHistoryChartProps) => {
   const [selectedReading, setSelectedReading] = useState<{ id: string; value: number; date: string } | null>(null);
-  const [isDeleting, setIsDeleting] = useState(false);
+  const [exclusionReason, setExclusionReason] = useState("");
+  const [isExcluding, setIsExcluding] = useState(false);
   const [startDate, setStartDate] = useState<Date | undefined>(undefined);
   const [endDate, setEndDate] = useState<Date | undefined>(undefined);
+  const [hideFlagged, setHideFlagged] = useState(false);
+  // Time window dragged out on the chart, plus an optional value box within it
+  const [dragStart, setDragStart] = useState<number | null>(null);
+  const [dragEnd, setDragEnd] = useState<number | null>(null);
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+  const [valueMin, setValueMin] = useState("");
+  const [valueMax, setValueMax] = useState("");
 
   // Set default date range (last 30 days)
   useEffect(() => {
@@ -51,16 +72,29 @@ export const FullHistoryChart = ({ sensorName, unit, readings, offsets, onDelete
   }, []);
 
   const chartData = useMemo(() => {
-    return readings.map((reading) => ({
-      id: reading.id,
-      timestamp: new Date(reading.measured_at).getTime(),
-      value: reading.value,
-      date: formatInTimeZone(new Date(reading.measured_at), EAST_AFRICAN_TIMEZONE, "MMM d, yyyy HH:mm") + ` ${TIMEZONE_LABEL}`,
-    }));
-  }, [readings]);
+    return readings.map((reading) => {
+      // Masked points are left as gaps in the line rather than joined across
+      const masked = hideFlagged && isFlagged(reading.quality_flag);
+      return {
+        id: reading.id,
+        timestamp: new Date(reading.measured_at).getTime(),
+        value: masked ? null : reading.value,
+        // As the dashboard shows it, with the saved calibrations applied
+        corrected: masked ? null : applyCalibration(reading.value, reading.measured_at, offsets).value,
+        // Only drawn inside the proposed correction's window
+        proposed: !masked && proposedOffset && isWithinWindow(proposedOffset, reading.measured_at)
+          ? evaluateCalibration(proposedOffset, reading.value, reading.measured_at)
+          : null,
+        qualityFlag: reading.quality_flag,
+        date: formatInTimeZone(new Date(reading.measured_at), EAST_AFRICAN_TIMEZONE, "MMM d, yyyy HH:mm") + ` ${TIMEZONE_LABEL}`,
+      };
+    });
+  }, [readings, offsets, proposedOffset, hideFlagged]);
+
+  const flaggedCount = useMemo(() => readings.filter(r => isFlagged(r.quality_flag)).length, [readings]);
 
   // Filter chart data based on date range
-  const filteredChartData = useMemo(() => {
+  const filteredReadings = useMemo(() => {
     if (!startDate || !endDate) return chartData;
     
     // Create NEW date objects to avoid mutating state
@@ -77,6 +111,48 @@ export const FullHistoryChart = ({ sensorName, unit, readings, offsets, onDelete
     );
   }, [chartData, startDate, endDate]);
 
+  const filteredChartData = useMemo(() => withGapBreaks(filteredReadings, gaps), [filteredReadings, gaps]);
+  const gapMinutes = useMemo(() => gaps.reduce((sum, gap) => sum + gap.durationMinutes, 0), [gaps]);
+
+  const selectedReadings = useMemo(() => {
+    if (!selection) return [];
+    const min = valueMin === "" ? -Infinity : parseFloat(valueMin);
+    const max = valueMax === "" ? Infinity : parseFloat(valueMax);
+    return readings
+      .filter(reading => {
+        const timestamp = new Date(reading.measured_at).getTime();
+        return timestamp >= selection.start && timestamp <= selection.end && reading.value >= min && reading.value <= max;
+      })
+      .sort((a, b) => a.measured_at.localeCompare(b.measured_at));
+  }, [readings, selection, valueMin, valueMax]);
+
+  // Recharts passes the chart state, whose activeLabel is the hovered timestamp
+  const handleChartMouseDown = (e: { activeLabel?: string } | null) => {
+    if (!onBulkAction || e?.activeLabel === undefined) return;
+    setDragStart(Number(e.activeLabel));
+    setDragEnd(Number(e.activeLabel));
+  };
+
+  const handleChartMouseMove = (e: { activeLabel?: string } | null) => {
+    if (dragStart === null || e?.activeLabel === undefined) return;
+    setDragEnd(Number(e.activeLabel));
+  };
+
+  const handleChartMouseUp = () => {
+    // A click without movement is left to the dot handler
+    if (dragStart !== null && dragEnd !== null && dragStart !== dragEnd) {
+      setSelection({ start: Math.min(dragStart, dragEnd), end: Math.max(dragStart, dragEnd) });
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const clearSelection = () => {
+    setSelection(null);
+    setValueMin("");
+    setValueMax("");
+  };
+
   const handleResetDateRange = () => {
     if (readings.length > 0) {
       const dates = readings.map(r => new Date(r.measured_at));
@@ -92,7 +168,8 @@ export const FullHistoryChart = ({ sensorName, unit, readings, offsets, onDelete
   };
 
   const handleDotClick = (data: any) => {
-    if (onDeleteReading && data) {
+    if (onExcludeReading && data) {
+      setExclusionReason("");
       setSelectedReading({
         id: data.id,
         value: data.value,
@@ -101,24 +178,27 @@ export const FullHistoryChart = ({ sensorName, unit, readings, offsets, onDelete
     }
   };
 
-  const handleConfirmDelete = async () => {
-    if (!selectedReading || !onDeleteReading) return;
+  const handleConfirmExclude = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (!selectedReading || !onExcludeReading || !exclusionReason.trim()) return;
     
-    setIsDeleting(true);
+    setIsExcluding(true);
     try {
-      await onDeleteReading(selectedReading.id);
+      await onExcludeReading(selectedReading.id, exclusionReason.trim());
       setSelectedReading(null);
     } catch (error) {
-      console.error('Failed to delete reading:', error);
+      console.error('Failed to exclude reading:', error);
     } finally {
-      setIsDeleting(false);
+      setIsExcluding(false);
     }
   };
 
   const CustomDot = (props: any) => {
     const { cx, cy, payload } = props;
+    const flagged = isFlagged(payload.qualityFlag);
+    const fill = flagged ? "hsl(var(--destructive))" : "hsl(var(--primary))";
     
-    if (!onDeleteReading) {
+    if (payload.value === null || (!onExcludeReading && !flagged)) {
       return null;
     }
 
@@ -127,14 +207,13 @@ export const FullHistoryChart = ({ sensorName, unit, readings, offsets, onDelete
         cx={cx}
         cy={cy}
         r={3}
-        fill="hsl(var(--primary))"
+        fill={fill}
         stroke="hsl(var(--background))"
         strokeWidth={1}
-        style={{ cursor: 'pointer' }}
+        style={{ cursor: onExcludeReading ? 'pointer' : 'default' }}
         onClick={() => handleDotClick(payload)}
         onMouseEnter={(e) => {
           e.currentTarget.setAttribute('r', '5');
-          e.currentTarget.style.fill = 'hsl(var(--primary))';
         }}
         onMouseLeave={(e) => {
           e.currentTarget.setAttribute('r', '3');
@@ -147,12 +226,19 @@ export const FullHistoryChart = ({ sensorName, unit, readings, offsets, onDelete
     return offsets.map((offset) => {
       const startTime = new Date(offset.valid_from).getTime();
       const endTime = offset.valid_until ? new Date(offset.valid_until).getTime() : Date.now();
+      // A drift correction is shaded by the size of its correction, ramping from the first check to the second
+      const ramp = offset.model_type === "drift"
+        ? [Math.abs(offset.drift_start_error ?? 0), Math.abs(offset.drift_end_error ?? 0)]
+        : null;
+      const largest = ramp ? Math.max(...ramp) : 0;
       return {
+        id: offset.id,
         x1: startTime,
         x2: endTime,
-        fill: "hsl(var(--primary))",
-        fillOpacity: 0.1,
-        label: `Offset: ${offset.offset_value > 0 ? '+' : ''}${offset.offset_value}`,
+        fill: ramp ? `url(#drift-${offset.id})` : "hsl(var(--primary))",
+        fillOpacity: ramp ? 1 : 0.1,
+        rampOpacity: ramp?.map(error => (largest > 0 ? 0.05 + (0.25 * error) / largest : 0.05)) ?? null,
+        label: `Correction: ${describeCalibration(offset)}`,
       };
     });
   }, [offsets]);
@@ -317,12 +403,64 @@ export const FullHistoryChart = ({ sensorName, unit, readings, offsets, onDelete
 
         {startDate && endDate && (
           <p className="text-sm text-muted-foreground mb-4">
-            Showing {filteredChartData.length} of {chartData.length} readings from {format(startDate, "MMM d, yyyy")} to {format(endDate, "MMM d, yyyy")}
+            Showing {filteredReadings.length} of {chartData.length} readings from {format(startDate, "MMM d, yyyy")} to {format(endDate, "MMM d, yyyy")}
+          </p>
+        )}
+
+        {(gaps.length > 0 || completeness !== null) && (
+          <p className="text-sm text-muted-foreground mb-4">
+            {completeness !== null && `${completeness}% of expected readings received over the loaded range. `}
+            {gaps.length > 0
+              ? `${gaps.length} gap${gaps.length !== 1 ? 's' : ''} totalling ${formatGapDuration(gapMinutes)}, shaded grey.`
+              : 'No gaps.'}
           </p>
         )}
 
+        {flaggedCount > 0 && (
+          <div className="flex items-center gap-2 mb-4">
+            <Switch id="hide-flagged" checked={hideFlagged} onCheckedChange={setHideFlagged} />
+            <Label htmlFor="hide-flagged">
+              Hide {flaggedCount} flagged reading{flaggedCount !== 1 ? 's' : ''}
+            </Label>
+          </div>
+        )}
+
+        {onBulkAction && (
+          <div className="flex flex-wrap items-center gap-4 mb-4">
+            <p className="text-sm text-muted-foreground">
+              Drag across the chart to select a time range for bulk actions. Narrow it to a value band with:
+            </p>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="selection-min" className="text-sm">Min</Label>
+              <Input
+                id="selection-min"
+                type="number"
+                step="any"
+                className="w-24"
+                value={valueMin}
+                onChange={(e) => setValueMin(e.target.value)}
+              />
+              <Label htmlFor="selection-max" className="text-sm">Max</Label>
+              <Input
+                id="selection-max"
+                type="number"
+                step="any"
+                className="w-24"
+                value={valueMax}
+                onChange={(e) => setValueMax(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
         <ResponsiveContainer width="100%" height={500}>
-          <LineChart data={filteredChartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <LineChart
+            data={filteredChartData}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            onMouseDown={handleChartMouseDown}
+            onMouseMove={handleChartMouseMove}
+            onMouseUp={handleChartMouseUp}
+          >
             <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
             <XAxis 
               dataKey="timestamp" 
@@ -337,12 +475,28 @@ export const FullHistoryChart = ({ sensorName, unit, readings, offsets, onDelete
             <Tooltip 
               content={({ active, payload }) => {
                 if (active && payload && payload.length) {
+                  const point = payload[0].payload;
                   return (
                     <div className="bg-popover border border-border p-3 rounded-md shadow-lg">
-                      <p className="text-sm font-medium">{payload[0].payload.date}</p>
+                      <p className="text-sm font-medium">{point.date}</p>
                       <p className="text-sm text-muted-foreground">
-                        Value: {payload[0].value} {unit}
+                        Raw: {point.value} {unit}
                       </p>
+                      {offsets.length > 0 && point.corrected != null && point.corrected !== point.value && (
+                        <p className="text-sm text-muted-foreground">
+                          Corrected: {Number(point.corrected.toFixed(4))} {unit}
+                        </p>
+                      )}
+                      {point.proposed != null && (
+                        <p className="text-sm text-muted-foreground">
+                          Proposed: {Number(point.proposed.toFixed(4))} {unit}
+                        </p>
+                      )}
+                      {isFlagged(point.qualityFlag) && (
+                        <p className="text-sm text-destructive">
+                          {QUALITY_FLAG_LABELS[point.qualityFlag as QualityFlag] || point.qualityFlag}
+                        </p>
+                      )}
                     </div>
                   );
                 }
@@ -350,6 +504,15 @@ export const FullHistoryChart = ({ sensorName, unit, readings, offsets, onDelete
               }}
             />
             <Legend />
+
+            <defs>
+              {offsetRegions.filter(region => region.rampOpacity).map(region => (
+                <linearGradient key={region.id} id={`drift-${region.id}`} x1="0" y1="0" x2="1" y2="0">
+                  <stop offset="0%" stopColor="hsl(var(--primary))" stopOpacity={region.rampOpacity![0]} />
+                  <stop offset="100%" stopColor="hsl(var(--primary))" stopOpacity={region.rampOpacity![1]} />
+                </linearGradient>
+              ))}
+            </defs>
             
             {offsetRegions.map((region, index) => (
               <ReferenceArea
@@ -361,6 +524,35 @@ export const FullHistoryChart = ({ sensorName, unit, readings, offsets, onDelete
                 label={{ value: region.label, position: 'top' }}
               />
             ))}
+
+            {gaps.map((gap) => (
+              <ReferenceArea
+                key={gap.start}
+                x1={new Date(gap.start).getTime()}
+                x2={new Date(gap.end).getTime()}
+                fill="hsl(var(--muted-foreground))"
+                fillOpacity={0.15}
+                ifOverflow="hidden"
+              />
+            ))}
+
+            {dragStart !== null && dragEnd !== null && (
+              <ReferenceArea x1={dragStart} x2={dragEnd} fill="hsl(var(--accent-foreground))" fillOpacity={0.1} />
+            )}
+
+            {selection && (
+              <ReferenceArea
+                x1={selection.start}
+                x2={selection.end}
+                y1={valueMin === "" ? undefined : parseFloat(valueMin)}
+                y2={valueMax === "" ? undefined : parseFloat(valueMax)}
+                stroke="hsl(var(--accent-foreground))"
+                strokeDasharray="4 4"
+                fill="hsl(var(--accent-foreground))"
+                fillOpacity={0.1}
+                ifOverflow="hidden"
+              />
+            )}
             
             <Line 
               type="monotone" 
@@ -368,17 +560,53 @@ export const FullHistoryChart = ({ sensorName, unit, readings, offsets, onDelete
               stroke="hsl(var(--primary))" 
               strokeWidth={2}
               dot={<CustomDot />}
-              name={`${sensorName} ${unit ? `(${unit})` : ''}`}
+              name={`${sensorName} ${offsets.length > 0 || proposedOffset ? 'raw ' : ''}${unit ? `(${unit})` : ''}`}
             />
+
+            {offsets.length > 0 && (
+              <Line
+                type="monotone"
+                dataKey="corrected"
+                stroke="hsl(142 71% 38%)"
+                strokeWidth={2}
+                strokeDasharray="6 3"
+                dot={false}
+                name="Corrected"
+              />
+            )}
+
+            {proposedOffset && (
+              <Line
+                type="monotone"
+                dataKey="proposed"
+                stroke="hsl(25 95% 53%)"
+                strokeWidth={2}
+                strokeDasharray="2 2"
+                dot={false}
+                name="Proposed correction"
+                isAnimationActive={false}
+              />
+            )}
           </LineChart>
         </ResponsiveContainer>
 
+        {onBulkAction && selection && (
+          <BulkSelectionPanel
+            readings={selectedReadings}
+            unit={unit}
+            windowStart={selection.start}
+            windowEnd={selection.end}
+            onBulkAction={onBulkAction}
+            onClear={clearSelection}
+          />
+        )}
+
         <AlertDialog open={!!selectedReading} onOpenChange={(open) => !open && setSelectedReading(null)}>
           <AlertDialogContent>
             <AlertDialogHeader>
-              <AlertDialogTitle>Delete Sensor Reading</AlertDialogTitle>
+              <AlertDialogTitle>Exclude Sensor Reading</AlertDialogTitle>
               <AlertDialogDescription>
-                Are you sure you want to delete this reading? This action cannot be undone.
+                The reading is hidden from the dashboard and skipped by later ingests. It can be restored from the Excluded Readings tab.
                 {selectedReading && (
                   <div className="mt-4 p-3 bg-muted rounded-md space-y-1">
                     <p className="text-sm"><strong>Date:</strong> {selectedReading.date}</p>
@@ -387,14 +615,23 @@ export const FullHistoryChart = ({ sensorName, unit, readings, offsets, onDelete
                 )}
               </AlertDialogDescription>
             </AlertDialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="chart-exclusion-reason">Reason</Label>
+              <Input
+                id="chart-exclusion-reason"
+                value={exclusionReason}
+                onChange={(e) => setExclusionReason(e.target.value)}
+                placeholder="e.g. Sensor out of the water during maintenance"
+              />
+            </div>
             <AlertDialogFooter>
-              <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+              <AlertDialogCancel disabled={isExcluding}>Cancel</AlertDialogCancel>
               <AlertDialogAction
-                onClick={handleConfirmDelete}
-                disabled={isDeleting}
+                onClick={handleConfirmExclude}
+                disabled={isExcluding || !exclusionReason.trim()}
                 className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
               >
-                {isDeleting ? "Deleting..." : "Delete"}
+                {isExcluding ? "Excluding..." : "Exclude"}
               </AlertDialogAction>
             </AlertDialogFooter>
           </AlertDialogContent>
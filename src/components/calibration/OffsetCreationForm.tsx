@@ -1,63 +1,162 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Plus } from "lucide-react";
-import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
 import { EAST_AFRICAN_TIMEZONE } from '@/lib/timezoneConfig';
+import {
+  CALIBRATION_MODEL_LABELS,
+  CalibrationModel,
+  CalibrationModelType,
+  CalibrationPreview,
+  ProposedCalibration,
+  validateCalibrationModel,
+} from "@/lib/calibration";
+import { CalibrationSuggestion } from "./ReferenceCheckPanel";
+
+export type NewCalibrationOffset = CalibrationModel & {
+  channel_id: string;
+  valid_from: string;
+  valid_until: string | null;
+  reason: string;
+  start_check_id: string | null;
+  end_check_id: string | null;
+};
 
 interface OffsetCreationFormProps {
   sensorId: string;
   sensorName: string;
-  onCreateOffset: (offsetData: {
-    channel_id: string;
-    offset_value: number;
-    valid_from: string;
-    valid_until: string | null;
-    reason: string;
-  }) => Promise<void>;
+  onCreateOffset: (offsetData: NewCalibrationOffset) => Promise<void>;
+  // Receives the correction as it is filled in, or null when it is incomplete or the form is closed
+  onPreviewChange?: (proposal: ProposedCalibration | null) => void;
+  // The loaded readings in the proposed window, before and after the correction
+  preview?: CalibrationPreview | null;
+  // A reference check to fill the form in from
+  suggestion?: CalibrationSuggestion | null;
 }
 
-export const OffsetCreationForm = ({ sensorId, sensorName, onCreateOffset }: OffsetCreationFormProps) => {
+const EMPTY_POINTS = [{ raw: "", reference: "" }, { raw: "", reference: "" }];
+
+const parseNumber = (text: string) => (text.trim() === "" ? NaN : Number(text));
+
+// Convert EAT datetime input to UTC for storage
+const toStoredTime = (input: string) => fromZonedTime(input, EAST_AFRICAN_TIMEZONE).toISOString();
+
+const formatStat = (value: number) => Number(value.toFixed(3)).toString();
+
+const toInputTime = (timestamp: string) => formatInTimeZone(new Date(timestamp), EAST_AFRICAN_TIMEZONE, "yyyy-MM-dd'T'HH:mm");
+
+export const OffsetCreationForm = ({ sensorId, sensorName, onCreateOffset, onPreviewChange, preview, suggestion }: OffsetCreationFormProps) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [modelType, setModelType] = useState<CalibrationModelType>("offset");
   const [offsetValue, setOffsetValue] = useState("");
+  const [gain, setGain] = useState("");
+  // Comma-separated, constant term first
+  const [coefficients, setCoefficients] = useState("");
+  const [points, setPoints] = useState(EMPTY_POINTS);
+  // Sensor minus reference at the check opening and closing the deployment
+  const [driftStartError, setDriftStartError] = useState("");
+  const [driftEndError, setDriftEndError] = useState("");
   const [validFrom, setValidFrom] = useState(formatInTimeZone(new Date(), EAST_AFRICAN_TIMEZONE, "yyyy-MM-dd'T'HH:mm"));
   const [validUntil, setValidUntil] = useState("");
   const [reason, setReason] = useState("");
+  // The reference checks the correction is worked out from
+  const [startCheckId, setStartCheckId] = useState<string | null>(null);
+  const [endCheckId, setEndCheckId] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  const model: CalibrationModel = useMemo(() => ({
+    model_type: modelType,
+    // Optional for a linear model and unused by the others
+    offset_value: modelType === "offset" || (modelType === "linear" && offsetValue.trim() !== "") ? parseNumber(offsetValue) : 0,
+    gain: modelType === "linear" ? parseNumber(gain) : null,
+    coefficients: modelType === "polynomial" ? coefficients.split(",").filter(c => c.trim() !== "").map(parseNumber) : null,
+    lookup_points: modelType === "lookup"
+      ? points.map(point => ({ raw: parseNumber(point.raw), reference: parseNumber(point.reference) }))
+      : null,
+    drift_start_error: modelType === "drift" ? parseNumber(driftStartError) : null,
+    drift_end_error: modelType === "drift" ? parseNumber(driftEndError) : null,
+  }), [modelType, offsetValue, gain, coefficients, points, driftStartError, driftEndError]);
+  const modelError = validateCalibrationModel(model)
+    ?? (modelType === "drift" && !validUntil ? "A drift correction needs an end date, the time of the second check" : null);
+
+  useEffect(() => {
+    if (!onPreviewChange) return;
+    onPreviewChange(isOpen && !modelError && validFrom
+      ? { ...model, valid_from: toStoredTime(validFrom), valid_until: validUntil ? toStoredTime(validUntil) : null }
+      : null);
+  }, [onPreviewChange, isOpen, model, modelError, validFrom, validUntil]);
+
+  useEffect(() => {
+    if (!suggestion) return;
+    const { use, check } = suggestion;
+    // Sonde minus reference; an offset removes it by adding its negative
+    const error = Number((check.sonde_value - check.reference_value).toFixed(6));
+    setIsOpen(true);
+    setReason(current => current || `Reference check with ${check.instrument} by ${check.operator}`);
+    if (use === "offset") {
+      setModelType("offset");
+      setOffsetValue(String(-error));
+      setValidFrom(toInputTime(check.checked_at));
+      setStartCheckId(check.id);
+      setEndCheckId(null);
+    } else {
+      setModelType("drift");
+      if (use === "drift_start") {
+        setDriftStartError(String(error));
+        setValidFrom(toInputTime(check.checked_at));
+        setStartCheckId(check.id);
+      } else {
+        setDriftEndError(String(error));
+        setValidUntil(toInputTime(check.checked_at));
+        setEndCheckId(check.id);
+      }
+    }
+  }, [suggestion]);
+
+  // Stop previewing when the form goes away
+  useEffect(() => () => onPreviewChange?.(null), [onPreviewChange]);
+
+  const updatePoint = (index: number, field: "raw" | "reference", value: string) =>
+    setPoints(current => current.map((point, i) => (i === index ? { ...point, [field]: value } : point)));
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!offsetValue || !validFrom || !reason) {
+    if (modelError || !validFrom || !reason) {
       return;
     }
 
     setIsSubmitting(true);
     try {
-      // Convert EAT datetime input to UTC for storage
-      const validFromDate = new Date(validFrom);
-      const validFromUTC = toZonedTime(validFromDate, EAST_AFRICAN_TIMEZONE).toISOString();
-      
-      const validUntilUTC = validUntil 
-        ? toZonedTime(new Date(validUntil), EAST_AFRICAN_TIMEZONE).toISOString()
-        : null;
-
       await onCreateOffset({
         channel_id: sensorId,
-        offset_value: parseFloat(offsetValue),
-        valid_from: validFromUTC,
-        valid_until: validUntilUTC,
+        ...model,
+        valid_from: toStoredTime(validFrom),
+        valid_until: validUntil ? toStoredTime(validUntil) : null,
         reason: reason,
+        start_check_id: startCheckId,
+        // Only a drift correction has a second check
+        end_check_id: modelType === "drift" ? endCheckId : null,
       });
       
       // Reset form
+      setModelType("offset");
       setOffsetValue("");
+      setGain("");
+      setCoefficients("");
+      setPoints(EMPTY_POINTS);
+      setDriftStartError("");
+      setDriftEndError("");
       setValidFrom(formatInTimeZone(new Date(), EAST_AFRICAN_TIMEZONE, "yyyy-MM-dd'T'HH:mm"));
       setValidUntil("");
       setReason("");
+      setStartCheckId(null);
+      setEndCheckId(null);
       setIsOpen(false);
     } catch (error) {
       console.error("Error creating offset:", error);
@@ -87,21 +186,106 @@ export const OffsetCreationForm = ({ sensorId, sensorName, onCreateOffset }: Off
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="offset-value">Offset Value *</Label>
-              <Input
-                id="offset-value"
-                type="number"
-                step="0.01"
-                value={offsetValue}
-                onChange={(e) => setOffsetValue(e.target.value)}
-                placeholder="e.g., 56.14 or -2.5"
-                required
-              />
-              <p className="text-xs text-muted-foreground">
-                Positive or negative number to add to readings
-              </p>
+              <Label htmlFor="model-type">Calibration Model *</Label>
+              <Select value={modelType} onValueChange={(value) => setModelType(value as CalibrationModelType)}>
+                <SelectTrigger id="model-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CALIBRATION_MODEL_LABELS) as CalibrationModelType[]).map(type => (
+                    <SelectItem key={type} value={type}>{CALIBRATION_MODEL_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
 
+            {modelType === "linear" && (
+              <div className="space-y-2">
+                <Label htmlFor="gain">Gain *</Label>
+                <Input
+                  id="gain"
+                  type="number"
+                  step="any"
+                  value={gain}
+                  onChange={(e) => setGain(e.target.value)}
+                  placeholder="e.g., 1.04"
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  Readings are multiplied by the gain, then the offset is added
+                </p>
+              </div>
+            )}
+
+            {(modelType === "offset" || modelType === "linear") && (
+              <div className="space-y-2">
+                <Label htmlFor="offset-value">{modelType === "offset" ? "Offset Value *" : "Offset"}</Label>
+                <Input
+                  id="offset-value"
+                  type="number"
+                  step="any"
+                  value={offsetValue}
+                  onChange={(e) => setOffsetValue(e.target.value)}
+                  placeholder="e.g., 56.14 or -2.5"
+                  required={modelType === "offset"}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Positive or negative number to add to readings
+                </p>
+              </div>
+            )}
+
+            {modelType === "polynomial" && (
+              <div className="space-y-2">
+                <Label htmlFor="coefficients">Coefficients *</Label>
+                <Input
+                  id="coefficients"
+                  value={coefficients}
+                  onChange={(e) => setCoefficients(e.target.value)}
+                  placeholder="e.g., 0.12, 0.98, 0.0004"
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  Comma-separated, constant term first: c0 + c1·x + c2·x² …
+                </p>
+              </div>
+            )}
+
+            {modelType === "drift" && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="drift-start-error">Error at Start Check *</Label>
+                  <Input
+                    id="drift-start-error"
+                    type="number"
+                    step="any"
+                    value={driftStartError}
+                    onChange={(e) => setDriftStartError(e.target.value)}
+                    placeholder="e.g., 0"
+                    required
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Sensor reading minus the reference value at the start date
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="drift-end-error">Error at End Check *</Label>
+                  <Input
+                    id="drift-end-error"
+                    type="number"
+                    step="any"
+                    value={driftEndError}
+                    onChange={(e) => setDriftEndError(e.target.value)}
+                    placeholder="e.g., 1.8"
+                    required
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Sensor reading minus the reference value at the end date. The correction ramps linearly between the two.
+                  </p>
+                </div>
+              </>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="valid-from">Start Date/Time *</Label>
               <Input
@@ -114,19 +298,71 @@ export const OffsetCreationForm = ({ sensorId, sensorName, onCreateOffset }: Off
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="valid-until">End Date/Time (Optional)</Label>
+              <Label htmlFor="valid-until">{modelType === "drift" ? "End Date/Time *" : "End Date/Time (Optional)"}</Label>
               <Input
                 id="valid-until"
                 type="datetime-local"
                 value={validUntil}
                 onChange={(e) => setValidUntil(e.target.value)}
+                required={modelType === "drift"}
               />
               <p className="text-xs text-muted-foreground">
-                Leave blank for ongoing correction
+                {modelType === "drift" ? "The time of the second check" : "Leave blank for ongoing correction"}
               </p>
             </div>
           </div>
 
+          {modelType === "lookup" && (
+            <div className="space-y-2">
+              <Label>Calibration Points *</Label>
+              <p className="text-xs text-muted-foreground">
+                The sensor's raw reading in each standard and the standard's value. Readings between points are
+                interpolated; beyond the outermost points the nearest segment is extended.
+              </p>
+              {points.map((point, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    step="any"
+                    className="w-40"
+                    value={point.raw}
+                    onChange={(e) => updatePoint(index, "raw", e.target.value)}
+                    placeholder="Raw reading"
+                    aria-label={`Raw reading ${index + 1}`}
+                  />
+                  <span className="text-muted-foreground">→</span>
+                  <Input
+                    type="number"
+                    step="any"
+                    className="w-40"
+                    value={point.reference}
+                    onChange={(e) => updatePoint(index, "reference", e.target.value)}
+                    placeholder="Standard value"
+                    aria-label={`Standard value ${index + 1}`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={points.length <= 2}
+                    onClick={() => setPoints(current => current.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setPoints(current => [...current, { raw: "", reference: "" }])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Point
+              </Button>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="reason">Reason *</Label>
             <Textarea
@@ -139,13 +375,49 @@ export const OffsetCreationForm = ({ sensorId, sensorName, onCreateOffset }: Off
             />
           </div>
 
-          <div className="flex gap-2">
-            <Button type="submit" disabled={isSubmitting}>
+          {onPreviewChange && !modelError && (
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              <p className="font-medium">Preview</p>
+              {preview && preview.count > 0 && preview.raw && preview.corrected ? (
+                <>
+                  <p className="text-muted-foreground">
+                    {preview.count} loaded reading{preview.count !== 1 ? "s" : ""} in this period, drawn corrected on the chart above.
+                  </p>
+                  <div className="grid grid-cols-4 gap-2 max-w-md">
+                    <span />
+                    <span className="text-muted-foreground">Mean</span>
+                    <span className="text-muted-foreground">Min</span>
+                    <span className="text-muted-foreground">Max</span>
+                    <span className="text-muted-foreground">Before</span>
+                    <span>{formatStat(preview.raw.mean)}</span>
+                    <span>{formatStat(preview.raw.min)}</span>
+                    <span>{formatStat(preview.raw.max)}</span>
+                    <span className="text-muted-foreground">After</span>
+                    <span>{formatStat(preview.corrected.mean)}</span>
+                    <span>{formatStat(preview.corrected.min)}</span>
+                    <span>{formatStat(preview.corrected.max)}</span>
+                  </div>
+                  <p className="text-muted-foreground">
+                    Mean change: {preview.corrected.mean - preview.raw.mean >= 0 ? "+" : ""}
+                    {formatStat(preview.corrected.mean - preview.raw.mean)}
+                  </p>
+                </>
+              ) : (
+                <p className="text-muted-foreground">
+                  No loaded readings in this period. Load a date range on the chart to see the correction's effect.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Button type="submit" disabled={isSubmitting || !!modelError}>
               {isSubmitting ? "Creating..." : "Apply Offset"}
             </Button>
             <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
               Cancel
             </Button>
+            {modelError && <span className="text-sm text-muted-foreground">{modelError}</span>}
           </div>
         </form>
       </CardContent>
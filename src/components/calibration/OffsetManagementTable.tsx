@@ -6,24 +6,29 @@ import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Trash2, StopCircle } from "lucide-react";
+import { CALIBRATION_MODEL_LABELS, CalibrationModel, describeCalibration } from "@/lib/calibration";
+import { ReferenceCheck } from "./ReferenceCheckPanel";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 
-interface CalibrationOffset {
+interface CalibrationOffset extends CalibrationModel {
   id: string;
-  offset_value: number;
   valid_from: string;
   valid_until: string | null;
   reason: string;
   created_at: string;
+  start_check_id: string | null;
+  end_check_id: string | null;
 }
 
 interface OffsetManagementTableProps {
   offsets: CalibrationOffset[];
+  // Looked up to show the checks each correction was worked out from
+  referenceChecks?: ReferenceCheck[];
   onDeleteOffset: (id: string) => Promise<void>;
   onDeactivateOffset: (id: string) => Promise<void>;
 }
 
-export const OffsetManagementTable = ({ offsets, onDeleteOffset, onDeactivateOffset }: OffsetManagementTableProps) => {
+export const OffsetManagementTable = ({ offsets, referenceChecks = [], onDeleteOffset, onDeactivateOffset }: OffsetManagementTableProps) => {
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [deactivatingId, setDeactivatingId] = useState<string | null>(null);
 
@@ -45,6 +50,13 @@ export const OffsetManagementTable = ({ offsets, onDeleteOffset, onDeactivateOff
     }
   };
 
+  const describeEvidence = (offset: CalibrationOffset) =>
+    [offset.start_check_id, offset.end_check_id]
+      .map(id => referenceChecks.find(check => check.id === id))
+      .filter((check): check is ReferenceCheck => !!check)
+      .map(check => `${check.instrument}, ${formatInTimeZone(new Date(check.checked_at), EAST_AFRICAN_TIMEZONE, "MMM d, yyyy HH:mm")} ${TIMEZONE_LABEL}`)
+      .join("; ");
+
   const isActive = (offset: CalibrationOffset) => {
     if (!offset.valid_until) return true;
     return new Date(offset.valid_until) > new Date();
@@ -74,7 +86,7 @@ export const OffsetManagementTable = ({ offsets, onDeleteOffset, onDeactivateOff
             <TableHeader>
               <TableRow>
                 <TableHead>Status</TableHead>
-                <TableHead>Offset Value</TableHead>
+                <TableHead>Correction</TableHead>
                 <TableHead>Start Date</TableHead>
                 <TableHead>End Date</TableHead>
                 <TableHead>Reason</TableHead>
@@ -92,7 +104,8 @@ export const OffsetManagementTable = ({ offsets, onDeleteOffset, onDeactivateOff
                       </Badge>
                     </TableCell>
                     <TableCell className="font-medium">
-                      {offset.offset_value > 0 ? '+' : ''}{offset.offset_value}
+                      {describeCalibration(offset)}
+                      <div className="text-xs font-normal text-muted-foreground">{CALIBRATION_MODEL_LABELS[offset.model_type]}</div>
                     </TableCell>
                     <TableCell>
                       {formatInTimeZone(new Date(offset.valid_from), EAST_AFRICAN_TIMEZONE, "MMM d, yyyy HH:mm")} {TIMEZONE_LABEL}
@@ -104,10 +117,14 @@ export const OffsetManagementTable = ({ offsets, onDeleteOffset, onDeactivateOff
                     </TableCell>
                     <TableCell className="max-w-xs truncate" title={offset.reason}>
                       {offset.reason}
+                      {describeEvidence(offset) && (
+                        <div className="text-xs text-muted-foreground truncate">Checks: {describeEvidence(offset)}</div>
+                      )}
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
-                        {active && (
+                        {/* Ending a drift correction early would rescale its ramp */}
+                        {active && offset.model_type !== "drift" && (
                           <AlertDialog>
                             <AlertDialogTrigger asChild>
                               <Button
@@ -0,0 +1,362 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { format, subDays } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Play, Save, Trash2 } from "lucide-react";
+import { QcRule } from "@/lib/sensorValidation";
+import { QUALITY_FLAG_LABELS, QualityFlag } from "@/lib/qualityFlags";
+import { CallAdminAction, errorMessage } from "@/lib/edgeFunctions";
+
+interface Station {
+  id: string;
+  station_name: string;
+}
+
+interface ChannelWithRule {
+  id: string;
+  sensor_name: string | null;
+  channel_name: string;
+  unit: string | null;
+  channel_qc_rules: QcRule | null;
+}
+
+interface QcRunResult {
+  channelId: string;
+  channelName: string;
+  changed: number;
+  summary: {
+    total: number;
+    flagged: number;
+    counts: Partial<Record<QualityFlag, number>>;
+  };
+}
+
+type NumericField = Exclude<keyof QcRule, "neighbor_channel_id">;
+
+// Inputs are edited as text so a field can be cleared to disable its test
+type RuleDraft = Record<keyof QcRule, string>;
+
+interface QcRulesManagerProps {
+  onCallAction: CallAdminAction;
+}
+
+const NUMERIC_FIELDS: { field: NumericField; label: string; step: string }[] = [
+  { field: "min_value", label: "Min", step: "any" },
+  { field: "max_value", label: "Max", step: "any" },
+  { field: "max_rate_of_change", label: "Max change / hour", step: "any" },
+  { field: "flatline_minutes", label: "Flatline minutes", step: "1" },
+  { field: "flatline_tolerance", label: "Flatline tolerance", step: "any" },
+  { field: "spike_mad_threshold", label: "Spike MADs", step: "0.5" },
+  { field: "spike_window_minutes", label: "Spike window (min)", step: "1" },
+  { field: "max_neighbor_difference", label: "Max neighbour difference", step: "any" },
+];
+
+// Select value for a channel without a neighbour
+const NO_NEIGHBOR = "__none__";
+
+const toDraft = (rule: QcRule | null): RuleDraft => ({
+  min_value: rule?.min_value?.toString() ?? "",
+  max_value: rule?.max_value?.toString() ?? "",
+  max_rate_of_change: rule?.max_rate_of_change?.toString() ?? "",
+  flatline_minutes: rule?.flatline_minutes?.toString() ?? "",
+  flatline_tolerance: rule?.flatline_tolerance?.toString() ?? "",
+  spike_mad_threshold: rule?.spike_mad_threshold?.toString() ?? "",
+  spike_window_minutes: rule?.spike_window_minutes?.toString() ?? "",
+  neighbor_channel_id: rule?.neighbor_channel_id ?? "",
+  max_neighbor_difference: rule?.max_neighbor_difference?.toString() ?? "",
+});
+
+const parseSetting = (text: string) => (text.trim() === "" ? null : Number(text));
+
+const channelLabel = (channel: ChannelWithRule) =>
+  `${channel.sensor_name ? `${channel.sensor_name} - ` : ""}${channel.channel_name}`;
+
+export const QcRulesManager = ({ onCallAction }: QcRulesManagerProps) => {
+  const [stations, setStations] = useState<Station[]>([]);
+  const [selectedStationId, setSelectedStationId] = useState<string | null>(null);
+  const [channels, setChannels] = useState<ChannelWithRule[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, RuleDraft>>({});
+  const [savingChannelId, setSavingChannelId] = useState<string | null>(null);
+  const [runStart, setRunStart] = useState(format(subDays(new Date(), 7), "yyyy-MM-dd"));
+  const [runEnd, setRunEnd] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [isRunning, setIsRunning] = useState(false);
+  const [runResults, setRunResults] = useState<QcRunResult[] | null>(null);
+
+  useEffect(() => {
+    const fetchStations = async () => {
+      const { data, error } = await supabase
+        .from("sensor_stations")
+        .select("id, station_name")
+        .order("station_name");
+
+      if (error) {
+        console.error("Error fetching stations:", error);
+        toast.error("Failed to load stations");
+        return;
+      }
+      setStations(data || []);
+      if (data && data.length > 0) {
+        setSelectedStationId(current => current || data[0].id);
+      }
+    };
+
+    fetchStations();
+  }, []);
+
+  const fetchChannels = async (stationId: string) => {
+    const { data, error } = await supabase
+      .from("sensor_channels")
+      .select("id, sensor_name, channel_name, unit, channel_qc_rules!channel_qc_rules_channel_id_fkey(min_value, max_value, max_rate_of_change, flatline_minutes, flatline_tolerance, spike_mad_threshold, spike_window_minutes, neighbor_channel_id, max_neighbor_difference)")
+      .eq("station_id", stationId)
+      .is("removed_at", null)
+      .order("sensor_name")
+      .order("channel_name");
+
+    if (error) {
+      console.error("Error fetching QC rules:", error);
+      toast.error("Failed to load QC rules");
+      return;
+    }
+    setChannels(data || []);
+    setDrafts(Object.fromEntries((data || []).map(c => [c.id, toDraft(c.channel_qc_rules)])));
+  };
+
+  useEffect(() => {
+    if (selectedStationId) {
+      setRunResults(null);
+      fetchChannels(selectedStationId);
+    }
+  }, [selectedStationId]);
+
+  const updateDraft = (channelId: string, field: keyof QcRule, value: string) =>
+    setDrafts(current => ({ ...current, [channelId]: { ...current[channelId], [field]: value } }));
+
+  const isChanged = (channel: ChannelWithRule) => {
+    const saved = toDraft(channel.channel_qc_rules);
+    const draft = drafts[channel.id];
+    return !!draft && (Object.keys(saved) as (keyof QcRule)[]).some(field => draft[field] !== saved[field]);
+  };
+
+  const runAction = async (channelId: string, action: string, data: object, successMessage: string) => {
+    if (!selectedStationId) return;
+    setSavingChannelId(channelId);
+    try {
+      await onCallAction(action, data);
+      toast.success(successMessage);
+      await fetchChannels(selectedStationId);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, "Failed to save QC rule"));
+    } finally {
+      setSavingChannelId(null);
+    }
+  };
+
+  const handleSave = (channel: ChannelWithRule) => {
+    const draft = drafts[channel.id];
+    const settings = Object.fromEntries(NUMERIC_FIELDS.map(({ field }) => [field, parseSetting(draft[field])]));
+    if (Object.values(settings).some(value => value !== null && !Number.isFinite(value))) {
+      toast.error("Settings must be numbers");
+      return;
+    }
+    return runAction(channel.id, "upsert_qc_rule", {
+      channel_id: channel.id,
+      ...settings,
+      flatline_tolerance: settings.flatline_tolerance ?? 0,
+      neighbor_channel_id: draft.neighbor_channel_id || null,
+    }, "QC rule saved");
+  };
+
+  const handleDelete = (channel: ChannelWithRule) =>
+    runAction(channel.id, "delete_qc_rule", { channel_id: channel.id }, "QC rule removed");
+
+  const handleRunQc = async () => {
+    if (!selectedStationId) return;
+    setIsRunning(true);
+    try {
+      const result = await onCallAction<QcRunResult[]>("run_qc", {
+        station_id: selectedStationId,
+        range_start: new Date(`${runStart}T00:00:00`).toISOString(),
+        range_end: new Date(`${runEnd}T23:59:59.999`).toISOString(),
+      });
+      const results: QcRunResult[] = result.data || [];
+      setRunResults(results);
+      toast.success(`QC re-run: ${results.reduce((sum, r) => sum + r.changed, 0)} flag(s) changed`);
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, "Failed to run QC"));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="qc-station-select">Station</Label>
+        <Select value={selectedStationId || ""} onValueChange={setSelectedStationId}>
+          <SelectTrigger id="qc-station-select" className="w-full">
+            <SelectValue placeholder="Choose a station..." />
+          </SelectTrigger>
+          <SelectContent>
+            {stations.map((station) => (
+              <SelectItem key={station.id} value={station.id}>
+                {station.station_name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Quality Control Rules</CardTitle>
+          <CardDescription>
+            Thresholds used to flag readings at ingest, judge sensors on the dashboard and check uploads.
+            Leave a setting empty to switch that test off. Channels without a rule are not checked.
+            The spike test compares each reading with the median of the readings in a window centred on it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Channel</TableHead>
+                  {NUMERIC_FIELDS.map(({ field, label }) => (
+                    <TableHead key={field}>{label}</TableHead>
+                  ))}
+                  <TableHead>Neighbour channel</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {channels.map((channel) => (
+                  <TableRow key={channel.id}>
+                    <TableCell>
+                      <div className="font-medium whitespace-nowrap">{channelLabel(channel)}</div>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        {channel.unit || "No unit"}
+                        {!channel.channel_qc_rules && <Badge variant="secondary">No rule</Badge>}
+                      </div>
+                    </TableCell>
+                    {NUMERIC_FIELDS.map(({ field, step }) => (
+                      <TableCell key={field}>
+                        <Input
+                          type="number"
+                          step={step}
+                          className="w-24"
+                          value={drafts[channel.id]?.[field] ?? ""}
+                          onChange={(e) => updateDraft(channel.id, field, e.target.value)}
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      <Select
+                        value={drafts[channel.id]?.neighbor_channel_id || NO_NEIGHBOR}
+                        onValueChange={(value) => updateDraft(channel.id, "neighbor_channel_id", value === NO_NEIGHBOR ? "" : value)}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_NEIGHBOR}>None</SelectItem>
+                          {channels.filter(c => c.id !== channel.id).map(c => (
+                            <SelectItem key={c.id} value={c.id}>{channelLabel(c)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      <Button
+                        size="sm"
+                        disabled={savingChannelId !== null || !isChanged(channel)}
+                        onClick={() => handleSave(channel)}
+                      >
+                        <Save className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        disabled={savingChannelId !== null || !channel.channel_qc_rules}
+                        onClick={() => handleDelete(channel)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Re-run QC</CardTitle>
+          <CardDescription>
+            Apply the current rules to stored readings, for example after changing a threshold.
+            Manual flags are kept. At most 31 days can be re-checked at a time.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="qc-run-start">From</Label>
+              <Input id="qc-run-start" type="date" value={runStart} onChange={(e) => setRunStart(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="qc-run-end">To</Label>
+              <Input id="qc-run-end" type="date" value={runEnd} onChange={(e) => setRunEnd(e.target.value)} />
+            </div>
+            <Button onClick={handleRunQc} disabled={isRunning || !selectedStationId || !runStart || !runEnd}>
+              {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+              Run QC
+            </Button>
+          </div>
+
+          {runResults && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Channel</TableHead>
+                    <TableHead className="text-right">Readings</TableHead>
+                    <TableHead className="text-right">Flagged</TableHead>
+                    <TableHead className="text-right">Changed</TableHead>
+                    <TableHead>Flags</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runResults.map((result) => (
+                    <TableRow key={result.channelId}>
+                      <TableCell className="font-medium">{result.channelName}</TableCell>
+                      <TableCell className="text-right">{result.summary.total.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{result.summary.flagged.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{result.changed.toLocaleString()}</TableCell>
+                      <TableCell className="space-x-1">
+                        {(Object.entries(result.summary.counts) as [QualityFlag, number][])
+                          .filter(([flag]) => flag !== "good")
+                          .map(([flag, count]) => (
+                            <Badge key={flag} variant="outline">
+                              {QUALITY_FLAG_LABELS[flag] || flag}: {count}
+                            </Badge>
+                          ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -1,37 +1,46 @@
 import { useState } from "react";
 import { formatInTimeZone } from 'date-fns-tz';
 import { EAST_AFRICAN_TIMEZONE, TIMEZONE_LABEL } from '@/lib/timezoneConfig';
-import { Trash2 } from "lucide-react";
+import { Ban, Flag, FlagOff } from "lucide-react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { isFlagged, QUALITY_FLAG_DESCRIPTIONS, QUALITY_FLAG_LABELS, QualityFlag } from "@/lib/qualityFlags";
 
 interface Reading {
   id: string;
   measured_at: string;
   value: number;
+  quality_flag: string;
 }
 
 interface ReadingDataTableProps {
   readings: Reading[];
   unit: string | null;
-  onDeleteReading: (readingId: string) => Promise<void>;
+  onExcludeReading: (readingId: string, reason: string) => Promise<void>;
+  onSetQualityFlag?: (readingId: string, qualityFlag: "good" | "manual") => Promise<void>;
 }
 
-export const ReadingDataTable = ({ readings, unit, onDeleteReading }: ReadingDataTableProps) => {
+export const ReadingDataTable = ({ readings, unit, onExcludeReading, onSetQualityFlag }: ReadingDataTableProps) => {
   const [selectedReading, setSelectedReading] = useState<{ id: string; value: number; date: string } | null>(null);
-  const [isDeleting, setIsDeleting] = useState(false);
+  const [exclusionReason, setExclusionReason] = useState("");
+  const [isExcluding, setIsExcluding] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
 
   const filteredReadings = readings.filter((reading) => {
     const searchLower = searchTerm.toLowerCase();
     const dateStr = formatInTimeZone(new Date(reading.measured_at), EAST_AFRICAN_TIMEZONE, "MMM d, yyyy HH:mm").toLowerCase();
     const valueStr = reading.value.toString();
-    return dateStr.includes(searchLower) || valueStr.includes(searchLower);
+    const flagStr = QUALITY_FLAG_LABELS[reading.quality_flag as QualityFlag]?.toLowerCase() || "";
+    return dateStr.includes(searchLower) || valueStr.includes(searchLower) || flagStr.includes(searchLower);
   });
 
-  const handleDeleteClick = (reading: Reading) => {
+  const handleExcludeClick = (reading: Reading) => {
+    setExclusionReason("");
     setSelectedReading({
       id: reading.id,
       value: reading.value,
@@ -39,17 +48,18 @@ export const ReadingDataTable = ({ readings, unit, onDeleteReading }: ReadingDat
     });
   };
 
-  const handleConfirmDelete = async () => {
-    if (!selectedReading) return;
+  const handleConfirmExclude = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (!selectedReading || !exclusionReason.trim()) return;
     
-    setIsDeleting(true);
+    setIsExcluding(true);
     try {
-      await onDeleteReading(selectedReading.id);
+      await onExcludeReading(selectedReading.id, exclusionReason.trim());
       setSelectedReading(null);
     } catch (error) {
-      console.error('Failed to delete reading:', error);
+      console.error('Failed to exclude reading:', error);
     } finally {
-      setIsDeleting(false);
+      setIsExcluding(false);
     }
   };
 
@@ -57,7 +67,7 @@ export const ReadingDataTable = ({ readings, unit, onDeleteReading }: ReadingDat
     <>
       <div className="mb-4">
         <Input
-          placeholder="Search by date or value..."
+          placeholder="Search by date, value or quality..."
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
           className="max-w-sm"
@@ -70,13 +80,14 @@ export const ReadingDataTable = ({ readings, unit, onDeleteReading }: ReadingDat
             <TableRow>
               <TableHead>Date & Time</TableHead>
               <TableHead>Value</TableHead>
-              <TableHead className="w-[80px]">Actions</TableHead>
+              <TableHead>Quality</TableHead>
+              <TableHead className="w-[120px]">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {filteredReadings.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={3} className="text-center text-muted-foreground">
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
                   No readings found
                 </TableCell>
               </TableRow>
@@ -86,13 +97,43 @@ export const ReadingDataTable = ({ readings, unit, onDeleteReading }: ReadingDat
                   <TableCell>{formatInTimeZone(new Date(reading.measured_at), EAST_AFRICAN_TIMEZONE, "MMM d, yyyy HH:mm")} {TIMEZONE_LABEL}</TableCell>
                   <TableCell>{reading.value} {unit}</TableCell>
                   <TableCell>
+                    {isFlagged(reading.quality_flag) ? (
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Badge variant="destructive">
+                              {QUALITY_FLAG_LABELS[reading.quality_flag as QualityFlag] || reading.quality_flag}
+                            </Badge>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            {QUALITY_FLAG_DESCRIPTIONS[reading.quality_flag as QualityFlag] || reading.quality_flag}
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    ) : (
+                      <span className="text-muted-foreground">{QUALITY_FLAG_LABELS.good}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="flex gap-1">
+                    {onSetQualityFlag && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={isFlagged(reading.quality_flag) ? "Clear flag" : "Flag as suspect"}
+                        onClick={() => onSetQualityFlag(reading.id, isFlagged(reading.quality_flag) ? "good" : "manual")}
+                        className="h-8 w-8"
+                      >
+                        {isFlagged(reading.quality_flag) ? <FlagOff className="h-4 w-4" /> : <Flag className="h-4 w-4" />}
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="icon"
-                      onClick={() => handleDeleteClick(reading)}
+                      title="Exclude reading"
+                      onClick={() => handleExcludeClick(reading)}
                       className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
                     >
-                      <Trash2 className="h-4 w-4" />
+                      <Ban className="h-4 w-4" />
                     </Button>
                   </TableCell>
                 </TableRow>
@@ -105,9 +146,9 @@ export const ReadingDataTable = ({ readings, unit, onDeleteReading }: ReadingDat
       <AlertDialog open={!!selectedReading} onOpenChange={(open) => !open && setSelectedReading(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Sensor Reading</AlertDialogTitle>
+            <AlertDialogTitle>Exclude Sensor Reading</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this reading? This action cannot be undone.
+              The reading is hidden from the dashboard and skipped by later ingests. It can be restored from the Excluded Readings tab.
               {selectedReading && (
                 <div className="mt-4 p-3 bg-muted rounded-md space-y-1">
                   <p className="text-sm"><strong>Date:</strong> {selectedReading.date}</p>
@@ -116,14 +157,23 @@ export const ReadingDataTable = ({ readings, unit, onDeleteReading }: ReadingDat
               )}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="exclusion-reason">Reason</Label>
+            <Input
+              id="exclusion-reason"
+              value={exclusionReason}
+              onChange={(e) => setExclusionReason(e.target.value)}
+              placeholder="e.g. Sensor out of the water during maintenance"
+            />
+          </div>
           <AlertDialogFooter>
-            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogCancel disabled={isExcluding}>Cancel</AlertDialogCancel>
             <AlertDialogAction
-              onClick={handleConfirmDelete}
-              disabled={isDeleting}
+              onClick={handleConfirmExclude}
+              disabled={isExcluding || !exclusionReason.trim()}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
-              {isDeleting ? "Deleting..." : "Delete"}
+              {isExcluding ? "Excluding..." : "Exclude"}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { EAST_AFRICAN_TIMEZONE, TIMEZONE_LABEL } from '@/lib/timezoneConfig';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+
+export interface ReferenceCheck {
+  id: string;
+  checked_at: string;
+  reference_value: number;
+  // The sonde's reading at the time of the check
+  sonde_value: number;
+  sonde_measured_at: string;
+  instrument: string;
+  operator: string;
+  notes: string | null;
+}
+
+// How a check is carried into a new correction: as a single offset, or as one end of a drift correction
+export type ReferenceCheckUse = "offset" | "drift_start" | "drift_end";
+
+export interface CalibrationSuggestion {
+  use: ReferenceCheckUse;
+  check: ReferenceCheck;
+}
+
+export interface NewReferenceCheck {
+  checked_at: string;
+  reference_value: number;
+  instrument: string;
+  operator: string;
+  notes: string | null;
+}
+
+interface ReferenceCheckPanelProps {
+  checks: ReferenceCheck[];
+  unit: string | null;
+  operatorName: string;
+  onCreateCheck: (checkData: NewReferenceCheck) => Promise<void>;
+  onDeleteCheck: (id: string) => Promise<void>;
+  onUseCheck: (suggestion: CalibrationSuggestion) => void;
+}
+
+// Sonde minus reference, the error a correction has to remove
+const referenceCheckError = (check: ReferenceCheck) => check.sonde_value - check.reference_value;
+
+const formatValue = (value: number) => Number(value.toFixed(4)).toString();
+
+const nowInputValue = () => formatInTimeZone(new Date(), EAST_AFRICAN_TIMEZONE, "yyyy-MM-dd'T'HH:mm");
+
+export const ReferenceCheckPanel = ({ checks, unit, operatorName, onCreateCheck, onDeleteCheck, onUseCheck }: ReferenceCheckPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [checkedAt, setCheckedAt] = useState(nowInputValue());
+  const [referenceValue, setReferenceValue] = useState("");
+  const [instrument, setInstrument] = useState("");
+  const [operator, setOperator] = useState(operatorName);
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!checkedAt || referenceValue.trim() === "" || !instrument.trim() || !operator.trim()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onCreateCheck({
+        // The time is entered in EAT
+        checked_at: fromZonedTime(checkedAt, EAST_AFRICAN_TIMEZONE).toISOString(),
+        reference_value: Number(referenceValue),
+        instrument: instrument.trim(),
+        operator: operator.trim(),
+        notes: notes.trim() || null,
+      });
+      setCheckedAt(nowInputValue());
+      setReferenceValue("");
+      setNotes("");
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Error recording reference check:", error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setDeletingId(id);
+    try {
+      await onDeleteCheck(id);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reference Checks ({checks.length})</CardTitle>
+        <CardDescription>
+          Field checks against a calibrated handheld meter or a lab sample, matched to the sonde's reading at the same time.
+          Use a check to fill in an offset, or the start or end of a drift correction.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isOpen ? (
+          <form onSubmit={handleSubmit} className="space-y-4 rounded-md border p-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="check-time">Time of Check ({TIMEZONE_LABEL}) *</Label>
+                <Input
+                  id="check-time"
+                  type="datetime-local"
+                  value={checkedAt}
+                  onChange={(e) => setCheckedAt(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="check-reference">Reference Value{unit ? ` (${unit})` : ""} *</Label>
+                <Input
+                  id="check-reference"
+                  type="number"
+                  step="any"
+                  value={referenceValue}
+                  onChange={(e) => setReferenceValue(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="check-instrument">Instrument *</Label>
+                <Input
+                  id="check-instrument"
+                  value={instrument}
+                  onChange={(e) => setInstrument(e.target.value)}
+                  placeholder="e.g., YSI ProDSS #2 or lab sample"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="check-operator">Operator *</Label>
+                <Input
+                  id="check-operator"
+                  value={operator}
+                  onChange={(e) => setOperator(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="check-notes">Notes</Label>
+              <Textarea id="check-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+            </div>
+            <div className="flex items-center gap-2">
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Recording..." : "Record Check"}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <Button onClick={() => setIsOpen(true)} variant="outline">
+            <Plus className="h-4 w-4 mr-2" />
+            Record Reference Check
+          </Button>
+        )}
+
+        {checks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No reference checks recorded for this sensor.</p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Sonde</TableHead>
+                  <TableHead>Error</TableHead>
+                  <TableHead>Instrument</TableHead>
+                  <TableHead>Operator</TableHead>
+                  <TableHead className="text-right">Use As</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {checks.map((check) => (
+                  <TableRow key={check.id}>
+                    <TableCell>
+                      {formatInTimeZone(new Date(check.checked_at), EAST_AFRICAN_TIMEZONE, "MMM d, yyyy HH:mm")} {TIMEZONE_LABEL}
+                    </TableCell>
+                    <TableCell>{formatValue(check.reference_value)}</TableCell>
+                    <TableCell title={`Nearest reading at ${formatInTimeZone(new Date(check.sonde_measured_at), EAST_AFRICAN_TIMEZONE, "HH:mm")} ${TIMEZONE_LABEL}`}>
+                      {formatValue(check.sonde_value)}
+                    </TableCell>
+                    <TableCell className="font-medium">{formatValue(referenceCheckError(check))}</TableCell>
+                    <TableCell>{check.instrument}</TableCell>
+                    <TableCell className="max-w-xs truncate" title={check.notes || undefined}>{check.operator}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => onUseCheck({ use: "offset", check })}>
+                          Offset
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => onUseCheck({ use: "drift_start", check })}>
+                          Drift start
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => onUseCheck({ use: "drift_end", check })}>
+                          Drift end
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="destructive" size="sm" disabled={deletingId === check.id}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Reference Check?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Corrections worked out from this check keep their values but will no longer link to it.
+                                This action cannot be undone.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleDelete(check.id)}>
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
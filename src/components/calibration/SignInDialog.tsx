@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { errorMessage } from "@/lib/edgeFunctions";
+
+interface SignInDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSignIn: (email: string, password: string) => Promise<void>;
+  title?: string;
+  description?: string;
+}
+
+// Staff accounts are Supabase Auth users; roles are granted by a data manager
+export const SignInDialog = ({
+  open,
+  onOpenChange,
+  onSignIn,
+  title = "Staff Sign In",
+  description = "Sign in with your staff account to manage sensors and calibrations.",
+}: SignInDialogProps) => {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !password) return;
+
+    setIsSigningIn(true);
+    setError(null);
+    try {
+      await onSignIn(email.trim(), password);
+      setPassword("");
+    } catch (signInError: unknown) {
+      setError(errorMessage(signInError, "Sign in failed"));
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {description}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="sign-in-email">Email</Label>
+              <Input
+                id="sign-in-email"
+                type="email"
+                autoComplete="username"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sign-in-password">Password</Label>
+              <Input
+                id="sign-in-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSigningIn}>
+              {isSigningIn ? "Signing in..." : "Sign In"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,176 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { formatEAT } from '@/lib/timezoneConfig';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AppRole, ROLE_LABELS } from "@/hooks/use-staff-session";
+import { CallAdminAction, errorMessage } from "@/lib/edgeFunctions";
+
+interface StaffAccount {
+  id: string;
+  display_name: string;
+  email: string | null;
+  role: AppRole | null;
+}
+
+interface AuditEvent {
+  id: string;
+  user_name: string;
+  action: string;
+  record_id: string | null;
+  created_at: string;
+}
+
+interface StaffRolesManagerProps {
+  currentUserId: string;
+  onCallAction: CallAdminAction;
+}
+
+// Radix Select items cannot have an empty value
+const NO_ROLE = "none";
+
+// Most recent audit entries shown
+const AUDIT_LIMIT = 100;
+
+const ROLE_ORDER: AppRole[] = ["viewer", "technician", "data_manager"];
+
+export const StaffRolesManager = ({ currentUserId, onCallAction }: StaffRolesManagerProps) => {
+  const [accounts, setAccounts] = useState<StaffAccount[]>([]);
+  const [auditEvents, setAuditEvents] = useState<AuditEvent[]>([]);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const fetchStaff = useCallback(async () => {
+    const [profilesResult, rolesResult, auditResult] = await Promise.all([
+      supabase.from("profiles").select("id, display_name, email").order("display_name"),
+      supabase.from("user_roles").select("user_id, role"),
+      supabase
+        .from("admin_audit_log")
+        .select("id, user_name, action, record_id, created_at")
+        .order("created_at", { ascending: false })
+        .limit(AUDIT_LIMIT),
+    ]);
+
+    if (profilesResult.error || rolesResult.error || auditResult.error) {
+      console.error("Error fetching staff:", profilesResult.error || rolesResult.error || auditResult.error);
+      toast.error("Failed to load staff accounts");
+      return;
+    }
+
+    // Accounts hold a single role; should one hold several, the highest counts
+    const highestRole = (userId: string) =>
+      (rolesResult.data || [])
+        .filter(row => row.user_id === userId)
+        .map(row => row.role)
+        .sort((a, b) => ROLE_ORDER.indexOf(b) - ROLE_ORDER.indexOf(a))[0] ?? null;
+
+    setAccounts((profilesResult.data || []).map(profile => ({ ...profile, role: highestRole(profile.id) })));
+    setAuditEvents(auditResult.data || []);
+  }, []);
+
+  useEffect(() => {
+    fetchStaff();
+  }, [fetchStaff]);
+
+  const handleRoleChange = async (account: StaffAccount, value: string) => {
+    setSavingId(account.id);
+    try {
+      await onCallAction("set_user_role", { user_id: account.id, role: value === NO_ROLE ? null : value });
+      toast.success(`Updated access for ${account.display_name}`);
+      await fetchStaff();
+    } catch (error: unknown) {
+      toast.error(errorMessage(error, "Failed to update role"));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Staff Accounts ({accounts.length})</CardTitle>
+          <CardDescription>
+            Accounts are created in Supabase Auth. Viewers can look but not change anything, technicians record
+            calibrations, checks, exclusions and uploads, and data managers can also delete, edit rules, reprocess
+            and grant roles.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {accounts.map(account => (
+                  <TableRow key={account.id}>
+                    <TableCell className="font-medium">{account.display_name}</TableCell>
+                    <TableCell>{account.email}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={account.role ?? NO_ROLE}
+                        onValueChange={(value) => handleRoleChange(account, value)}
+                        disabled={account.id === currentUserId || savingId === account.id}
+                      >
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_ROLE}>No access</SelectItem>
+                          {ROLE_ORDER.map(role => (
+                            <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Changes</CardTitle>
+          <CardDescription>Who made each calibration, deletion and other admin change</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {auditEvents.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No changes recorded yet.</p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Record</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {auditEvents.map(event => (
+                    <TableRow key={event.id}>
+                      <TableCell>{formatEAT(event.created_at)}</TableCell>
+                      <TableCell>{event.user_name}</TableCell>
+                      <TableCell>{event.action.replace(/_/g, " ")}</TableCell>
+                      <TableCell className="font-mono text-xs text-muted-foreground">{event.record_id || "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
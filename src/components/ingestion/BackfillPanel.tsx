@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage, errorStatus, toEdgeFunctionError } from "@/lib/edgeFunctions";
+
+interface BackfillJob {
+  id: string;
+  status: string;
+  chunks_total: number;
+  chunks_completed: number;
+  readings_count: number;
+  next_chunk_start: string;
+  error_message: string | null;
+}
+
+interface BackfillPanelProps {
+  // Runs `run` once a staff member is signed in, asking them to sign in first if needed
+  onRunSignedIn: (description: string, run: () => void) => void;
+  onSessionRejected: () => void;
+  onFinished?: () => void;
+}
+
+const BACKFILL_YEARS = 3;
+// Pause before asking again about a job another invocation is working through
+const RUNNING_JOB_RETRY_MS = 10000;
+
+const JOB_COLUMNS = 'id, status, chunks_total, chunks_completed, readings_count, next_chunk_start, error_message';
+
+export const BackfillPanel = ({ onRunSignedIn, onSessionRejected, onFinished }: BackfillPanelProps) => {
+  const [backfillJob, setBackfillJob] = useState<BackfillJob | null>(null);
+  const [isBackfilling, setIsBackfilling] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const fetchLatestBackfillJob = async () => {
+      const { data: job, error } = await supabase
+        .from('ingestion_jobs')
+        .select(JOB_COLUMNS)
+        .eq('job_type', 'backfill')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching backfill job:', error);
+        return;
+      }
+      setBackfillJob(job);
+    };
+
+    fetchLatestBackfillJob();
+  }, []);
+
+  // Poll job progress while a backfill invocation is running
+  useEffect(() => {
+    if (!isBackfilling || !backfillJob?.id) return;
+
+    const jobId = backfillJob.id;
+    const interval = setInterval(async () => {
+      const { data: job } = await supabase
+        .from('ingestion_jobs')
+        .select(JOB_COLUMNS)
+        .eq('id', jobId)
+        .maybeSingle();
+      if (job) setBackfillJob(job);
+    }, 3000);
+
+    return () => clearInterval(interval);
+  }, [isBackfilling, backfillJob?.id]);
+
+  const runBackfill = async () => {
+    // Resume an unfinished job rather than starting the 3 year range over
+    const resumeJobId = backfillJob && backfillJob.status !== 'completed' ? backfillJob.id : undefined;
+    setIsBackfilling(true);
+    try {
+      const startDate = new Date();
+      startDate.setFullYear(startDate.getFullYear() - BACKFILL_YEARS);
+
+      let jobId = resumeJobId;
+      let job: BackfillJob | null = null;
+      // Each invocation processes as many chunks as fit in its time budget, so keep resuming until done
+      do {
+        const { data: result, error } = await supabase.functions.invoke('fetch-stevens-data', {
+          body: jobId
+            ? { mode: 'backfill', jobId }
+            : { mode: 'backfill', startDate: startDate.toISOString(), endDate: new Date().toISOString() }
+        });
+
+        if (error) throw await toEdgeFunctionError(error);
+        if (result.error) throw new Error(result.error);
+        job = result.job;
+        jobId = job.id;
+        setBackfillJob(job);
+        // Another invocation holds the job; wait for it rather than asking again straight away
+        if (job.status === 'running') {
+          await new Promise(resolve => setTimeout(resolve, RUNNING_JOB_RETRY_MS));
+        }
+      } while (job.status === 'pending' || job.status === 'running');
+
+      if (job.status === 'failed') {
+        throw new Error(job.error_message || 'Backfill failed');
+      }
+
+      toast({
+        title: "Historical Data Loaded",
+        description: `${job.readings_count.toLocaleString()} readings stored`,
+      });
+      onFinished?.();
+    } catch (error: unknown) {
+      console.error('Error in historical data load:', error);
+      if (errorStatus(error) === 401) {
+        onSessionRejected();
+      }
+      toast({
+        title: "Error",
+        description: errorStatus(error) === 403
+          ? errorMessage(error, "You do not have permission to load historical data")
+          : "Historical data load stopped. You can resume it from where it left off.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBackfilling(false);
+    }
+  };
+
+  const canResume = backfillJob && backfillJob.status !== 'completed';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Historical Data Load</CardTitle>
+        <CardDescription>
+          {!backfillJob
+            ? `Load the last ${BACKFILL_YEARS} years of readings from Stevens`
+            : isBackfilling
+              ? `Loading data up to ${new Date(backfillJob.next_chunk_start).toLocaleDateString()}...`
+              : backfillJob.status === 'failed'
+                ? `Stopped: ${backfillJob.error_message || 'unknown error'}`
+                : backfillJob.status === 'completed'
+                  ? 'Last load completed'
+                  : 'Paused before completion'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {backfillJob && (
+          <Progress
+            value={backfillJob.chunks_total > 0 ? (backfillJob.chunks_completed / backfillJob.chunks_total) * 100 : 0}
+          />
+        )}
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            {backfillJob
+              ? `${backfillJob.chunks_completed} of ${backfillJob.chunks_total} chunks • ${backfillJob.readings_count.toLocaleString()} readings stored`
+              : 'No historical load has been run yet'}
+          </p>
+          <Button
+            onClick={() => onRunSignedIn("Sign in as a data manager to load historical data from Stevens.", runBackfill)}
+            disabled={isBackfilling}
+            variant="outline"
+            size="sm"
+          >
+            {isBackfilling && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            {canResume ? 'Resume' : `Load ${BACKFILL_YEARS} Years`}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,292 @@
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronRight, Loader2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format, subDays } from "date-fns";
+import { formatEATShort } from "@/lib/timezoneConfig";
+import { DataGap, formatGapDuration, toDataGap } from "@/lib/dataGaps";
+import { errorMessage, errorStatus, toEdgeFunctionError } from "@/lib/edgeFunctions";
+
+interface ChannelReport {
+  id: string;
+  stationName: string;
+  label: string;
+  expectedIntervalMinutes: number | null;
+  completeness: number | null;
+  receivedReadings: number;
+  expectedReadings: number | null;
+  gapCount: number;
+  gapMinutes: number;
+  longestGapMinutes: number | null;
+}
+
+interface DataGapsPanelProps {
+  // Runs `run` once a staff member is signed in, asking them to sign in first if needed
+  onRunSignedIn: (description: string, run: () => void) => void;
+  onSessionRejected: () => void;
+}
+
+// Default report period
+const REPORT_DAYS = 30;
+
+export const DataGapsPanel = ({ onRunSignedIn, onSessionRejected }: DataGapsPanelProps) => {
+  const [from, setFrom] = useState(format(subDays(new Date(), REPORT_DAYS), "yyyy-MM-dd"));
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [reports, setReports] = useState<ChannelReport[]>([]);
+  const [intervalDrafts, setIntervalDrafts] = useState<Record<string, string>>({});
+  const [expandedChannelId, setExpandedChannelId] = useState<string | null>(null);
+  const [channelGaps, setChannelGaps] = useState<DataGap[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [savingChannelId, setSavingChannelId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // Whole days in local time; empty while a date input is cleared
+  const periodStart = from ? new Date(`${from}T00:00:00`).toISOString() : '';
+  const periodEnd = to ? new Date(`${to}T23:59:59.999`).toISOString() : '';
+
+  const fetchReport = useCallback(async () => {
+    if (!periodStart || !periodEnd) return;
+    setLoading(true);
+    try {
+      const { data: channels, error: channelsError } = await supabase
+        .from('sensor_channels')
+        .select('id, sensor_name, channel_name, expected_interval_minutes, sensor_stations(station_name)')
+        .eq('is_active', true)
+        .is('removed_at', null)
+        .order('sensor_name')
+        .order('channel_name');
+
+      if (channelsError) throw channelsError;
+
+      const { data: completeness, error: completenessError } = await supabase.rpc('get_channel_completeness', {
+        p_channel_ids: (channels || []).map(c => c.id),
+        p_from: periodStart,
+        p_to: periodEnd,
+      });
+
+      if (completenessError) throw completenessError;
+
+      const byChannel = new Map((completeness || []).map(row => [row.channel_id, row]));
+      const channelReports = (channels || []).map(channel => {
+        const row = byChannel.get(channel.id);
+        return {
+          id: channel.id,
+          stationName: channel.sensor_stations?.station_name || '—',
+          label: `${channel.sensor_name ? `${channel.sensor_name} - ` : ''}${channel.channel_name}`,
+          expectedIntervalMinutes: channel.expected_interval_minutes,
+          completeness: row?.completeness_percent ?? null,
+          receivedReadings: row?.received_readings ?? 0,
+          expectedReadings: row?.expected_readings ?? null,
+          gapCount: row?.gap_count ?? 0,
+          gapMinutes: row?.gap_minutes ?? 0,
+          longestGapMinutes: row?.longest_gap_minutes ?? null,
+        };
+      });
+
+      // Least complete channels first; channels without a known interval last
+      channelReports.sort((a, b) => (a.completeness ?? 101) - (b.completeness ?? 101));
+      setReports(channelReports);
+      setIntervalDrafts(Object.fromEntries(channelReports.map(r => [r.id, r.expectedIntervalMinutes?.toString() ?? ''])));
+    } catch (error) {
+      console.error('Error fetching data gap report:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the data gap report",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [periodStart, periodEnd, toast]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const toggleChannel = async (channelId: string) => {
+    if (expandedChannelId === channelId) {
+      setExpandedChannelId(null);
+      return;
+    }
+    setExpandedChannelId(channelId);
+    setChannelGaps([]);
+
+    const { data, error } = await supabase
+      .from('channel_data_gaps')
+      .select('gap_start, gap_end, duration_minutes')
+      .eq('channel_id', channelId)
+      .lt('gap_start', periodEnd)
+      .gt('gap_end', periodStart)
+      .order('gap_start', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching channel gaps:', error);
+      toast({ title: "Error", description: "Failed to load gaps", variant: "destructive" });
+      return;
+    }
+    setChannelGaps((data || []).map(toDataGap));
+  };
+
+  const saveInterval = async (channelId: string) => {
+    setSavingChannelId(channelId);
+    try {
+      const { data: result, error } = await supabase.functions.invoke('manage-calibration-offsets', {
+        body: {
+          action: 'set_expected_interval',
+          data: { channel_id: channelId, expected_interval_minutes: Number(intervalDrafts[channelId]) },
+        },
+      });
+
+      if (error) throw await toEdgeFunctionError(error);
+      if (!result?.success) throw new Error(result?.error || 'Failed to save interval');
+
+      toast({ title: "Interval Saved", description: "Gaps have been re-detected for the channel" });
+      setExpandedChannelId(null);
+      await fetchReport();
+    } catch (error: unknown) {
+      console.error('Error saving expected interval:', error);
+      if (errorStatus(error) === 401) {
+        onSessionRejected();
+      }
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to save interval"),
+        variant: "destructive",
+      });
+    } finally {
+      setSavingChannelId(null);
+    }
+  };
+
+  const handleSaveInterval = (channelId: string) => {
+    const minutes = Number(intervalDrafts[channelId]);
+    if (!Number.isInteger(minutes) || minutes <= 0) {
+      toast({ title: "Invalid interval", description: "Enter a whole number of minutes", variant: "destructive" });
+      return;
+    }
+    onRunSignedIn(
+      "Sign in as a data manager to change the channel's logging interval.",
+      () => saveInterval(channelId)
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Data Gaps</CardTitle>
+        <CardDescription>
+          Readings received against each channel's expected logging interval. A gap is a stretch of more than
+          one and a half intervals between stored readings; intervals are estimated from the readings until set here.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="gaps-from">From</Label>
+            <Input id="gaps-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="gaps-to">To</Label>
+            <Input id="gaps-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          {loading && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mb-2" />}
+        </div>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Station</TableHead>
+                <TableHead>Channel</TableHead>
+                <TableHead>Interval (min)</TableHead>
+                <TableHead className="w-48">Completeness</TableHead>
+                <TableHead className="text-right">Gaps</TableHead>
+                <TableHead className="text-right">Missing time</TableHead>
+                <TableHead className="text-right">Longest gap</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reports.map(report => (
+                <Fragment key={report.id}>
+                  <TableRow>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={report.gapCount === 0}
+                        onClick={() => toggleChannel(report.id)}
+                      >
+                        {expandedChannelId === report.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </Button>
+                    </TableCell>
+                    <TableCell>{report.stationName}</TableCell>
+                    <TableCell>{report.label}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="number"
+                          min={1}
+                          step={1}
+                          className="w-20"
+                          value={intervalDrafts[report.id] ?? ''}
+                          onChange={(e) => setIntervalDrafts(current => ({ ...current, [report.id]: e.target.value }))}
+                        />
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={savingChannelId !== null || intervalDrafts[report.id] === (report.expectedIntervalMinutes?.toString() ?? '')}
+                          onClick={() => handleSaveInterval(report.id)}
+                        >
+                          {savingChannelId === report.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                        </Button>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {report.completeness !== null ? (
+                        <div className="space-y-1">
+                          <Progress value={report.completeness} />
+                          <div className="text-xs text-muted-foreground">
+                            {report.completeness}% • {report.receivedReadings.toLocaleString()} of {report.expectedReadings?.toLocaleString()}
+                          </div>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">Interval unknown</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{report.gapCount}</TableCell>
+                    <TableCell className="text-right">{report.gapMinutes > 0 ? formatGapDuration(report.gapMinutes) : '—'}</TableCell>
+                    <TableCell className="text-right">
+                      {report.longestGapMinutes !== null ? formatGapDuration(report.longestGapMinutes) : '—'}
+                    </TableCell>
+                  </TableRow>
+                  {expandedChannelId === report.id && (
+                    <TableRow>
+                      <TableCell />
+                      <TableCell colSpan={7}>
+                        <div className="space-y-1 text-sm">
+                          {channelGaps.map(gap => (
+                            <p key={gap.start}>
+                              {formatEATShort(gap.start)} → {formatEATShort(gap.end)}
+                              <span className="text-muted-foreground"> ({formatGapDuration(gap.durationMinutes)})</span>
+                            </p>
+                          ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,149 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DATE_FORMATS, getUnitOptions, ImportSettings, ParsedFile, UploadChannel } from "@/lib/readingImport";
+
+interface ColumnMappingTableProps {
+  file: ParsedFile;
+  channels: UploadChannel[];
+  settings: ImportSettings;
+  onChange: (settings: ImportSettings) => void;
+}
+
+// Select value for a column that is not imported, or for no separate time column
+const NONE = "__none__";
+
+const sampleValue = (file: ParsedFile, column: number) => {
+  const row = file.rows.find(r => r.cells[column] !== null && r.cells[column] !== undefined && r.cells[column] !== "");
+  const cell = row?.cells[column];
+  if (cell instanceof Date) return cell.toISOString().replace("T", " ").slice(0, 19);
+  return cell === undefined || cell === null ? "—" : String(cell);
+};
+
+export const ColumnMappingTable = ({ file, channels, settings, onChange }: ColumnMappingTableProps) => {
+  const channelsById = new Map(channels.map(c => [c.id, c]));
+
+  const setColumnChannel = (column: number, channelId: string) => {
+    const mappings = settings.mappings.filter(m => m.column !== column);
+    const channel = channelsById.get(channelId);
+    if (channel) {
+      mappings.push({ column, channelId, unit: channel.unit });
+    }
+    onChange({ ...settings, mappings });
+  };
+
+  const setColumnUnit = (column: number, unit: string) =>
+    onChange({
+      ...settings,
+      mappings: settings.mappings.map(m => (m.column === column ? { ...m, unit } : m)),
+    });
+
+  const timestampColumns = new Set([settings.timestampColumn, settings.timeColumn]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>Date / timestamp column</Label>
+          <Select
+            value={String(settings.timestampColumn)}
+            onValueChange={(value) => onChange({ ...settings, timestampColumn: Number(value) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {file.headers.map((header, index) => (
+                <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Separate time column</Label>
+          <Select
+            value={settings.timeColumn === null ? NONE : String(settings.timeColumn)}
+            onValueChange={(value) => onChange({ ...settings, timeColumn: value === NONE ? null : Number(value) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>None (time is in the timestamp)</SelectItem>
+              {file.headers.map((header, index) => (
+                <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Date format</Label>
+          <Select value={settings.dateFormat} onValueChange={(dateFormat) => onChange({ ...settings, dateFormat })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_FORMATS.map(f => (
+                <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Column</TableHead>
+            <TableHead>Sample</TableHead>
+            <TableHead>Channel</TableHead>
+            <TableHead>Unit in file</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {file.headers.map((header, column) => {
+            if (timestampColumns.has(column)) return null;
+            const mapping = settings.mappings.find(m => m.column === column);
+            const channel = mapping ? channelsById.get(mapping.channelId) : undefined;
+
+            return (
+              <TableRow key={column}>
+                <TableCell className="font-medium">{header}</TableCell>
+                <TableCell className="text-muted-foreground">{sampleValue(file, column)}</TableCell>
+                <TableCell>
+                  <Select value={mapping?.channelId || NONE} onValueChange={(value) => setColumnChannel(column, value)}>
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Don't import</SelectItem>
+                      {channels.map(c => (
+                        <SelectItem key={c.id} value={c.id}>
+                          {c.name}{c.unit ? ` (${c.unit})` : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  {mapping && channel?.unit && (
+                    <Select value={mapping.unit} onValueChange={(unit) => setColumnUnit(column, unit)}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {getUnitOptions(channel.unit).map(unit => (
+                          <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatInTimeZone } from "date-fns-tz";
+import { EAST_AFRICAN_TIMEZONE, TIMEZONE_LABEL } from "@/lib/timezoneConfig";
+import { PreviewReading, PreviewStatus } from "@/lib/readingImport";
+
+interface UploadPreviewTableProps {
+  preview: PreviewReading[];
+}
+
+// Rendering every row of a large logger file would lock up the page
+const MAX_PREVIEW_ROWS = 200;
+
+const STATUS_LABELS: Record<PreviewStatus, string> = {
+  ok: "Ready",
+  invalid: "Invalid",
+  duplicate: "Already stored",
+  duplicate_in_file: "Duplicate in file",
+};
+
+const STATUS_VARIANTS: Record<PreviewStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  ok: "default",
+  invalid: "destructive",
+  duplicate: "secondary",
+  duplicate_in_file: "outline",
+};
+
+export const UploadPreviewTable = ({ preview }: UploadPreviewTableProps) => {
+  const [problemsOnly, setProblemsOnly] = useState(false);
+
+  const counts = preview.reduce((acc, r) => {
+    acc[r.status] = (acc[r.status] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<PreviewStatus, number>>);
+
+  const filtered = problemsOnly ? preview.filter(r => r.status !== "ok") : preview;
+  const visible = filtered.slice(0, MAX_PREVIEW_ROWS);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {(Object.keys(STATUS_LABELS) as PreviewStatus[]).map(status => (
+          <Badge key={status} variant={STATUS_VARIANTS[status]}>
+            {STATUS_LABELS[status]}: {(counts[status] || 0).toLocaleString()}
+          </Badge>
+        ))}
+        <div className="flex items-center gap-2 ml-auto">
+          <Switch id="problems-only" checked={problemsOnly} onCheckedChange={setProblemsOnly} />
+          <Label htmlFor="problems-only">Problems only</Label>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Row</TableHead>
+            <TableHead>Time ({TIMEZONE_LABEL})</TableHead>
+            <TableHead>Channel</TableHead>
+            <TableHead>In file</TableHead>
+            <TableHead>Value</TableHead>
+            <TableHead>Status</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {visible.map((reading, index) => (
+            <TableRow key={`${reading.rowNumber}-${reading.channelId}-${index}`}>
+              <TableCell>{reading.rowNumber}</TableCell>
+              <TableCell>
+                {reading.measuredAt
+                  ? formatInTimeZone(reading.measuredAt, EAST_AFRICAN_TIMEZONE, "yyyy-MM-dd HH:mm:ss")
+                  : "—"}
+              </TableCell>
+              <TableCell>{reading.channelName}</TableCell>
+              <TableCell className="text-muted-foreground">{String(reading.rawValue)}</TableCell>
+              <TableCell>{reading.value !== null ? `${reading.value.toFixed(2)} ${reading.unit}` : "—"}</TableCell>
+              <TableCell>
+                <div className="flex flex-col gap-1">
+                  <Badge variant={STATUS_VARIANTS[reading.status]} className="w-fit">
+                    {STATUS_LABELS[reading.status]}
+                  </Badge>
+                  {reading.reason && <span className="text-xs text-muted-foreground">{reading.reason}</span>}
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {filtered.length > MAX_PREVIEW_ROWS && (
+        <p className="text-sm text-muted-foreground text-center">
+          Showing the first {MAX_PREVIEW_ROWS} of {filtered.length.toLocaleString()} readings
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+// Mirrors the app_role enum; each role can do everything the roles before it can
+export type AppRole = "viewer" | "technician" | "data_manager";
+
+const ROLE_RANK: Record<AppRole, number> = { viewer: 1, technician: 2, data_manager: 3 };
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  viewer: "Viewer",
+  technician: "Technician",
+  data_manager: "Data manager",
+};
+
+export interface StaffMember {
+  id: string;
+  name: string;
+  email: string | null;
+  roles: AppRole[];
+}
+
+export const hasRole = (member: StaffMember | null, role: AppRole) =>
+  !!member && member.roles.some(held => ROLE_RANK[held] >= ROLE_RANK[role]);
+
+// The signed-in Supabase Auth user with their profile name and roles. The edge functions check the
+// same roles against the session's JWT, which supabase.functions.invoke sends with every call.
+export const useStaffSession = () => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [member, setMember] = useState<StaffMember | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+    });
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      if (!data.session) setIsLoading(false);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const userId = session?.user.id ?? null;
+  const email = session?.user.email ?? null;
+
+  useEffect(() => {
+    if (!userId) {
+      setMember(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadMember = async () => {
+      setIsLoading(true);
+      const [{ data: roles, error: rolesError }, { data: profile }] = await Promise.all([
+        supabase.from("user_roles").select("role").eq("user_id", userId),
+        supabase.from("profiles").select("display_name").eq("id", userId).maybeSingle(),
+      ]);
+      if (rolesError) {
+        console.error("Error loading roles:", rolesError);
+      }
+      if (!cancelled) {
+        setMember({
+          id: userId,
+          name: profile?.display_name || email || userId,
+          email,
+          roles: (roles || []).map(row => row.role),
+        });
+        setIsLoading(false);
+      }
+    };
+
+    loadMember();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, email]);
+
+  const signIn = useCallback(async (signInEmail: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email: signInEmail, password });
+    if (error) throw error;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await supabase.auth.signOut();
+  }, []);
+
+  return { member, isLoading, signIn, signOut };
+};
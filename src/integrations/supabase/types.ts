@@ -14,6 +14,36 @@ export type Database = {
   }
   public: {
     Tables: {
+      admin_audit_log: {
+        Row: {
+          action: string
+          created_at: string
+          details: Json
+          id: string
+          record_id: string | null
+          user_id: string | null
+          user_name: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          details?: Json
+          id?: string
+          record_id?: string | null
+          user_id?: string | null
+          user_name: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          details?: Json
+          id?: string
+          record_id?: string | null
+          user_id?: string | null
+          user_name?: string
+        }
+        Relationships: []
+      }
       ai_analyses: {
         Row: {
           analysis_text: string
@@ -54,36 +84,55 @@ export type Database = {
       }
       api_fetch_log: {
         Row: {
+          channel_counts: Json | null
           created_at: string | null
+          duration_ms: number | null
           error_message: string | null
           fetch_completed_at: string | null
           fetch_started_at: string
           id: string
+          job_id: string | null
           readings_count: number | null
           station_id: string | null
           status: string
+          trigger_source: string
         }
         Insert: {
+          channel_counts?: Json | null
           created_at?: string | null
+          duration_ms?: number | null
           error_message?: string | null
           fetch_completed_at?: string | null
           fetch_started_at: string
           id?: string
+          job_id?: string | null
           readings_count?: number | null
           station_id?: string | null
           status: string
+          trigger_source?: string
         }
         Update: {
+          channel_counts?: Json | null
           created_at?: string | null
+          duration_ms?: number | null
           error_message?: string | null
           fetch_completed_at?: string | null
           fetch_started_at?: string
           id?: string
+          job_id?: string | null
           readings_count?: number | null
           station_id?: string | null
           status?: string
+          trigger_source?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "api_fetch_log_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "ingestion_jobs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "api_fetch_log_station_id_fkey"
             columns: ["station_id"]
@@ -93,31 +142,425 @@ export type Database = {
           },
         ]
       }
+      channel_data_gaps: {
+        Row: {
+          channel_id: string
+          detected_at: string
+          duration_minutes: number | null
+          gap_end: string
+          gap_start: string
+          id: string
+        }
+        Insert: {
+          channel_id: string
+          detected_at?: string
+          duration_minutes?: number | null
+          gap_end: string
+          gap_start: string
+          id?: string
+        }
+        Update: {
+          channel_id?: string
+          detected_at?: string
+          duration_minutes?: number | null
+          gap_end?: string
+          gap_start?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "channel_data_gaps_channel_id_fkey"
+            columns: ["channel_id"]
+            isOneToOne: false
+            referencedRelation: "sensor_channels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      channel_ingest_rules: {
+        Row: {
+          channel_name: string | null
+          created_at: string
+          id: string
+          ingest: boolean
+          sensor_name: string
+          station_id: string
+          updated_at: string
+          visibility: string
+        }
+        Insert: {
+          channel_name?: string | null
+          created_at?: string
+          id?: string
+          ingest?: boolean
+          sensor_name: string
+          station_id: string
+          updated_at?: string
+          visibility?: string
+        }
+        Update: {
+          channel_name?: string | null
+          created_at?: string
+          id?: string
+          ingest?: boolean
+          sensor_name?: string
+          station_id?: string
+          updated_at?: string
+          visibility?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "channel_ingest_rules_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "sensor_stations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      channel_qc_rules: {
+        Row: {
+          channel_id: string
+          created_at: string
+          flatline_minutes: number | null
+          flatline_tolerance: number
+          id: string
+          max_neighbor_difference: number | null
+          max_rate_of_change: number | null
+          max_value: number | null
+          min_value: number | null
+          neighbor_channel_id: string | null
+          spike_mad_threshold: number | null
+          spike_window_minutes: number | null
+          updated_at: string
+        }
+        Insert: {
+          channel_id: string
+          created_at?: string
+          flatline_minutes?: number | null
+          flatline_tolerance?: number
+          id?: string
+          max_neighbor_difference?: number | null
+          max_rate_of_change?: number | null
+          max_value?: number | null
+          min_value?: number | null
+          neighbor_channel_id?: string | null
+          spike_mad_threshold?: number | null
+          spike_window_minutes?: number | null
+          updated_at?: string
+        }
+        Update: {
+          channel_id?: string
+          created_at?: string
+          flatline_minutes?: number | null
+          flatline_tolerance?: number
+          id?: string
+          max_neighbor_difference?: number | null
+          max_rate_of_change?: number | null
+          max_value?: number | null
+          min_value?: number | null
+          neighbor_channel_id?: string | null
+          spike_mad_threshold?: number | null
+          spike_window_minutes?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "channel_qc_rules_channel_id_fkey"
+            columns: ["channel_id"]
+            isOneToOne: true
+            referencedRelation: "sensor_channels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "channel_qc_rules_neighbor_channel_id_fkey"
+            columns: ["neighbor_channel_id"]
+            isOneToOne: false
+            referencedRelation: "sensor_channels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ingestion_jobs: {
+        Row: {
+          chunk_days: number
+          chunks_completed: number
+          chunks_total: number
+          completed_at: string | null
+          created_at: string
+          error_message: string | null
+          id: string
+          job_type: string
+          next_chunk_start: string
+          range_end: string
+          range_start: string
+          readings_count: number
+          station_ids: string[] | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          chunk_days?: number
+          chunks_completed?: number
+          chunks_total?: number
+          completed_at?: string | null
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          job_type?: string
+          next_chunk_start: string
+          range_end: string
+          range_start: string
+          readings_count?: number
+          station_ids?: string[] | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          chunk_days?: number
+          chunks_completed?: number
+          chunks_total?: number
+          completed_at?: string | null
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          job_type?: string
+          next_chunk_start?: string
+          range_end?: string
+          range_start?: string
+          readings_count?: number
+          station_ids?: string[] | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          display_name: string
+          email: string | null
+          id: string
+        }
+        Insert: {
+          created_at?: string
+          display_name: string
+          email?: string | null
+          id: string
+        }
+        Update: {
+          created_at?: string
+          display_name?: string
+          email?: string | null
+          id?: string
+        }
+        Relationships: []
+      }
+      raw_payloads: {
+        Row: {
+          channel_ids: string[] | null
+          compressed_bytes: number
+          content_hash: string
+          created_at: string
+          fetch_log_id: string
+          id: string
+          payload_type: string
+          project_id: number | null
+          range_end: string | null
+          range_start: string | null
+          size_bytes: number
+          storage_path: string
+        }
+        Insert: {
+          channel_ids?: string[] | null
+          compressed_bytes: number
+          content_hash: string
+          created_at?: string
+          fetch_log_id: string
+          id?: string
+          payload_type: string
+          project_id?: number | null
+          range_end?: string | null
+          range_start?: string | null
+          size_bytes: number
+          storage_path: string
+        }
+        Update: {
+          channel_ids?: string[] | null
+          compressed_bytes?: number
+          content_hash?: string
+          created_at?: string
+          fetch_log_id?: string
+          id?: string
+          payload_type?: string
+          project_id?: number | null
+          range_end?: string | null
+          range_start?: string | null
+          size_bytes?: number
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "raw_payloads_fetch_log_id_fkey"
+            columns: ["fetch_log_id"]
+            isOneToOne: false
+            referencedRelation: "api_fetch_log"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reading_uploads: {
+        Row: {
+          created_at: string
+          file_name: string
+          id: string
+          mapping: Json
+          notes: string | null
+          readings_inserted: number
+          readings_skipped: number
+          rows_submitted: number
+          source_kind: string
+          station_id: string
+          uploaded_by: string
+        }
+        Insert: {
+          created_at?: string
+          file_name: string
+          id?: string
+          mapping?: Json
+          notes?: string | null
+          readings_inserted?: number
+          readings_skipped?: number
+          rows_submitted?: number
+          source_kind: string
+          station_id: string
+          uploaded_by: string
+        }
+        Update: {
+          created_at?: string
+          file_name?: string
+          id?: string
+          mapping?: Json
+          notes?: string | null
+          readings_inserted?: number
+          readings_skipped?: number
+          rows_submitted?: number
+          source_kind?: string
+          station_id?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reading_uploads_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "sensor_stations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reference_checks: {
+        Row: {
+          channel_id: string
+          checked_at: string
+          created_at: string
+          created_by: string | null
+          id: string
+          instrument: string
+          notes: string | null
+          operator: string
+          reference_value: number
+          sonde_measured_at: string
+          sonde_value: number
+        }
+        Insert: {
+          channel_id: string
+          checked_at: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          instrument: string
+          notes?: string | null
+          operator: string
+          reference_value: number
+          sonde_measured_at: string
+          sonde_value: number
+        }
+        Update: {
+          channel_id?: string
+          checked_at?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          instrument?: string
+          notes?: string | null
+          operator?: string
+          reference_value?: number
+          sonde_measured_at?: string
+          sonde_value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reference_checks_channel_id_fkey"
+            columns: ["channel_id"]
+            isOneToOne: false
+            referencedRelation: "sensor_channels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sensor_calibration_offsets: {
         Row: {
           channel_id: string
+          coefficients: number[] | null
           created_at: string
+          created_by: string | null
+          drift_end_error: number | null
+          drift_start_error: number | null
+          end_check_id: string | null
+          gain: number | null
           id: string
+          lookup_points: Json | null
+          model_type: string
           offset_value: number
           reason: string
+          start_check_id: string | null
           valid_from: string
           valid_until: string | null
         }
         Insert: {
           channel_id: string
+          coefficients?: number[] | null
           created_at?: string
+          created_by?: string | null
+          drift_end_error?: number | null
+          drift_start_error?: number | null
+          end_check_id?: string | null
+          gain?: number | null
           id?: string
-          offset_value: number
+          lookup_points?: Json | null
+          model_type?: string
+          offset_value?: number
           reason: string
+          start_check_id?: string | null
           valid_from: string
           valid_until?: string | null
         }
         Update: {
           channel_id?: string
+          coefficients?: number[] | null
           created_at?: string
+          created_by?: string | null
+          drift_end_error?: number | null
+          drift_start_error?: number | null
+          end_check_id?: string | null
+          gain?: number | null
           id?: string
+          lookup_points?: Json | null
+          model_type?: string
           offset_value?: number
           reason?: string
+          start_check_id?: string | null
           valid_from?: string
           valid_until?: string | null
         }
@@ -129,6 +572,55 @@ export type Database = {
             referencedRelation: "sensor_channels"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "sensor_calibration_offsets_end_check_id_fkey"
+            columns: ["end_check_id"]
+            isOneToOne: false
+            referencedRelation: "reference_checks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sensor_calibration_offsets_start_check_id_fkey"
+            columns: ["start_check_id"]
+            isOneToOne: false
+            referencedRelation: "reference_checks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sensor_channel_history: {
+        Row: {
+          change_type: string
+          channel_id: string
+          detected_at: string
+          id: string
+          new_value: string | null
+          old_value: string | null
+        }
+        Insert: {
+          change_type: string
+          channel_id: string
+          detected_at?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+        }
+        Update: {
+          change_type?: string
+          channel_id?: string
+          detected_at?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sensor_channel_history_channel_id_fkey"
+            columns: ["channel_id"]
+            isOneToOne: false
+            referencedRelation: "sensor_channels"
+            referencedColumns: ["id"]
+          },
         ]
       }
       sensor_channels: {
@@ -136,40 +628,52 @@ export type Database = {
           category: string | null
           channel_name: string
           created_at: string | null
+          expected_interval_minutes: number | null
+          external_id: string
           id: string
           is_active: boolean | null
           precision: number | null
+          removed_at: string | null
           sensor_name: string | null
+          source_type: string
           station_id: string | null
-          stevens_channel_id: number
           unit: string | null
           updated_at: string | null
+          visibility: string
         }
         Insert: {
           category?: string | null
           channel_name: string
           created_at?: string | null
+          expected_interval_minutes?: number | null
+          external_id: string
           id?: string
           is_active?: boolean | null
           precision?: number | null
+          removed_at?: string | null
           sensor_name?: string | null
+          source_type: string
           station_id?: string | null
-          stevens_channel_id: number
           unit?: string | null
           updated_at?: string | null
+          visibility?: string
         }
         Update: {
           category?: string | null
           channel_name?: string
           created_at?: string | null
+          expected_interval_minutes?: number | null
+          external_id?: string
           id?: string
           is_active?: boolean | null
           precision?: number | null
+          removed_at?: string | null
           sensor_name?: string | null
+          source_type?: string
           station_id?: string | null
-          stevens_channel_id?: number
           unit?: string | null
           updated_at?: string | null
+          visibility?: string
         }
         Relationships: [
           {
@@ -185,22 +689,40 @@ export type Database = {
         Row: {
           channel_id: string | null
           created_at: string | null
+          excluded_at: string | null
+          excluded_by: string | null
+          excluded_reason: string | null
           id: string
           measured_at: string
+          quality_flag: string
+          source: string
+          upload_id: string | null
           value: number
         }
         Insert: {
           channel_id?: string | null
           created_at?: string | null
+          excluded_at?: string | null
+          excluded_by?: string | null
+          excluded_reason?: string | null
           id?: string
           measured_at: string
+          quality_flag?: string
+          source?: string
+          upload_id?: string | null
           value: number
         }
         Update: {
           channel_id?: string | null
           created_at?: string | null
+          excluded_at?: string | null
+          excluded_by?: string | null
+          excluded_reason?: string | null
           id?: string
           measured_at?: string
+          quality_flag?: string
+          source?: string
+          upload_id?: string | null
           value?: number
         }
         Relationships: [
@@ -211,50 +733,140 @@ export type Database = {
             referencedRelation: "sensor_channels"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "sensor_readings_upload_id_fkey"
+            columns: ["upload_id"]
+            isOneToOne: false
+            referencedRelation: "reading_uploads"
+            referencedColumns: ["id"]
+          },
         ]
       }
       sensor_stations: {
         Row: {
           created_at: string | null
+          external_id: string
           id: string
           location: string | null
           project_id: number | null
+          source_type: string
           station_code: string | null
           station_name: string
-          stevens_station_id: number
           updated_at: string | null
         }
         Insert: {
           created_at?: string | null
+          external_id: string
           id?: string
           location?: string | null
           project_id?: number | null
+          source_type: string
           station_code?: string | null
           station_name: string
-          stevens_station_id: number
           updated_at?: string | null
         }
         Update: {
           created_at?: string | null
+          external_id?: string
           id?: string
           location?: string | null
           project_id?: number | null
+          source_type?: string
           station_code?: string | null
           station_name?: string
-          stevens_station_id?: number
           updated_at?: string | null
         }
         Relationships: []
       }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      get_dashboard_data: { Args: { p_language?: string }; Returns: Json }
+      estimate_expected_interval: {
+        Args: { p_channel_id: string }
+        Returns: number
+      }
+      get_channel_completeness: {
+        Args: { p_channel_ids: string[]; p_from: string; p_to: string }
+        Returns: {
+          channel_id: string
+          completeness_percent: number
+          expected_interval_minutes: number
+          expected_readings: number
+          gap_count: number
+          gap_minutes: number
+          longest_gap_minutes: number
+          received_readings: number
+        }[]
+      }
+      get_channel_freshness: {
+        Args: never
+        Returns: {
+          channel_id: string
+          channel_name: string
+          is_active: boolean
+          latest_measured_at: string
+          sensor_name: string
+          station_id: string
+          station_name: string
+          unit: string
+        }[]
+      }
+      get_dashboard_data: {
+        Args: {
+          p_external_id?: string
+          p_language?: string
+          p_source_type?: string
+        }
+        Returns: Json
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      refresh_channel_gaps: {
+        Args: { p_channel_id: string; p_from: string; p_to: string }
+        Returns: undefined
+      }
+      seed_channel_qc_rule: {
+        Args: { p_channel_id: string }
+        Returns: undefined
+      }
+      set_user_role: {
+        Args: {
+          p_role: Database["public"]["Enums"]["app_role"] | null
+          p_user_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "viewer" | "technician" | "data_manager"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -381,6 +993,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["viewer", "technician", "data_manager"],
+    },
   },
 } as const
@@ -0,0 +1,40 @@
+// The web app evaluates calibrations with the edge functions' own module so corrections always match
+import { CalibrationModel, CalibrationWindow, evaluateCalibration, isWithinWindow } from "../../supabase/functions/_shared/calibration.ts";
+export * from "../../supabase/functions/_shared/calibration.ts";
+
+// A calibration being filled in, before it has been saved
+export type ProposedCalibration = CalibrationModel & CalibrationWindow;
+
+export interface ValueSummary {
+  mean: number;
+  min: number;
+  max: number;
+}
+
+export interface CalibrationPreview {
+  count: number;
+  raw: ValueSummary | null;
+  corrected: ValueSummary | null;
+}
+
+const summarize = (values: number[]): ValueSummary | null =>
+  values.length === 0
+    ? null
+    : {
+        mean: values.reduce((sum, value) => sum + value, 0) / values.length,
+        min: Math.min(...values),
+        max: Math.max(...values),
+      };
+
+// The loaded readings inside a proposed calibration's window, before and after it is applied
+export const previewCalibration = (
+  readings: { measured_at: string; value: number }[],
+  proposal: ProposedCalibration
+): CalibrationPreview => {
+  const covered = readings.filter(reading => isWithinWindow(proposal, reading.measured_at));
+  return {
+    count: covered.length,
+    raw: summarize(covered.map(reading => reading.value)),
+    corrected: summarize(covered.map(reading => evaluateCalibration(proposal, reading.value, reading.measured_at))),
+  };
+};
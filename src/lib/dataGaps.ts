@@ -0,0 +1,36 @@
+// A hole in a channel's record, see the channel_data_gaps table; start and end are the readings either side,
+// except for a channel that stopped reporting, whose last gap ends when gaps were last refreshed
+export interface DataGap {
+  start: string;
+  end: string;
+  durationMinutes: number;
+}
+
+export const toDataGap = (row: { gap_start: string; gap_end: string; duration_minutes: number | null }): DataGap => ({
+  start: row.gap_start,
+  end: row.gap_end,
+  durationMinutes: Number(row.duration_minutes),
+});
+
+// Add a valueless point in the middle of each gap so chart lines break there instead of joining across it.
+// Breaks outside the plotted points are left out so they do not stretch the time axis.
+export const withGapBreaks = <T extends { timestamp: number }>(
+  points: T[],
+  gaps: DataGap[]
+): (T | { timestamp: number; value: null })[] => {
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  if (sorted.length === 0) return sorted;
+
+  const first = sorted[0].timestamp;
+  const last = sorted[sorted.length - 1].timestamp;
+  const breaks = gaps
+    .map(gap => ({ timestamp: (new Date(gap.start).getTime() + new Date(gap.end).getTime()) / 2, value: null }))
+    .filter(point => point.timestamp > first && point.timestamp < last);
+  return [...sorted, ...breaks].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const formatGapDuration = (minutes: number) => {
+  if (minutes < 60) return `${Math.round(minutes)} min`;
+  if (minutes < 48 * 60) return `${(minutes / 60).toFixed(1)} h`;
+  return `${(minutes / 60 / 24).toFixed(1)} days`;
+};
@@ -0,0 +1,172 @@
+import { DataGap } from "@/lib/dataGaps";
+
+// Instrument housekeeping channels, recognised by name since they are stored like any other channel
+export type DiagnosticKind = "battery" | "wiper" | "cable_power";
+
+export interface DiagnosticReading {
+  timestamp: number;
+  value: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const identifyDiagnosticChannel = (sensorName: string | null, channelName: string): DiagnosticKind | null => {
+  const label = `${sensorName || ""} ${channelName}`.replace(/_/g, " ");
+  if (/battery/i.test(label)) return "battery";
+  if (/wiper/i.test(label)) return "wiper";
+  if (/cable\s*power/i.test(label)) return "cable_power";
+  return null;
+};
+
+export interface BatteryProjection {
+  // Lowest reading of each day, the night-time low of a solar-charged battery
+  dailyMinimums: DiagnosticReading[];
+  voltsPerDay: number | null;
+  // When the daily minimum is projected to reach the threshold; null when it is not falling
+  projectedLowAt: number | null;
+}
+
+// Fit a straight line through the daily minimum voltages and project it forward to `lowVolts`.
+// Daily minimums leave out the charging cycle, which would otherwise swamp a slow decline.
+export const projectBatteryLow = (readings: DiagnosticReading[], lowVolts: number): BatteryProjection => {
+  const byDay = new Map<number, DiagnosticReading>();
+  readings.forEach(reading => {
+    const day = Math.floor(reading.timestamp / DAY_MS);
+    const current = byDay.get(day);
+    if (!current || reading.value < current.value) byDay.set(day, reading);
+  });
+  const dailyMinimums = Array.from(byDay.values()).sort((a, b) => a.timestamp - b.timestamp);
+  if (dailyMinimums.length < 3) {
+    return { dailyMinimums, voltsPerDay: null, projectedLowAt: null };
+  }
+
+  const n = dailyMinimums.length;
+  const meanX = dailyMinimums.reduce((sum, r) => sum + r.timestamp, 0) / n;
+  const meanY = dailyMinimums.reduce((sum, r) => sum + r.value, 0) / n;
+  const covariance = dailyMinimums.reduce((sum, r) => sum + (r.timestamp - meanX) * (r.value - meanY), 0);
+  const variance = dailyMinimums.reduce((sum, r) => sum + (r.timestamp - meanX) ** 2, 0);
+  const slope = covariance / variance;
+  const voltsPerDay = slope * DAY_MS;
+
+  if (slope >= 0) {
+    return { dailyMinimums, voltsPerDay, projectedLowAt: null };
+  }
+  // Already at or below the threshold projects to now rather than into the past
+  const projectedLowAt = Math.max(meanX + (lowVolts - meanY) / slope, Date.now());
+  return { dailyMinimums, voltsPerDay, projectedLowAt };
+};
+
+export interface WiperRegularity {
+  actuations: number;
+  medianIntervalHours: number | null;
+  // Spread of the intervals relative to their median; high values mean an irregular wiper
+  intervalVariation: number | null;
+  // Time since the position last changed
+  hoursSinceLastActuation: number | null;
+}
+
+// A change of reported position between consecutive readings counts as an actuation
+export const assessWiper = (readings: DiagnosticReading[], tolerance = 0): WiperRegularity => {
+  const actuationTimes: number[] = [];
+  for (let i = 1; i < readings.length; i++) {
+    if (Math.abs(readings[i].value - readings[i - 1].value) > tolerance) {
+      actuationTimes.push(readings[i].timestamp);
+    }
+  }
+
+  const intervals = actuationTimes.slice(1).map((time, i) => (time - actuationTimes[i]) / HOUR_MS);
+  const sorted = [...intervals].sort((a, b) => a - b);
+  const median = sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : null;
+  const meanAbsoluteDeviation = median !== null
+    ? intervals.reduce((sum, interval) => sum + Math.abs(interval - median), 0) / intervals.length
+    : null;
+  const lastReading = readings[readings.length - 1];
+  const lastActuation = actuationTimes[actuationTimes.length - 1];
+
+  return {
+    actuations: actuationTimes.length,
+    medianIntervalHours: median,
+    intervalVariation: median && meanAbsoluteDeviation !== null ? meanAbsoluteDeviation / median : null,
+    hoursSinceLastActuation: lastReading
+      ? ((lastReading.timestamp - (lastActuation ?? readings[0].timestamp)) / HOUR_MS)
+      : null,
+  };
+};
+
+export interface PowerDropout {
+  start: number;
+  end: number;
+  minValue: number;
+}
+
+// Runs of consecutive cable power readings below `minVolts`
+export const findPowerDropouts = (readings: DiagnosticReading[], minVolts: number): PowerDropout[] => {
+  const dropouts: PowerDropout[] = [];
+  let current: PowerDropout | null = null;
+  for (const reading of readings) {
+    if (reading.value < minVolts) {
+      if (current) {
+        current.end = reading.timestamp;
+        current.minValue = Math.min(current.minValue, reading.value);
+      } else {
+        current = { start: reading.timestamp, end: reading.timestamp, minValue: reading.value };
+      }
+    } else if (current) {
+      dropouts.push(current);
+      current = null;
+    }
+  }
+  if (current) dropouts.push(current);
+  return dropouts;
+};
+
+export type GapCause = "power_dropout" | "power_lost" | "unexplained";
+
+export interface StationGap {
+  start: number;
+  end: number;
+  channelCount: number;
+  cause: GapCause;
+}
+
+// Merge the gaps of a station's channels into station-wide outages and line each up against power:
+// next to or overlapping a dropout, or with cable power missing over the same stretch.
+export const lineUpGaps = (
+  channelGaps: DataGap[][],
+  dropouts: PowerDropout[],
+  powerGaps: DataGap[],
+  marginMinutes = 60
+): StationGap[] => {
+  const intervals = channelGaps
+    .flatMap((gaps, channel) => gaps.map(gap => ({
+      channel,
+      start: new Date(gap.start).getTime(),
+      end: new Date(gap.end).getTime(),
+    })))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: { start: number; end: number; channels: Set<number> }[] = [];
+  intervals.forEach(interval => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+      last.channels.add(interval.channel);
+    } else {
+      merged.push({ start: interval.start, end: interval.end, channels: new Set([interval.channel]) });
+    }
+  });
+
+  const margin = marginMinutes * 60 * 1000;
+  const powerIntervals = powerGaps.map(gap => ({ start: new Date(gap.start).getTime(), end: new Date(gap.end).getTime() }));
+  return merged.map(({ start, end, channels }) => {
+    const gap = { start, end, channelCount: channels.size };
+    let cause: GapCause = "unexplained";
+    if (dropouts.some(d => d.start <= gap.end + margin && d.end >= gap.start - margin)) {
+      cause = "power_dropout";
+    } else if (powerIntervals.some(p => p.start <= gap.start + margin && p.end >= gap.end - margin)) {
+      cause = "power_lost";
+    }
+    return { ...gap, cause };
+  });
+};
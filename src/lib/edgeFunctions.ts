@@ -0,0 +1,43 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+// supabase.functions.invoke reports error statuses with a generic message; the function's own
+// message is in the response body. The status is kept so callers can tell an expired session (401)
+// from a missing role (403).
+export interface EdgeFunctionError extends Error {
+  status?: number;
+}
+
+// Response of a manage-calibration-offsets action
+export interface AdminActionResult<T = unknown> {
+  success: boolean;
+  data: T;
+  error?: string;
+}
+
+// Runs a manage-calibration-offsets action as the signed-in staff member
+export type CallAdminAction = <T = unknown>(action: string, data?: object) => Promise<AdminActionResult<T>>;
+
+export const toEdgeFunctionError = async (error: unknown): Promise<EdgeFunctionError> => {
+  if (!(error instanceof FunctionsHttpError)) {
+    return error instanceof Error ? error : new Error("Unknown error");
+  }
+  const response: Response = error.context;
+  const body = await response.json().catch(() => null);
+  const wrapped: EdgeFunctionError = new Error(body?.error || error.message);
+  wrapped.status = response.status;
+  return wrapped;
+};
+
+// Message to show for a caught error, or the fallback when it carries none. Supabase query
+// errors are plain objects with a message rather than Error instances.
+export const errorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof Error) return error.message || fallback;
+  if (typeof error === "object" && error !== null && "message" in error && typeof error.message === "string") {
+    return error.message || fallback;
+  }
+  return fallback;
+};
+
+// HTTP status of a failed edge function call, when the error came from one
+export const errorStatus = (error: unknown) =>
+  error instanceof Error ? (error as EdgeFunctionError).status : undefined;
@@ -0,0 +1,34 @@
+// Quality flag codes stored on each reading, see the sensor_readings.quality_flag column
+export type QualityFlag =
+  | 'good'
+  | 'range'
+  | 'spike'
+  | 'rate_of_change'
+  | 'flatline'
+  | 'neighbor'
+  | 'gap_fill'
+  | 'manual';
+
+export const QUALITY_FLAG_LABELS: Record<QualityFlag, string> = {
+  good: 'Good',
+  range: 'Out of range',
+  spike: 'Spike',
+  rate_of_change: 'Rate of change',
+  flatline: 'Flatline',
+  neighbor: 'Neighbour mismatch',
+  gap_fill: 'Gap fill',
+  manual: 'Flagged manually',
+};
+
+export const QUALITY_FLAG_DESCRIPTIONS: Record<QualityFlag, string> = {
+  good: 'Passed every quality check',
+  range: 'Physically impossible value for this sensor',
+  spike: 'Far from the median of the surrounding readings',
+  rate_of_change: 'Changed faster per hour than the parameter plausibly can',
+  flatline: 'Unchanged for longer than the flatline window, as from a stuck sensor',
+  neighbor: 'Disagrees with the neighbouring channel measuring the same thing',
+  gap_fill: 'Estimated to fill a gap rather than measured',
+  manual: 'Flagged as suspect by an operator',
+};
+
+export const isFlagged = (flag: QualityFlag | string | null | undefined) => !!flag && flag !== 'good';
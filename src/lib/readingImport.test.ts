@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { buildPreview, convertValue, getUnitOptions, ImportSettings, ParsedFile, parseTimestamp, UploadChannel } from "./readingImport";
+
+const temperature: UploadChannel = {
+  id: "temp",
+  name: "Temperature",
+  unit: "°C",
+  qcRule: { min_value: -5, max_value: 45 },
+};
+const conductivity: UploadChannel = { id: "cond", name: "Conductivity", unit: "µS/cm", qcRule: null };
+
+const file = (rows: (string | number | null)[][]): ParsedFile => ({
+  headers: ["Timestamp", "Temperature", "Conductivity"],
+  rows: rows.map((cells, i) => ({ rowNumber: i + 2, cells })),
+});
+
+const settings = (overrides: Partial<ImportSettings> = {}): ImportSettings => ({
+  timestampColumn: 0,
+  timeColumn: null,
+  dateFormat: "yyyy-MM-dd",
+  mappings: [
+    { column: 1, channelId: "temp", unit: "°C" },
+    { column: 2, channelId: "cond", unit: "µS/cm" },
+  ],
+  ...overrides,
+});
+
+describe("parseTimestamp", () => {
+  it("reads times as East African Time", () => {
+    expect(parseTimestamp("2025-01-01 10:30", undefined, "yyyy-MM-dd")?.toISOString()).toBe("2025-01-01T07:30:00.000Z");
+  });
+
+  it("combines a date column with a separate time column", () => {
+    expect(parseTimestamp("15/03/2025", "08:00", "dd/MM/yyyy")?.toISOString()).toBe("2025-03-15T05:00:00.000Z");
+    expect(parseTimestamp("15/03/2025", 0.5, "dd/MM/yyyy")?.toISOString()).toBe("2025-03-15T09:00:00.000Z");
+  });
+
+  it("rejects dates that do not match the format", () => {
+    expect(parseTimestamp("03/15/2025", undefined, "dd/MM/yyyy")).toBeNull();
+    expect(parseTimestamp("yesterday", undefined, "yyyy-MM-dd")).toBeNull();
+  });
+
+  it("rejects impossible times", () => {
+    expect(parseTimestamp("2025-01-01 25:00", undefined, "yyyy-MM-dd")).toBeNull();
+    expect(parseTimestamp("2025-01-01", "noon", "yyyy-MM-dd")).toBeNull();
+  });
+});
+
+describe("convertValue", () => {
+  it("treats different spellings of the same unit as equal", () => {
+    expect(convertValue(250, "uS/cm", "µS/cm")).toBe(250);
+    expect(convertValue(20, "degC", "°C")).toBe(20);
+  });
+
+  it("converts a field meter unit to the channel's unit", () => {
+    expect(convertValue(68, "°F", "°C")).toBeCloseTo(20, 6);
+    expect(convertValue(1.2, "mS/cm", "µS/cm")).toBeCloseTo(1200, 6);
+  });
+
+  it("refuses units it cannot convert", () => {
+    expect(() => convertValue(3, "ft", "°C")).toThrow("No conversion from ft to °C");
+  });
+
+  it("offers only the units that convert to the channel's unit", () => {
+    expect(getUnitOptions("°C")).toEqual(["°C", "°F"]);
+  });
+});
+
+describe("buildPreview", () => {
+  it("reads every mapped cell of a row as a reading", () => {
+    const preview = buildPreview(file([["2025-01-01 10:00", "21.5", 310]]), settings(), [temperature, conductivity]);
+    expect(preview).toMatchObject([
+      { rowNumber: 2, channelId: "temp", value: 21.5, status: "ok" },
+      { rowNumber: 2, channelId: "cond", value: 310, status: "ok" },
+    ]);
+  });
+
+  it("marks every reading of a row with a bad timestamp invalid", () => {
+    const preview = buildPreview(file([["not a date", "21.5", 310]]), settings(), [temperature, conductivity]);
+    expect(preview.map(r => [r.status, r.reason])).toEqual([
+      ["invalid", "Unrecognised timestamp"],
+      ["invalid", "Unrecognised timestamp"],
+    ]);
+  });
+
+  it("marks values that are not numbers invalid and skips empty cells", () => {
+    const preview = buildPreview(file([["2025-01-01 10:00", "n/a", ""]]), settings(), [temperature, conductivity]);
+    expect(preview).toMatchObject([{ channelId: "temp", status: "invalid", reason: "Not a number" }]);
+  });
+
+  it("marks a repeated channel and time as a duplicate of the earlier row", () => {
+    const preview = buildPreview(
+      file([
+        ["2025-01-01 10:00", "21.5", null],
+        ["2025-01-01 10:00:00", "21.7", null],
+        ["2025-01-01 10:15", "21.6", null],
+      ]),
+      settings(),
+      [temperature, conductivity]
+    );
+    expect(preview.map(r => r.status)).toEqual(["ok", "duplicate_in_file", "ok"]);
+  });
+
+  it("converts values before checking them against the channel's range", () => {
+    const preview = buildPreview(
+      file([["2025-01-01 10:00", "68", null], ["2025-01-01 10:15", "120", null]]),
+      settings({ mappings: [{ column: 1, channelId: "temp", unit: "°F" }] }),
+      [temperature]
+    );
+    expect(preview[0]).toMatchObject({ status: "ok" });
+    expect(preview[0].value).toBeCloseTo(20, 6);
+    expect(preview[1]).toMatchObject({ status: "invalid", reason: "Reading 48.89 above valid maximum 45" });
+  });
+
+  it("fails when a column is declared in a unit that does not convert to the channel's", () => {
+    expect(() => buildPreview(
+      file([["2025-01-01 10:00", "3", null]]),
+      settings({ mappings: [{ column: 1, channelId: "temp", unit: "ft" }] }),
+      [temperature]
+    )).toThrow("No conversion from ft to °C");
+  });
+});
@@ -0,0 +1,261 @@
+import Papa from "papaparse";
+import { readSheet } from "read-excel-file/browser";
+import { format, isValid, parse } from "date-fns";
+import { fromZonedTime } from "date-fns-tz";
+import { EAST_AFRICAN_TIMEZONE } from "@/lib/timezoneConfig";
+import { checkValueRange, RangeRule } from "@/lib/sensorValidation";
+
+export type CellValue = string | number | boolean | Date | null;
+
+export interface ParsedRow {
+  // 1-based row number in the original file, so problems can be found in the spreadsheet
+  rowNumber: number;
+  cells: CellValue[];
+}
+
+export interface ParsedFile {
+  headers: string[];
+  rows: ParsedRow[];
+}
+
+export const DATE_FORMATS = [
+  { value: "yyyy-MM-dd", label: "YYYY-MM-DD" },
+  { value: "dd/MM/yyyy", label: "DD/MM/YYYY" },
+  { value: "MM/dd/yyyy", label: "MM/DD/YYYY" },
+];
+
+const readCsvRows = (file: File) =>
+  new Promise<CellValue[][]>((resolve, reject) => {
+    Papa.parse<string[]>(file, {
+      complete: (results) => resolve(results.data),
+      error: (error) => reject(error),
+    });
+  });
+
+const readXlsxRows = async (file: File) =>
+  (await readSheet(file)) as unknown as CellValue[][];
+
+const isEmptyCell = (cell: CellValue | undefined) =>
+  cell === null || cell === undefined || (typeof cell === "string" && cell.trim() === "");
+
+// Read the first sheet of an XLSX file, or a CSV file, into a header row and data rows
+export const parseUploadFile = async (file: File): Promise<ParsedFile> => {
+  const isExcel = /\.xlsx$/i.test(file.name);
+  const rawRows = isExcel ? await readXlsxRows(file) : await readCsvRows(file);
+
+  const rows = rawRows
+    .map((cells, index) => ({ rowNumber: index + 1, cells }))
+    .filter(row => row.cells.some(cell => !isEmptyCell(cell)));
+
+  if (rows.length < 2) {
+    throw new Error("The file needs a header row and at least one row of readings");
+  }
+
+  const [headerRow, ...dataRows] = rows;
+  return {
+    headers: headerRow.cells.map((cell, index) => (isEmptyCell(cell) ? `Column ${index + 1}` : String(cell).trim())),
+    rows: dataRows,
+  };
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+
+const parseTimeText = (text: string): string | null => {
+  const match = TIME_PATTERN.exec(text.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const seconds = Number(match[3] ?? 0);
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+};
+
+// Spreadsheet dates carry no timezone; the reader returns the wall-clock time in the UTC fields
+const wallClockDate = (date: Date) => `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+const wallClockTime = (date: Date) => `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+
+const parseTimeCell = (cell: CellValue): string | null => {
+  if (cell instanceof Date) return wallClockTime(cell);
+  // Excel stores a bare time as a fraction of a day
+  if (typeof cell === "number" && cell >= 0 && cell < 1) {
+    const totalSeconds = Math.round(cell * 24 * 60 * 60);
+    return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor((totalSeconds % 3600) / 60))}:${pad(totalSeconds % 60)}`;
+  }
+  if (typeof cell === "string") return parseTimeText(cell);
+  return null;
+};
+
+// Parse a timestamp recorded in East African Time, optionally split across a date and a time column
+export const parseTimestamp = (
+  dateCell: CellValue,
+  timeCell: CellValue | undefined,
+  dateFormat: string
+): Date | null => {
+  let datePart: string | null = null;
+  let timePart: string | null = null;
+
+  if (dateCell instanceof Date) {
+    datePart = wallClockDate(dateCell);
+    timePart = wallClockTime(dateCell);
+  } else if (typeof dateCell === "string" && dateCell.trim()) {
+    const [dateText, timeText] = dateCell.trim().split(/[T\s]+/, 2);
+    const parsedDate = parse(dateText, dateFormat, new Date(0));
+    datePart = isValid(parsedDate) ? format(parsedDate, "yyyy-MM-dd") : null;
+    timePart = timeText ? parseTimeText(timeText) : "00:00:00";
+  }
+
+  if (timeCell !== undefined) {
+    timePart = parseTimeCell(timeCell);
+  }
+
+  if (!datePart || !timePart) return null;
+
+  const timestamp = fromZonedTime(`${datePart}T${timePart}`, EAST_AFRICAN_TIMEZONE);
+  return isNaN(timestamp.getTime()) ? null : timestamp;
+};
+
+const parseNumericCell = (cell: CellValue): number => {
+  if (typeof cell === "number") return cell;
+  if (typeof cell === "string") return Number(cell.trim());
+  return NaN;
+};
+
+interface UnitConversion {
+  from: string;
+  to: string;
+  convert: (value: number) => number;
+}
+
+// Units field meters commonly report that differ from what the logger channels store
+const UNIT_CONVERSIONS: UnitConversion[] = [
+  { from: "°F", to: "°C", convert: v => (v - 32) * 5 / 9 },
+  { from: "mS/cm", to: "µS/cm", convert: v => v * 1000 },
+  { from: "µS/cm", to: "mS/cm", convert: v => v / 1000 },
+  { from: "ft", to: "m", convert: v => v * 0.3048 },
+  { from: "m", to: "ft", convert: v => v / 0.3048 },
+  { from: "ppm", to: "mg/L", convert: v => v },
+  { from: "mg/L", to: "ppm", convert: v => v },
+];
+
+// Treat "uS/cm", "µS/cm" and "μS/cm", or "°C" and "degC", as the same unit
+const normalizeUnit = (unit: string) =>
+  unit.trim().toLowerCase().replace(/[µμ]/g, "u").replace(/°|deg/g, "").replace(/\s+/g, "");
+
+// Units a column can be declared in for a channel: the channel's own unit plus any that convert to it
+export const getUnitOptions = (channelUnit: string): string[] => [
+  channelUnit,
+  ...UNIT_CONVERSIONS
+    .filter(c => normalizeUnit(c.to) === normalizeUnit(channelUnit))
+    .map(c => c.from),
+];
+
+export const convertValue = (value: number, fromUnit: string, channelUnit: string): number => {
+  if (normalizeUnit(fromUnit) === normalizeUnit(channelUnit)) return value;
+  const conversion = UNIT_CONVERSIONS.find(
+    c => normalizeUnit(c.from) === normalizeUnit(fromUnit) && normalizeUnit(c.to) === normalizeUnit(channelUnit)
+  );
+  if (!conversion) {
+    throw new Error(`No conversion from ${fromUnit} to ${channelUnit}`);
+  }
+  return conversion.convert(value);
+};
+
+export interface UploadChannel {
+  id: string;
+  name: string;
+  unit: string;
+  qcRule: RangeRule | null;
+}
+
+export interface ColumnMapping {
+  column: number;
+  channelId: string;
+  unit: string;
+}
+
+export interface ImportSettings {
+  timestampColumn: number;
+  // Set when the time of day is in its own column
+  timeColumn: number | null;
+  dateFormat: string;
+  mappings: ColumnMapping[];
+}
+
+export type PreviewStatus = "ok" | "invalid" | "duplicate" | "duplicate_in_file";
+
+export interface PreviewReading {
+  rowNumber: number;
+  channelId: string;
+  channelName: string;
+  unit: string;
+  measuredAt: Date | null;
+  rawValue: CellValue;
+  value: number | null;
+  status: PreviewStatus;
+  reason?: string;
+}
+
+// Turn every mapped, non-empty cell into a reading and check it against the channel's QC rule.
+// Duplicates already stored are marked separately once the database has been checked.
+export const buildPreview = (
+  file: ParsedFile,
+  settings: ImportSettings,
+  channels: UploadChannel[]
+): PreviewReading[] => {
+  const channelsById = new Map(channels.map(c => [c.id, c]));
+  const seen = new Set<string>();
+  const preview: PreviewReading[] = [];
+
+  file.rows.forEach(({ rowNumber, cells }) => {
+    const measuredAt = parseTimestamp(
+      cells[settings.timestampColumn] ?? null,
+      settings.timeColumn !== null ? cells[settings.timeColumn] ?? null : undefined,
+      settings.dateFormat
+    );
+
+    settings.mappings.forEach(mapping => {
+      const channel = channelsById.get(mapping.channelId);
+      const rawValue = cells[mapping.column] ?? null;
+      if (!channel || isEmptyCell(rawValue)) return;
+
+      const reading: PreviewReading = {
+        rowNumber,
+        channelId: channel.id,
+        channelName: channel.name,
+        unit: channel.unit,
+        measuredAt,
+        rawValue,
+        value: null,
+        status: "ok",
+      };
+
+      const parsedValue = parseNumericCell(rawValue);
+      if (!measuredAt) {
+        reading.status = "invalid";
+        reading.reason = "Unrecognised timestamp";
+      } else if (!Number.isFinite(parsedValue)) {
+        reading.status = "invalid";
+        reading.reason = "Not a number";
+      } else {
+        reading.value = convertValue(parsedValue, mapping.unit, channel.unit);
+        const rangeProblem = checkValueRange(channel.qcRule, reading.value);
+        const key = `${channel.id}|${measuredAt.getTime()}`;
+        if (rangeProblem) {
+          reading.status = "invalid";
+          reading.reason = rangeProblem;
+        } else if (seen.has(key)) {
+          reading.status = "duplicate_in_file";
+          reading.reason = "Same channel and time as an earlier row";
+        } else {
+          seen.add(key);
+        }
+      }
+
+      preview.push(reading);
+    });
+  });
+
+  return preview;
+};
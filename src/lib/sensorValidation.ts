@@ -0,0 +1,28 @@
+// A channel's row in channel_qc_rules; a null setting disables that check
+export interface QcRule {
+  min_value: number | null;
+  max_value: number | null;
+  max_rate_of_change: number | null;
+  flatline_minutes: number | null;
+  flatline_tolerance: number;
+  spike_mad_threshold: number | null;
+  spike_window_minutes: number | null;
+  neighbor_channel_id: string | null;
+  max_neighbor_difference: number | null;
+}
+
+export type RangeRule = Pick<QcRule, "min_value" | "max_value">;
+
+// Why a single value is out of range for the channel, or null when it is plausible
+export const checkValueRange = (rule: RangeRule | null | undefined, value: number): string | null => {
+  if (!rule) return null;
+
+  if (rule.min_value !== null && value < rule.min_value) {
+    return `Reading ${value.toFixed(2)} below valid minimum ${rule.min_value}`;
+  }
+  if (rule.max_value !== null && value > rule.max_value) {
+    return `Reading ${value.toFixed(2)} above valid maximum ${rule.max_value}`;
+  }
+
+  return null;
+};
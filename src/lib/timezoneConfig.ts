@@ -1,3 +1,13 @@
+import { formatInTimeZone } from 'date-fns-tz';
+
 // Shared timezone configuration for the entire application
 export const EAST_AFRICAN_TIMEZONE = 'Africa/Nairobi'; // EAT (UTC+3)
 export const TIMEZONE_LABEL = 'EAT';
+
+// A time in East African Time with its label, e.g. "Mar 5, 2025 14:30 EAT"
+export const formatEAT = (timestamp: string | number | Date) =>
+  `${formatInTimeZone(new Date(timestamp), EAST_AFRICAN_TIMEZONE, 'MMM d, yyyy HH:mm')} ${TIMEZONE_LABEL}`;
+
+// The same without the year, for recent times such as the last few days of ingestion
+export const formatEATShort = (timestamp: string | number | Date) =>
+  `${formatInTimeZone(new Date(timestamp), EAST_AFRICAN_TIMEZONE, 'MMM d, HH:mm')} ${TIMEZONE_LABEL}`;
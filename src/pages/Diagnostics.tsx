@@ -0,0 +1,483 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Loader2, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ComposedChart, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceArea, ReferenceLine } from "recharts";
+import { formatDistanceToNow } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
+import { EAST_AFRICAN_TIMEZONE, formatEATShort } from "@/lib/timezoneConfig";
+import { DataGap, formatGapDuration, toDataGap } from "@/lib/dataGaps";
+import {
+  assessWiper,
+  DiagnosticKind,
+  DiagnosticReading,
+  findPowerDropouts,
+  GapCause,
+  identifyDiagnosticChannel,
+  lineUpGaps,
+  projectBatteryLow,
+} from "@/lib/diagnostics";
+
+interface StationChannel {
+  id: string;
+  sensor_name: string | null;
+  channel_name: string;
+  unit: string | null;
+  station_id: string | null;
+  sensor_stations: { station_name: string } | null;
+}
+
+// Period the diagnostics look back over
+const DIAGNOSTICS_DAYS = 30;
+// Readings fetched per request; PostgREST caps responses at 1000 rows
+const PAGE_SIZE = 1000;
+// Defaults for a 12 V lead-acid supply
+const DEFAULT_LOW_BATTERY_VOLTS = 11.5;
+const DEFAULT_POWER_DROPOUT_VOLTS = 10;
+// A wiper idle for this many median intervals is reported as stalled
+const WIPER_STALLED_INTERVALS = 3;
+
+const KIND_LABELS: Record<DiagnosticKind, string> = {
+  battery: "Battery",
+  wiper: "Wiper",
+  cable_power: "Cable power",
+};
+
+const GAP_CAUSE_LABELS: Record<GapCause, string> = {
+  power_dropout: "Power dropout",
+  power_lost: "Power lost",
+  unexplained: "Unexplained",
+};
+
+const fetchAllReadings = async (channelId: string, since: string): Promise<DiagnosticReading[]> => {
+  const readings: DiagnosticReading[] = [];
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('sensor_readings')
+      .select('measured_at, value')
+      .eq('channel_id', channelId)
+      .is('excluded_at', null)
+      .gte('measured_at', since)
+      .order('measured_at', { ascending: true })
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    if (error) throw error;
+    readings.push(...(data || []).map(r => ({ timestamp: new Date(r.measured_at).getTime(), value: r.value })));
+    if (!data || data.length < PAGE_SIZE) return readings;
+  }
+};
+
+const Diagnostics = () => {
+  const [channels, setChannels] = useState<StationChannel[]>([]);
+  const [stationId, setStationId] = useState<string | null>(null);
+  const [readings, setReadings] = useState<Partial<Record<DiagnosticKind, DiagnosticReading[]>>>({});
+  const [channelGaps, setChannelGaps] = useState<Record<string, DataGap[]>>({});
+  const [lowBatteryVolts, setLowBatteryVolts] = useState(DEFAULT_LOW_BATTERY_VOLTS.toString());
+  const [dropoutVolts, setDropoutVolts] = useState(DEFAULT_POWER_DROPOUT_VOLTS.toString());
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const fetchChannels = async () => {
+      const { data, error } = await supabase
+        .from('sensor_channels')
+        .select('id, sensor_name, channel_name, unit, station_id, sensor_stations(station_name)')
+        .eq('is_active', true)
+        .is('removed_at', null);
+
+      if (error) {
+        console.error('Error fetching channels:', error);
+        toast({ title: "Error", description: "Failed to load channels", variant: "destructive" });
+        return;
+      }
+      const stationChannels = (data || []) as StationChannel[];
+      setChannels(stationChannels);
+      const firstDiagnostic = stationChannels.find(c => identifyDiagnosticChannel(c.sensor_name, c.channel_name));
+      setStationId(current => current ?? firstDiagnostic?.station_id ?? null);
+    };
+
+    fetchChannels();
+  }, [toast]);
+
+  // Stations reporting at least one diagnostic channel
+  const stations = useMemo(() => {
+    const byId = new Map<string, string>();
+    channels.forEach(channel => {
+      if (channel.station_id && identifyDiagnosticChannel(channel.sensor_name, channel.channel_name)) {
+        byId.set(channel.station_id, channel.sensor_stations?.station_name || channel.station_id);
+      }
+    });
+    return Array.from(byId, ([id, name]) => ({ id, name }));
+  }, [channels]);
+
+  // The first channel of each kind at the selected station
+  const diagnosticChannels = useMemo(() => {
+    const byKind: Partial<Record<DiagnosticKind, StationChannel>> = {};
+    channels
+      .filter(channel => channel.station_id === stationId)
+      .forEach(channel => {
+        const kind = identifyDiagnosticChannel(channel.sensor_name, channel.channel_name);
+        if (kind && !byKind[kind]) byKind[kind] = channel;
+      });
+    return byKind;
+  }, [channels, stationId]);
+
+  const fetchDiagnostics = useCallback(async () => {
+    if (!stationId) return;
+    setLoading(true);
+    try {
+      const since = new Date(Date.now() - DIAGNOSTICS_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      const kinds = Object.keys(diagnosticChannels) as DiagnosticKind[];
+      const stationChannelIds = channels.filter(c => c.station_id === stationId).map(c => c.id);
+
+      const [kindReadings, gapsResult] = await Promise.all([
+        Promise.all(kinds.map(kind => fetchAllReadings(diagnosticChannels[kind]!.id, since))),
+        supabase
+          .from('channel_data_gaps')
+          .select('channel_id, gap_start, gap_end, duration_minutes')
+          .in('channel_id', stationChannelIds)
+          .gt('gap_end', since)
+          .order('gap_start', { ascending: true }),
+      ]);
+
+      if (gapsResult.error) throw gapsResult.error;
+
+      setReadings(Object.fromEntries(kinds.map((kind, i) => [kind, kindReadings[i]])));
+      const gapsByChannel: Record<string, DataGap[]> = {};
+      (gapsResult.data || []).forEach(row => {
+        (gapsByChannel[row.channel_id] ||= []).push(toDataGap(row));
+      });
+      setChannelGaps(gapsByChannel);
+    } catch (error) {
+      console.error('Error fetching diagnostics:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load instrument diagnostics",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [stationId, diagnosticChannels, channels, toast]);
+
+  useEffect(() => {
+    fetchDiagnostics();
+  }, [fetchDiagnostics]);
+
+  const lowVolts = parseFloat(lowBatteryVolts);
+  const minPowerVolts = parseFloat(dropoutVolts);
+
+  const battery = useMemo(() => {
+    const batteryReadings = readings.battery || [];
+    if (batteryReadings.length === 0 || !Number.isFinite(lowVolts)) return null;
+    const projection = projectBatteryLow(batteryReadings, lowVolts);
+    const lastMinimum = projection.dailyMinimums[projection.dailyMinimums.length - 1];
+    // Dashed line from the latest daily low to the projected crossing
+    const projectionLine = projection.projectedLowAt && lastMinimum
+      ? [
+        { timestamp: lastMinimum.timestamp, projected: lastMinimum.value },
+        { timestamp: projection.projectedLowAt, projected: lowVolts },
+      ]
+      : [];
+    return { projection, projectionLine, current: batteryReadings[batteryReadings.length - 1] };
+  }, [readings, lowVolts]);
+
+  const wiper = useMemo(() => {
+    const wiperReadings = readings.wiper || [];
+    if (wiperReadings.length === 0) return null;
+    const regularity = assessWiper(wiperReadings);
+    const stalled = regularity.medianIntervalHours !== null && regularity.hoursSinceLastActuation !== null &&
+      regularity.hoursSinceLastActuation > WIPER_STALLED_INTERVALS * regularity.medianIntervalHours;
+    return { regularity, stalled };
+  }, [readings]);
+
+  const power = useMemo(() => {
+    const powerReadings = readings.cable_power || [];
+    const powerChannelId = diagnosticChannels.cable_power?.id;
+    const dropouts = Number.isFinite(minPowerVolts) ? findPowerDropouts(powerReadings, minPowerVolts) : [];
+    // Every channel except cable power itself, whose own gaps are the power record
+    const dataGaps = Object.entries(channelGaps)
+      .filter(([channelId]) => channelId !== powerChannelId)
+      .map(([, gaps]) => gaps);
+    const powerGaps = powerChannelId ? channelGaps[powerChannelId] || [] : [];
+    return { dropouts, stationGaps: lineUpGaps(dataGaps, dropouts, powerGaps) };
+  }, [readings, channelGaps, diagnosticChannels, minPowerVolts]);
+
+  const unitOf = (kind: DiagnosticKind) => diagnosticChannels[kind]?.unit || '';
+
+  const timeAxis = (
+    <XAxis
+      dataKey="timestamp"
+      type="number"
+      scale="time"
+      domain={['dataMin', 'dataMax']}
+      tick={{ fontSize: 12 }}
+      tickFormatter={(timestamp) => formatInTimeZone(new Date(timestamp), EAST_AFRICAN_TIMEZONE, 'MMM d')}
+    />
+  );
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <header>
+          <h1 className="text-4xl font-bold mb-4">Instrument Diagnostics</h1>
+          <div className="flex flex-wrap gap-2 items-center">
+            <Button asChild variant="outline" size="sm">
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Dashboard
+              </Link>
+            </Button>
+            <Button onClick={fetchDiagnostics} disabled={loading || !stationId} variant="outline" size="sm">
+              {loading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              Refresh
+            </Button>
+            <Select value={stationId ?? undefined} onValueChange={setStationId}>
+              <SelectTrigger className="w-[260px] h-9">
+                <SelectValue placeholder="Select a station" />
+              </SelectTrigger>
+              <SelectContent>
+                {stations.map(station => (
+                  <SelectItem key={station.id} value={station.id}>{station.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-sm text-muted-foreground ml-auto">
+              Battery, wiper and cable power over the last {DIAGNOSTICS_DAYS} days
+            </span>
+          </div>
+        </header>
+
+        {stations.length === 0 && (
+          <p className="text-muted-foreground">No station reports battery, wiper or cable power channels.</p>
+        )}
+
+        {diagnosticChannels.battery && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{KIND_LABELS.battery}</CardTitle>
+              <CardDescription>
+                Trend of the daily minimum voltage, projected forward to the low-voltage threshold
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-end gap-6">
+                <div className="space-y-2">
+                  <Label htmlFor="low-battery-volts">Low voltage ({unitOf('battery')})</Label>
+                  <Input
+                    id="low-battery-volts"
+                    type="number"
+                    step="0.1"
+                    className="w-28"
+                    value={lowBatteryVolts}
+                    onChange={(e) => setLowBatteryVolts(e.target.value)}
+                  />
+                </div>
+                {battery && (
+                  <div className="flex flex-wrap gap-6 text-sm">
+                    <div>
+                      <div className="text-2xl font-bold text-primary">{battery.current.value.toFixed(2)} {unitOf('battery')}</div>
+                      <div className="text-muted-foreground">Latest, {formatDistanceToNow(new Date(battery.current.timestamp), { addSuffix: true })}</div>
+                    </div>
+                    <div>
+                      <div className="text-2xl font-bold text-primary">
+                        {battery.projection.voltsPerDay !== null
+                          ? `${battery.projection.voltsPerDay > 0 ? '+' : ''}${battery.projection.voltsPerDay.toFixed(3)}`
+                          : '—'}
+                      </div>
+                      <div className="text-muted-foreground">{unitOf('battery')} per day</div>
+                    </div>
+                    <div>
+                      <div className={`text-2xl font-bold ${battery.projection.projectedLowAt ? 'text-destructive' : 'text-primary'}`}>
+                        {battery.projection.projectedLowAt
+                          ? formatDistanceToNow(new Date(battery.projection.projectedLowAt), { addSuffix: true })
+                          : battery.projection.voltsPerDay === null ? 'Too little data' : 'Not falling'}
+                      </div>
+                      <div className="text-muted-foreground">
+                        {battery.projection.projectedLowAt
+                          ? `Projected low voltage, ${formatEATShort(battery.projection.projectedLowAt)}`
+                          : 'Projected low voltage'}
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+              <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart>
+                  <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                  {timeAxis}
+                  <YAxis domain={['auto', 'auto']} tick={{ fontSize: 12 }} label={{ value: unitOf('battery'), angle: -90, position: 'insideLeft' }} />
+                  <Tooltip labelFormatter={(timestamp) => formatEATShort(Number(timestamp))} />
+                  <Legend />
+                  {Number.isFinite(lowVolts) && (
+                    <ReferenceLine y={lowVolts} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+                  )}
+                  <Line data={readings.battery || []} dataKey="value" name="Voltage" stroke="hsl(var(--primary))" dot={false} />
+                  <Scatter data={battery?.projection.dailyMinimums || []} dataKey="value" name="Daily minimum" fill="hsl(var(--foreground))" />
+                  {battery && battery.projectionLine.length > 0 && (
+                    <Line data={battery.projectionLine} dataKey="projected" name="Projection" stroke="hsl(var(--destructive))" strokeDasharray="6 4" dot={false} />
+                  )}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+        )}
+
+        {diagnosticChannels.wiper && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {KIND_LABELS.wiper}
+                {wiper?.stalled && <Badge variant="destructive">Stalled</Badge>}
+              </CardTitle>
+              <CardDescription>
+                A change in reported position between readings counts as an actuation
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {wiper && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                  <div>
+                    <div className="text-2xl font-bold text-primary">{wiper.regularity.actuations}</div>
+                    <div className="text-sm text-muted-foreground">Actuations</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-primary">
+                      {wiper.regularity.medianIntervalHours !== null ? formatGapDuration(wiper.regularity.medianIntervalHours * 60) : '—'}
+                    </div>
+                    <div className="text-sm text-muted-foreground">Typical interval</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-primary">
+                      {wiper.regularity.intervalVariation !== null ? `${Math.round(wiper.regularity.intervalVariation * 100)}%` : '—'}
+                    </div>
+                    <div className="text-sm text-muted-foreground">Interval variation</div>
+                  </div>
+                  <div>
+                    <div className={`text-2xl font-bold ${wiper.stalled ? 'text-destructive' : 'text-primary'}`}>
+                      {wiper.regularity.hoursSinceLastActuation !== null ? formatGapDuration(wiper.regularity.hoursSinceLastActuation * 60) : '—'}
+                    </div>
+                    <div className="text-sm text-muted-foreground">Since last actuation</div>
+                  </div>
+                </div>
+              )}
+              <ResponsiveContainer width="100%" height={200}>
+                <ComposedChart data={readings.wiper || []}>
+                  <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                  {timeAxis}
+                  <YAxis tick={{ fontSize: 12 }} label={{ value: unitOf('wiper'), angle: -90, position: 'insideLeft' }} />
+                  <Tooltip labelFormatter={(timestamp) => formatEATShort(Number(timestamp))} />
+                  <Line type="stepAfter" dataKey="value" name="Position" stroke="hsl(var(--primary))" dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+        )}
+
+        {diagnosticChannels.cable_power && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{KIND_LABELS.cable_power}</CardTitle>
+              <CardDescription>
+                Dropouts (red) lined up against the station's data gaps (grey). A gap is put down to power when it
+                is within an hour of a dropout, or when cable power itself stopped reporting over the same stretch.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="dropout-volts">Dropout below ({unitOf('cable_power')})</Label>
+                <Input
+                  id="dropout-volts"
+                  type="number"
+                  step="0.1"
+                  className="w-28"
+                  value={dropoutVolts}
+                  onChange={(e) => setDropoutVolts(e.target.value)}
+                />
+              </div>
+              <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart data={readings.cable_power || []}>
+                  <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                  {timeAxis}
+                  <YAxis tick={{ fontSize: 12 }} label={{ value: unitOf('cable_power'), angle: -90, position: 'insideLeft' }} />
+                  <Tooltip labelFormatter={(timestamp) => formatEATShort(Number(timestamp))} />
+                  {power.stationGaps.map(gap => (
+                    <ReferenceArea
+                      key={`gap-${gap.start}`}
+                      x1={gap.start}
+                      x2={gap.end}
+                      fill="hsl(var(--muted-foreground))"
+                      fillOpacity={0.15}
+                      ifOverflow="hidden"
+                    />
+                  ))}
+                  {power.dropouts.map(dropout => (
+                    <ReferenceArea
+                      key={`dropout-${dropout.start}`}
+                      x1={dropout.start}
+                      x2={dropout.end}
+                      fill="hsl(var(--destructive))"
+                      fillOpacity={0.25}
+                      ifOverflow="hidden"
+                    />
+                  ))}
+                  {Number.isFinite(minPowerVolts) && (
+                    <ReferenceLine y={minPowerVolts} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+                  )}
+                  <Line dataKey="value" name="Cable power" stroke="hsl(var(--primary))" dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Gap start</TableHead>
+                      <TableHead>Gap end</TableHead>
+                      <TableHead className="text-right">Duration</TableHead>
+                      <TableHead className="text-right">Channels</TableHead>
+                      <TableHead>Cause</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {power.stationGaps.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-muted-foreground">
+                          No data gaps
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      [...power.stationGaps].reverse().map(gap => (
+                        <TableRow key={gap.start}>
+                          <TableCell>{formatEATShort(gap.start)}</TableCell>
+                          <TableCell>{formatEATShort(gap.end)}</TableCell>
+                          <TableCell className="text-right">{formatGapDuration((gap.end - gap.start) / 60000)}</TableCell>
+                          <TableCell className="text-right">{gap.channelCount}</TableCell>
+                          <TableCell>
+                            <Badge variant={gap.cause === 'unexplained' ? 'outline' : 'destructive'}>
+                              {GAP_CAUSE_LABELS[gap.cause]}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Diagnostics;
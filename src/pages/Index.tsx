@@ -1,12 +1,14 @@
 import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Loader2, RefreshCw, Settings } from "lucide-react";
+import { Activity, BatteryMedium, Loader2, RefreshCw, Settings, Upload } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea } from 'recharts';
 import { formatInTimeZone } from 'date-fns-tz';
 import { EAST_AFRICAN_TIMEZONE, TIMEZONE_LABEL } from '@/lib/timezoneConfig';
+import { DataGap, formatGapDuration, withGapBreaks } from '@/lib/dataGaps';
 import {
   Accordion,
   AccordionContent,
@@ -43,6 +45,15 @@ interface Sensor {
   category: string;
   currentValue: number;
   currentTimestamp: string;
+  rawCurrentValue: number;
+  calibration: { offset_value: number; model_type: string; description: string; reason: string } | null;
+  // Verdict of the channel's QC tests and consistency checks over the readings shown
+  health: { isValid: boolean; reason?: string };
+  // Checks against related channels, e.g. specific conductivity recomputed from conductivity and temperature
+  consistency: { check: string; isConsistent: boolean }[];
+  // Percentage of expected readings received over the shown week, null when the logging interval is unknown
+  completeness: number | null;
+  gaps: DataGap[];
   readings: Reading[];
   isMalfunctioning?: boolean;
   malfunctionReason?: string;
@@ -51,26 +62,15 @@ interface Sensor {
 interface DashboardData {
   station: {
     name: string;
-    id: string;
-  };
+    code: string | null;
+    location: string | null;
+  } | null;
   sensors: Sensor[];
   timestamp: string;
-  analysis?: string;
-  message?: string;
-  cached?: boolean;
-  lastUpdated?: string;
+  analysis?: string | null;
   language?: Language;
 }
 
-interface CalibrationOffset {
-  id: string;
-  channel_id: string;
-  offset_value: number;
-  valid_from: string;
-  valid_until: string | null;
-  reason: string;
-}
-
 type Language = 'english' | 'swahili';
 
 const Index = () => {
@@ -83,123 +83,33 @@ const Index = () => {
     return initialLanguage;
   });
   const [dbStats, setDbStats] = useState<{ stations: number; channels: number; readings: number } | null>(null);
-  const [calibrationOffsets, setCalibrationOffsets] = useState<CalibrationOffset[]>([]);
   const [isCalibrationManagerOpen, setIsCalibrationManagerOpen] = useState(false);
   const { toast } = useToast();
 
-  const fetchHistoricalChartData = async () => {
-    try {
-      const sevenDaysAgo = new Date();
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-      
-      console.log('🔍 Fetching historical chart data for past 7 days');
-      console.log('   Date range:', sevenDaysAgo.toISOString(), 'to', new Date().toISOString());
-
-      // First, get all active channels
-      const { data: channels, error: channelsError } = await supabase
-        .from('sensor_channels')
-        .select('id')
-        .eq('is_active', true);
-
-      if (channelsError) {
-        console.error('Error fetching channels:', channelsError);
-        return new Map();
-      }
-
-      if (!channels || channels.length === 0) {
-        console.log('⚠️ No active channels found');
-        return new Map();
-      }
-
-      console.log(`📋 Found ${channels.length} active channels`);
-
-      const readingsByChannel = new Map<string, Reading[]>();
-      
-      // Fetch readings for each channel separately to avoid row limits
-      for (const channel of channels) {
-        const { data: readings, error } = await supabase
-          .from('sensor_readings')
-          .select('measured_at, value')
-          .eq('channel_id', channel.id)
-          .gte('measured_at', sevenDaysAgo.toISOString())
-          .order('measured_at', { ascending: true });
-
-        if (!error && readings && readings.length > 0) {
-          readingsByChannel.set(channel.id, readings.map(r => ({
-            timestamp: r.measured_at,
-            value: r.value
-          })));
-          console.log(`   ✅ Channel ${channel.id}: ${readings.length} readings`);
-        } else if (error) {
-          console.error(`   ❌ Error fetching readings for channel ${channel.id}:`, error);
-        } else {
-          console.log(`   ⚠️ Channel ${channel.id}: No readings found`);
-        }
-      }
-
-      console.log(`📊 Total channels with data: ${readingsByChannel.size}`);
-      return readingsByChannel;
-    } catch (error) {
-      console.error('Error in fetchHistoricalChartData:', error);
-      return new Map();
-    }
-  };
-
-  const fetchData = async (forceRefresh = false, daysBack = 7) => {
+  const fetchData = async (requestedLanguage: Language = language) => {
     setLoading(true);
     try {
-      console.log('🚀 Fetching dashboard data with single optimized query');
-      
-      if (forceRefresh) {
-        // If force refresh requested, call edge function to update database first
-        console.log('🔄 Fetching latest data from Stevens API...');
-        toast({
-          title: "Fetching Latest Data",
-          description: "Getting fresh data from Stevens API...",
-        });
-        await supabase.functions.invoke('fetch-stevens-data', {
-          body: { language, forceRefresh: true, daysBack }
-        });
-      }
+      // Stored data only, with calibration applied server side; ingestion runs on the hourly cron
+      const { data: result, error } = await supabase.functions.invoke('dashboard', {
+        body: { language: requestedLanguage }
+      });
 
-      // Fetch all data with single optimized query
-      const languageMap = {
-        english: 'en',
-        spanish: 'es',
-        portuguese: 'pt'
-      };
-      
-      const { data: dashboardData, error } = await supabase
-        .rpc('get_dashboard_data', { p_language: languageMap[language] }) as { data: any, error: any };
-      
       if (error) throw error;
-      
+      if (result.error) throw new Error(result.error);
+
+      const dashboardData = result.data;
       console.log('✅ Dashboard data fetched:', {
         sensorsCount: dashboardData?.sensors?.length || 0,
         hasAnalysis: !!dashboardData?.analysis,
         timestamp: dashboardData?.timestamp
       });
 
-      // Transform the data to match the expected DashboardData format
       const transformedData: DashboardData = {
-        station: {
-          name: 'Stevens Water Monitoring System',
-          id: 'default'
-        },
-        sensors: (dashboardData?.sensors || []).map((sensor: any) => ({
-          id: sensor.channelId,
-          name: sensor.name,
-          unit: sensor.unit,
-          category: sensor.category,
-          currentValue: sensor.value,
-          currentTimestamp: new Date().toISOString(),
-          readings: (sensor.chartData || []).map((point: any) => ({
-            timestamp: point.date,
-            value: point.value
-          }))
-        })),
-        analysis: dashboardData?.analysis,
-        timestamp: dashboardData?.timestamp
+        station: dashboardData.station,
+        sensors: dashboardData.sensors || [],
+        analysis: dashboardData.analysis,
+        language: dashboardData.language,
+        timestamp: dashboardData.timestamp
       };
 
       setData(transformedData);
@@ -207,10 +117,10 @@ const Index = () => {
       // CRITICAL: Sync language selector with returned data
       if (dashboardData?.language) {
         const returnedLanguage = dashboardData.language;
-        console.log(`📊 Data language: ${returnedLanguage}, UI language: ${language}`);
+        console.log(`📊 Data language: ${returnedLanguage}, UI language: ${requestedLanguage}`);
         
-        if (returnedLanguage !== language) {
-          console.warn(`⚠️ Language mismatch detected! Requested: ${language}, Got: ${returnedLanguage}`);
+        if (returnedLanguage !== requestedLanguage) {
+          console.warn(`⚠️ Language mismatch detected! Requested: ${requestedLanguage}, Got: ${returnedLanguage}`);
           setLanguage(returnedLanguage);
           localStorage.setItem('preferredLanguage', returnedLanguage);
           toast({
@@ -220,10 +130,10 @@ const Index = () => {
         }
       }
       
-      if (transformedData?.message) {
+      if (transformedData.sensors.length === 0) {
         toast({
           title: "No Data Available",
-          description: transformedData.message,
+          description: "No readings have been stored for the past 7 days.",
           variant: "destructive",
         });
       } else {
@@ -244,100 +154,14 @@ const Index = () => {
     }
   };
 
-  const handleInitialDataLoad = async () => {
-    setLoading(true);
-    try {
-      console.log('🚀 Initial load: Using cached data for instant loading');
-      // Just fetch the cached data - the cron job keeps it fresh
-      await fetchData(false, 7); // No force refresh, use cached data
-      fetchDatabaseStats();
-    } catch (error) {
-      console.error('Error in initial data load:', error);
-      toast({
-        title: "Error",
-        description: "Failed to load initial data",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-
-  const handleLanguageChange = async (newLanguage: Language) => {
+  const handleLanguageChange = (newLanguage: Language) => {
     // Only proceed if actually changing language
     if (newLanguage === language) return;
     
     console.log(`🌐 Switching language from ${language} to ${newLanguage}`);
     setLanguage(newLanguage);
     localStorage.setItem('preferredLanguage', newLanguage);
-    setLoading(true);
-    
-    try {
-      // 1. Fetch last 7 days from database for charts
-      const readingsByChannel = await fetchHistoricalChartData();
-      
-      // 2. Fetch with explicit language to ensure correct analysis
-      const { data: responseData, error } = await supabase.functions.invoke('fetch-stevens-data', {
-        body: { 
-          language: newLanguage, 
-          forceRefresh: false,
-          daysBack: 1 
-        }
-      });
-      
-      if (error) throw error;
-      
-      // 3. Validate response language matches request
-      if (responseData.data.language && responseData.data.language !== newLanguage) {
-        console.error(`❌ Language mismatch! Requested ${newLanguage}, got ${responseData.data.language}`);
-        throw new Error(`Failed to load ${newLanguage} analysis`);
-      }
-      
-      console.log(`✅ Received ${responseData.data.language} analysis`);
-      
-      // 4. Merge data
-      const mergedData = {
-        ...responseData.data,
-        language: newLanguage, // Ensure language is set
-        sensors: responseData.data.sensors.map((sensor: Sensor) => ({
-          ...sensor,
-          readings: readingsByChannel.get(sensor.id) || []
-        }))
-      };
-      
-      setData(mergedData);
-      
-      toast({
-        title: "Language Updated",
-        description: `Analysis updated to ${newLanguage === 'english' ? 'English' : 'Kiswahili'}`,
-      });
-    } catch (error) {
-      console.error('Error updating language:', error);
-      // Revert language state on error
-      setLanguage(language);
-      localStorage.setItem('preferredLanguage', language);
-      toast({
-        title: "Error",
-        description: "Failed to update language. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const fetchCalibrationOffsets = async () => {
-    try {
-      const { data: offsetsData, error } = await supabase
-        .from('sensor_calibration_offsets')
-        .select('*');
-      
-      if (error) throw error;
-      setCalibrationOffsets(offsetsData || []);
-    } catch (error) {
-      console.error('Error fetching calibration offsets:', error);
-    }
+    fetchData(newLanguage);
   };
 
   const fetchDatabaseStats = async () => {
@@ -359,93 +183,13 @@ const Index = () => {
   };
 
   useEffect(() => {
-    fetchData(false); // Use cached data (kept fresh by hourly cron job)
+    fetchData(); // Stored data is kept fresh by the hourly cron job
     fetchDatabaseStats();
-    fetchCalibrationOffsets();
     
     const interval = setInterval(fetchDatabaseStats, 30000);
     return () => clearInterval(interval);
   }, []);
 
-  const applyCalibrationOffset = (value: number, channelId: string, timestamp: string): { corrected: number; offset: CalibrationOffset | null } => {
-    const readingTime = new Date(timestamp);
-    const activeOffset = calibrationOffsets.find(offset => {
-      const validFrom = new Date(offset.valid_from);
-      const validUntil = offset.valid_until ? new Date(offset.valid_until) : null;
-      return offset.channel_id === channelId && 
-             readingTime >= validFrom && 
-             (!validUntil || readingTime <= validUntil);
-    });
-
-    if (activeOffset) {
-      return { 
-        corrected: value + activeOffset.offset_value, 
-        offset: activeOffset 
-      };
-    }
-    return { corrected: value, offset: null };
-  };
-
-  const SENSOR_VALIDATION_RULES: Record<string, { minValue?: number; maxValue?: number; allowNegative?: boolean }> = {
-    'ph': { minValue: 0, maxValue: 14, allowNegative: false },
-    'do': { minValue: 0, maxValue: 350, allowNegative: false },
-    'do %': { minValue: 0, maxValue: 120, allowNegative: false },
-    'temp': { minValue: -10, maxValue: 50 },
-    'conductivity': { minValue: 0, allowNegative: false },
-    'sc': { minValue: 0, allowNegative: false },
-    'orp': { minValue: -500, maxValue: 500 },
-    'depth': { minValue: 0, allowNegative: false },
-    'salinity': { minValue: 0, maxValue: 50, allowNegative: false },
-    'cable power': { minValue: 0, maxValue: 15, allowNegative: false }
-  };
-
-  const detectMalfunction = (sensor: Sensor): { isMalfunctioning: boolean; reason?: string } => {
-    if (!sensor.readings || sensor.readings.length < 10) {
-      return { isMalfunctioning: false };
-    }
-
-    const sensorNameLower = sensor.name.toLowerCase();
-    
-    // Find matching validation rule
-    let rule: { minValue?: number; maxValue?: number; allowNegative?: boolean } | undefined;
-    for (const [key, validationRule] of Object.entries(SENSOR_VALIDATION_RULES)) {
-      if (sensorNameLower.includes(key)) {
-        rule = validationRule;
-        break;
-      }
-    }
-
-    // Check against validation rules
-    if (rule) {
-      if (rule.minValue !== undefined && sensor.currentValue < rule.minValue) {
-        return { isMalfunctioning: true, reason: `Reading ${sensor.currentValue.toFixed(2)} below valid minimum ${rule.minValue}` };
-      }
-      
-      if (rule.maxValue !== undefined && sensor.currentValue > rule.maxValue) {
-        return { isMalfunctioning: true, reason: `Reading ${sensor.currentValue.toFixed(2)} above valid maximum ${rule.maxValue}` };
-      }
-    } else if (sensor.currentValue < 0) {
-      return { isMalfunctioning: true, reason: "Negative value detected" };
-    }
-
-    // Check for stuck values
-    const recentValues = sensor.readings.slice(-20).map(r => r.value);
-    const uniqueValues = new Set(recentValues);
-    if (uniqueValues.size === 1) {
-      return { isMalfunctioning: true, reason: "Sensor reporting constant value (may be stuck)" };
-    }
-
-    // Check for erratic readings
-    const mean = recentValues.reduce((a, b) => a + b, 0) / recentValues.length;
-    const variance = recentValues.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / recentValues.length;
-    const stdDev = Math.sqrt(variance);
-    if (stdDev > mean * 0.8 && mean > 1) {
-      return { isMalfunctioning: true, reason: "Sensor showing erratic readings" };
-    }
-
-    return { isMalfunctioning: false };
-  };
-
   const renderSensorChart = (sensor: Sensor) => {
     console.log(`📈 Rendering chart for sensor ${sensor.name} (ID: ${sensor.id})`);
     console.log(`   Total readings: ${sensor.readings?.length || 0}`);
@@ -460,43 +204,32 @@ const Index = () => {
     const lastTimestamp = sensor.readings[sensor.readings.length - 1]?.timestamp;
     console.log(`   Date range: ${firstTimestamp} to ${lastTimestamp}`);
 
-    const malfunction = detectMalfunction(sensor);
-    const isMalfunctioning = malfunction.isMalfunctioning;
-
-    // Check if this sensor has an active calibration offset
-    const hasActiveOffset = calibrationOffsets.some(offset => 
-      offset.channel_id === sensor.id && 
-      (!offset.valid_until || new Date(offset.valid_until) > new Date())
-    );
+    const isMalfunctioning = !sensor.health.isValid;
+    // Passes its own QC but disagrees with the channels it is derived from
+    const isInconsistent = isMalfunctioning && sensor.consistency.some(result => !result.isConsistent);
 
-    // Use ALL readings and apply calibration correction
-    const chartData = sensor.readings.map(reading => {
-      const { corrected } = applyCalibrationOffset(reading.value, sensor.id, reading.timestamp);
+    // Readings arrive with calibration already applied
+    const readingPoints = sensor.readings.map(reading => {
       const date = new Date(reading.timestamp);
       
       return {
         timestamp: date.getTime(), // Timestamp for proper sorting
         dateLabel: formatInTimeZone(date, EAST_AFRICAN_TIMEZONE, 'MMM d'),
-        value: corrected
+        value: reading.value
       };
-    }).sort((a, b) => a.timestamp - b.timestamp); // Ensure chronological order
+    });
+    const chartData = withGapBreaks(readingPoints, sensor.gaps); // Chronological, with breaks at gaps
+    const gapMinutes = sensor.gaps.reduce((sum, gap) => sum + gap.durationMinutes, 0);
 
     console.log(`   Chart data points: ${chartData.length}`);
 
-    // Apply calibration to current value
-    const { corrected: correctedCurrentValue, offset: currentOffset } = applyCalibrationOffset(
-      sensor.currentValue, 
-      sensor.id, 
-      sensor.currentTimestamp
-    );
-
     const chartContent = (
       <>
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
             <span className="flex items-center gap-2">
               {sensor.name}
-              {hasActiveOffset && currentOffset && (
+              {sensor.calibration && (
                 <TooltipProvider>
                   <UITooltip>
                     <TooltipTrigger>
@@ -505,9 +238,10 @@ const Index = () => {
                       </Badge>
                     </TooltipTrigger>
                     <TooltipContent>
-                      <p className="text-xs max-w-xs">{currentOffset.reason}</p>
+                      <p className="text-xs max-w-xs">{sensor.calibration.reason}</p>
+                      <p className="text-xs text-muted-foreground mt-1">Correction: {sensor.calibration.description}</p>
                       <p className="text-xs text-muted-foreground mt-1">
-                        Raw value: {sensor.currentValue.toFixed(2)} {sensor.unit}
+                        Raw value: {sensor.rawCurrentValue.toFixed(2)} {sensor.unit}
                       </p>
                     </TooltipContent>
                   </UITooltip>
@@ -515,11 +249,13 @@ const Index = () => {
               )}
             </span>
             <span className="text-2xl font-bold text-primary">
-              {correctedCurrentValue.toFixed(2)} {sensor.unit}
+              {sensor.currentValue.toFixed(2)} {sensor.unit}
             </span>
           </CardTitle>
           <CardDescription>
             Last 7 days
+            {sensor.completeness !== null && ` • ${sensor.completeness}% of expected readings received`}
+            {sensor.gaps.length > 0 && ` • ${sensor.gaps.length} gap${sensor.gaps.length !== 1 ? 's' : ''} (${formatGapDuration(gapMinutes)})`}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -528,6 +264,9 @@ const Index = () => {
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis 
                 dataKey="timestamp" 
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
                 tick={{ fontSize: 12 }}
                 tickFormatter={(timestamp) => {
                   return formatInTimeZone(new Date(timestamp), EAST_AFRICAN_TIMEZONE, 'MMM d');
@@ -543,6 +282,16 @@ const Index = () => {
                   formatInTimeZone(new Date(timestamp), EAST_AFRICAN_TIMEZONE, 'PPpp') + ` ${TIMEZONE_LABEL}`
                 }
               />
+              {sensor.gaps.map(gap => (
+                <ReferenceArea
+                  key={gap.start}
+                  x1={new Date(gap.start).getTime()}
+                  x2={new Date(gap.end).getTime()}
+                  fill="hsl(var(--muted-foreground))"
+                  fillOpacity={0.15}
+                  ifOverflow="hidden"
+                />
+              ))}
               <Line 
                 type="monotone" 
                 dataKey="value" 
@@ -562,10 +311,10 @@ const Index = () => {
           <AccordionItem value={sensor.id} className="border rounded-lg px-4">
             <AccordionTrigger className="hover:no-underline">
               <div className="flex items-center gap-3 w-full">
-                <Badge variant="destructive" className="shrink-0">⚠️ Malfunction</Badge>
+                <Badge variant="destructive" className="shrink-0">{isInconsistent ? '⚠️ Inconsistent' : '⚠️ Malfunction'}</Badge>
                 <div className="flex-1 text-left">
                   <div className="font-semibold">{sensor.name}</div>
-                  <div className="text-sm text-muted-foreground">{malfunction.reason}</div>
+                  <div className="text-sm text-muted-foreground">{sensor.health.reason}</div>
                 </div>
               </div>
             </AccordionTrigger>
@@ -715,16 +464,28 @@ const Index = () => {
               <Settings className="h-4 w-4 mr-2" />
               Calibration
             </Button>
-            <Button onClick={() => fetchData(false)} disabled={loading} variant="outline" size="sm">
+            <Button asChild variant="outline" size="sm">
+              <Link to="/ingestion">
+                <Activity className="h-4 w-4 mr-2" />
+                Ingestion Health
+              </Link>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <Link to="/upload">
+                <Upload className="h-4 w-4 mr-2" />
+                Upload Readings
+              </Link>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <Link to="/diagnostics">
+                <BatteryMedium className="h-4 w-4 mr-2" />
+                Diagnostics
+              </Link>
+            </Button>
+            <Button onClick={() => fetchData()} disabled={loading} variant="outline" size="sm">
               {loading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <RefreshCw className="h-4 w-4 mr-2" />}
               Refresh Analysis
             </Button>
-            {dbStats && dbStats.readings === 0 && (
-              <Button onClick={handleInitialDataLoad} disabled={loading} variant="default" size="sm">
-                {loading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
-                Initial Data Load (3 years)
-              </Button>
-            )}
             {data?.timestamp && (
               <span className="text-sm text-muted-foreground ml-auto">
                 Last updated: {new Date(data.timestamp).toLocaleString()}
@@ -735,27 +496,12 @@ const Index = () => {
 
         {data && data.sensors.length > 0 && (
           <>
-            {data.cached && (
-              <div className="text-sm text-muted-foreground flex items-center gap-2">
-                <span className="inline-block w-2 h-2 bg-green-500 rounded-full animate-pulse"></span>
-                Showing cached data • Last updated: {new Date(data.lastUpdated || data.timestamp).toLocaleString()}
-              </div>
-            )}
-            
             <LatestCameraImage />
             
             {data.analysis && renderAnalysis(data.analysis)}
             
             <div className="space-y-4 mt-6">
-              {data.sensors
-                .filter(sensor => {
-                  const lowercaseName = sensor.name.toLowerCase().trim();
-                  const excludedSensors = ['ph mv', 'ph - mv', 'depth f', 'depth psig', 'cable power'];
-                  return !excludedSensors.some(excluded => 
-                    lowercaseName === excluded || lowercaseName.includes(excluded)
-                  );
-                })
-                .map(renderSensorChart)}
+              {data.sensors.map(renderSensorChart)}
             </div>
 
             <p className="text-sm text-muted-foreground text-center">
@@ -792,12 +538,12 @@ const Index = () => {
         {data && data.sensors.length === 0 && !loading && (
           <Card>
             <CardContent className="p-8 text-center">
-              <p className="text-muted-foreground">{data.message || 'No sensor data available'}</p>
+              <p className="text-muted-foreground">No sensor data available for the past 7 days</p>
               {dbStats && dbStats.readings === 0 && (
-                <Button onClick={handleInitialDataLoad} disabled={loading} variant="default" className="mt-4">
-                  {loading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
-                  Load Initial Data (3 years)
-                </Button>
+                <p className="text-sm text-muted-foreground mt-2">
+                  Historical data can be loaded from the{' '}
+                  <Link to="/ingestion" className="underline">Ingestion Health</Link> page.
+                </p>
               )}
             </CardContent>
           </Card>
@@ -0,0 +1,474 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, History, Loader2, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell } from "recharts";
+import { formatDistanceToNow } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
+import { EAST_AFRICAN_TIMEZONE, formatEATShort } from "@/lib/timezoneConfig";
+import { SignInDialog } from "@/components/calibration/SignInDialog";
+import { useStaffSession } from "@/hooks/use-staff-session";
+import { errorMessage, errorStatus, toEdgeFunctionError } from "@/lib/edgeFunctions";
+import { BackfillPanel } from "@/components/ingestion/BackfillPanel";
+import { DataGapsPanel } from "@/components/ingestion/DataGapsPanel";
+
+interface FetchRun {
+  id: string;
+  station_id: string | null;
+  fetch_started_at: string;
+  fetch_completed_at: string | null;
+  status: string;
+  error_message: string | null;
+  readings_count: number | null;
+  duration_ms: number | null;
+  trigger_source: string;
+  sensor_stations: { station_name: string } | null;
+  raw_payloads: { payload_type: string }[];
+}
+
+interface PendingAdminAction {
+  description: string;
+  run: () => void;
+}
+
+interface ChannelFreshness {
+  channel_id: string;
+  channel_name: string;
+  sensor_name: string | null;
+  unit: string | null;
+  is_active: boolean;
+  station_id: string;
+  station_name: string;
+  latest_measured_at: string | null;
+}
+
+// How far back the run timeline looks
+const RUN_WINDOW_DAYS = 7;
+// A channel with no reading for this long is considered stale (the cron runs hourly)
+const STALE_AFTER_HOURS = 3;
+
+const STATUS_COLORS: Record<string, string> = {
+  success: "hsl(142 71% 45%)",
+  failed: "hsl(var(--destructive))",
+  in_progress: "hsl(var(--muted-foreground))",
+};
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return "—";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+const isStale = (channel: ChannelFreshness) => {
+  if (!channel.latest_measured_at) return true;
+  return Date.now() - new Date(channel.latest_measured_at).getTime() > STALE_AFTER_HOURS * 60 * 60 * 1000;
+};
+
+const Ingestion = () => {
+  const [runs, setRuns] = useState<FetchRun[]>([]);
+  const [channels, setChannels] = useState<ChannelFreshness[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { member, signIn, signOut } = useStaffSession();
+  const [pendingAction, setPendingAction] = useState<PendingAdminAction | null>(null);
+  const [reprocessingId, setReprocessingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchHealthData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const since = new Date(Date.now() - RUN_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+      const [runsResult, freshnessResult] = await Promise.all([
+        supabase
+          .from('api_fetch_log')
+          .select('id, station_id, fetch_started_at, fetch_completed_at, status, error_message, readings_count, duration_ms, trigger_source, sensor_stations(station_name), raw_payloads(payload_type)')
+          .gte('fetch_started_at', since.toISOString())
+          .order('fetch_started_at', { ascending: false })
+          .limit(1000),
+        supabase.rpc('get_channel_freshness'),
+      ]);
+
+      if (runsResult.error) throw runsResult.error;
+      if (freshnessResult.error) throw freshnessResult.error;
+
+      setRuns((runsResult.data || []) as FetchRun[]);
+      setChannels(freshnessResult.data || []);
+    } catch (error) {
+      console.error('Error fetching ingestion health:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load ingestion health data",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchHealthData();
+  }, [fetchHealthData]);
+
+  const reprocessRun = async (fetchLogId: string) => {
+    setReprocessingId(fetchLogId);
+    try {
+      const { data: result, error } = await supabase.functions.invoke('fetch-stevens-data', {
+        body: { mode: 'reprocess', fetchLogId }
+      });
+
+      if (error) throw await toEdgeFunctionError(error);
+      if (!result?.success) throw new Error(result?.error || 'Reprocessing failed');
+
+      toast({
+        title: "Run Reprocessed",
+        description: `${result.data.readingsCount.toLocaleString()} readings rebuilt from the archived payload`,
+      });
+      await fetchHealthData();
+    } catch (error: unknown) {
+      console.error('Error reprocessing run:', error);
+      // Ask to sign in again next time if the session was rejected
+      if (errorStatus(error) === 401) {
+        signOut();
+      }
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to reprocess run"),
+        variant: "destructive",
+      });
+    } finally {
+      setReprocessingId(null);
+    }
+  };
+
+  // Run an admin action as the signed-in staff member, asking them to sign in first if nobody is
+  const runSignedIn = (description: string, run: () => void) => {
+    if (member) {
+      run();
+    } else {
+      setPendingAction({ description, run });
+    }
+  };
+
+  const handleReprocess = (fetchLogId: string) =>
+    runSignedIn(
+      "Sign in as a data manager to rebuild this run's readings from its archived payload.",
+      () => reprocessRun(fetchLogId)
+    );
+
+  const handleSignIn = async (email: string, password: string) => {
+    await signIn(email, password);
+    pendingAction?.run();
+    setPendingAction(null);
+  };
+
+  const summary = useMemo(() => {
+    const finished = runs.filter(r => r.status !== 'in_progress');
+    const succeeded = finished.filter(r => r.status === 'success');
+    const durations = finished.map(r => r.duration_ms).filter((d): d is number => d !== null);
+
+    return {
+      total: runs.length,
+      successRate: finished.length > 0 ? (succeeded.length / finished.length) * 100 : null,
+      avgReadings: succeeded.length > 0
+        ? succeeded.reduce((sum, r) => sum + (r.readings_count || 0), 0) / succeeded.length
+        : null,
+      avgDuration: durations.length > 0 ? durations.reduce((a, b) => a + b, 0) / durations.length : null,
+      lastSuccess: succeeded[0] || null,
+      lastFailure: finished.find(r => r.status === 'failed') || null,
+    };
+  }, [runs]);
+
+  const timelineData = useMemo(() => {
+    return [...runs]
+      .reverse()
+      .map(run => ({
+        timestamp: new Date(run.fetch_started_at).getTime(),
+        readings: run.readings_count || 0,
+        durationSeconds: run.duration_ms !== null ? run.duration_ms / 1000 : null,
+        status: run.status,
+      }));
+  }, [runs]);
+
+  const staleChannels = channels.filter(c => c.is_active && isStale(c));
+
+  // Stations where every active channel has gone stale have most likely stopped reporting entirely
+  const staleStations = useMemo(() => {
+    const byStation = new Map<string, { name: string; active: number; stale: number }>();
+    channels.filter(c => c.is_active).forEach(c => {
+      const entry = byStation.get(c.station_id) || { name: c.station_name, active: 0, stale: 0 };
+      entry.active++;
+      if (isStale(c)) entry.stale++;
+      byStation.set(c.station_id, entry);
+    });
+    return Array.from(byStation.values()).filter(s => s.active > 0 && s.stale === s.active);
+  }, [channels]);
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <SignInDialog
+        open={pendingAction !== null}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+        onSignIn={handleSignIn}
+        title="Ingestion Admin Access"
+        description={pendingAction?.description}
+      />
+      <div className="max-w-7xl mx-auto space-y-8">
+        <header>
+          <h1 className="text-4xl font-bold mb-4">Ingestion Health</h1>
+          <div className="flex gap-2 items-center">
+            <Button asChild variant="outline" size="sm">
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Dashboard
+              </Link>
+            </Button>
+            <Button onClick={fetchHealthData} disabled={loading} variant="outline" size="sm">
+              {loading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              Refresh
+            </Button>
+            <span className="text-sm text-muted-foreground ml-auto">
+              Fetch runs from the last {RUN_WINDOW_DAYS} days
+            </span>
+          </div>
+        </header>
+
+        <BackfillPanel
+          onRunSignedIn={runSignedIn}
+          onSessionRejected={signOut}
+          onFinished={fetchHealthData}
+        />
+
+        {(staleStations.length > 0 || staleChannels.length > 0) && (
+          <Card className="border-destructive/50">
+            <CardHeader>
+              <CardTitle className="text-lg text-destructive">Stale Data</CardTitle>
+              <CardDescription>
+                No readings received for more than {STALE_AFTER_HOURS} hours
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {staleStations.map(station => (
+                <p key={station.name}>
+                  <Badge variant="destructive" className="mr-2">Station</Badge>
+                  {station.name} — all {station.active} channels stale
+                </p>
+              ))}
+              {staleChannels.length > 0 && (
+                <p className="text-muted-foreground">
+                  {staleChannels.length} stale channel{staleChannels.length !== 1 ? 's' : ''}: {staleChannels.map(c => `${c.station_name} / ${c.channel_name}`).join(', ')}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="p-4 text-center">
+              <div className="text-3xl font-bold text-primary">
+                {summary.successRate !== null ? `${summary.successRate.toFixed(0)}%` : '—'}
+              </div>
+              <div className="text-sm text-muted-foreground mt-1">Success rate ({summary.total} runs)</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 text-center">
+              <div className="text-3xl font-bold text-primary">
+                {summary.avgReadings !== null ? Math.round(summary.avgReadings).toLocaleString() : '—'}
+              </div>
+              <div className="text-sm text-muted-foreground mt-1">Readings per successful run</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 text-center">
+              <div className="text-3xl font-bold text-primary">{formatDuration(summary.avgDuration !== null ? Math.round(summary.avgDuration) : null)}</div>
+              <div className="text-sm text-muted-foreground mt-1">Average run duration</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 text-center">
+              <div className="text-lg font-bold text-primary">
+                {summary.lastSuccess ? formatDistanceToNow(new Date(summary.lastSuccess.fetch_started_at), { addSuffix: true }) : 'Never'}
+              </div>
+              <div className="text-sm text-muted-foreground mt-1">Last successful fetch</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {summary.lastFailure && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Last Failure</CardTitle>
+              <CardDescription>
+                {formatEATShort(summary.lastFailure.fetch_started_at)} • {summary.lastFailure.sensor_stations?.station_name || 'All stations'} • {summary.lastFailure.trigger_source}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm font-mono text-destructive">{summary.lastFailure.error_message || 'No error message recorded'}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Fetch Run Timeline</CardTitle>
+            <CardDescription>Readings stored per run and run duration</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <ComposedChart data={timelineData}>
+                <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+                <XAxis
+                  dataKey="timestamp"
+                  type="number"
+                  scale="time"
+                  domain={['dataMin', 'dataMax']}
+                  tick={{ fontSize: 12 }}
+                  tickFormatter={(timestamp) => formatInTimeZone(new Date(timestamp), EAST_AFRICAN_TIMEZONE, 'MMM d')}
+                />
+                <YAxis yAxisId="readings" tick={{ fontSize: 12 }} label={{ value: 'readings', angle: -90, position: 'insideLeft' }} />
+                <YAxis yAxisId="duration" orientation="right" tick={{ fontSize: 12 }} label={{ value: 'seconds', angle: 90, position: 'insideRight' }} />
+                <Tooltip
+                  labelFormatter={(timestamp) => formatEATShort(new Date(timestamp).toISOString())}
+                />
+                <Legend />
+                <Bar yAxisId="readings" dataKey="readings" name="Readings stored">
+                  {timelineData.map((point, index) => (
+                    <Cell key={index} fill={STATUS_COLORS[point.status] || STATUS_COLORS.in_progress} />
+                  ))}
+                </Bar>
+                <Line
+                  yAxisId="duration"
+                  type="monotone"
+                  dataKey="durationSeconds"
+                  name="Duration (s)"
+                  stroke="hsl(var(--primary))"
+                  dot={false}
+                  connectNulls
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Channel Freshness</CardTitle>
+            <CardDescription>Age of the latest stored reading for each channel</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Station</TableHead>
+                    <TableHead>Channel</TableHead>
+                    <TableHead>Latest Reading</TableHead>
+                    <TableHead>Age</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {channels.map(channel => {
+                    const stale = isStale(channel);
+                    return (
+                      <TableRow key={channel.channel_id} className={channel.is_active && stale ? "bg-destructive/10" : undefined}>
+                        <TableCell>{channel.station_name}</TableCell>
+                        <TableCell>
+                          {channel.channel_name}
+                          {channel.sensor_name && <span className="text-muted-foreground"> ({channel.sensor_name})</span>}
+                        </TableCell>
+                        <TableCell>{channel.latest_measured_at ? formatEATShort(channel.latest_measured_at) : 'Never'}</TableCell>
+                        <TableCell>
+                          {channel.latest_measured_at
+                            ? formatDistanceToNow(new Date(channel.latest_measured_at), { addSuffix: true })
+                            : '—'}
+                        </TableCell>
+                        <TableCell>
+                          {!channel.is_active ? (
+                            <Badge variant="secondary">Inactive</Badge>
+                          ) : stale ? (
+                            <Badge variant="destructive">Stale</Badge>
+                          ) : (
+                            <Badge variant="outline">Fresh</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <DataGapsPanel
+          onRunSignedIn={runSignedIn}
+          onSessionRejected={signOut}
+        />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Fetch Runs ({runs.length})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Station</TableHead>
+                    <TableHead>Trigger</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Readings</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead>Error</TableHead>
+                    <TableHead className="text-right">Archive</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map(run => (
+                    <TableRow key={run.id}>
+                      <TableCell>{formatEATShort(run.fetch_started_at)}</TableCell>
+                      <TableCell>{run.sensor_stations?.station_name || '—'}</TableCell>
+                      <TableCell className="capitalize">{run.trigger_source}</TableCell>
+                      <TableCell>
+                        <Badge variant={run.status === 'failed' ? 'destructive' : run.status === 'success' ? 'default' : 'secondary'}>
+                          {run.status.replace('_', ' ')}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{(run.readings_count || 0).toLocaleString()}</TableCell>
+                      <TableCell>{formatDuration(run.duration_ms)}</TableCell>
+                      <TableCell className="max-w-xs truncate text-destructive" title={run.error_message || undefined}>
+                        {run.error_message}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {run.raw_payloads.some(p => p.payload_type === 'readings') && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={reprocessingId !== null}
+                            onClick={() => handleReprocess(run.id)}
+                            title="Rebuild this run's readings from the archived Stevens response"
+                          >
+                            {reprocessingId === run.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <History className="h-4 w-4" />}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Ingestion;
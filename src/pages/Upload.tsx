@@ -0,0 +1,483 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Loader2, Upload as UploadIcon } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { formatInTimeZone } from "date-fns-tz";
+import { EAST_AFRICAN_TIMEZONE, TIMEZONE_LABEL } from "@/lib/timezoneConfig";
+import {
+  buildPreview,
+  DATE_FORMATS,
+  ImportSettings,
+  ParsedFile,
+  parseUploadFile,
+  PreviewReading,
+  UploadChannel,
+} from "@/lib/readingImport";
+import { SignInDialog } from "@/components/calibration/SignInDialog";
+import { useStaffSession } from "@/hooks/use-staff-session";
+import { errorMessage, errorStatus, toEdgeFunctionError } from "@/lib/edgeFunctions";
+import { ColumnMappingTable } from "@/components/upload/ColumnMappingTable";
+import { UploadPreviewTable } from "@/components/upload/UploadPreviewTable";
+
+interface Station {
+  id: string;
+  station_name: string;
+}
+
+interface ReadingUpload {
+  id: string;
+  file_name: string;
+  source_kind: string;
+  uploaded_by: string;
+  readings_inserted: number;
+  readings_skipped: number;
+  created_at: string;
+  sensor_stations: { station_name: string } | null;
+}
+
+type SourceKind = "field_meter" | "logger_file";
+
+const SOURCE_KIND_LABELS: Record<SourceKind, string> = {
+  field_meter: "Handheld field meter",
+  logger_file: "Logger download",
+};
+
+// Timestamps are looked up in chunks to keep the request URL short
+const DUPLICATE_CHECK_CHUNK = 200;
+
+// Keeps the bare channel name so a column headed "pH" can be matched to its channel
+interface StationChannel extends UploadChannel {
+  channelName: string;
+}
+
+const normalizeHeader = (text: string) => text.trim().toLowerCase().replace(/[^a-z0-9%]+/g, " ").trim();
+
+// Pre-select the timestamp columns and any column whose header names a channel
+const guessSettings = (file: ParsedFile, channels: StationChannel[]): ImportSettings => {
+  const headers = file.headers.map(normalizeHeader);
+  const timestampColumn = Math.max(0, headers.findIndex(h => /date|timestamp/.test(h)));
+  const timeIndex = headers.findIndex((h, i) => i !== timestampColumn && h === "time");
+
+  const mappings = file.headers.flatMap((_, column) => {
+    if (column === timestampColumn || column === timeIndex) return [];
+    const channel = channels.find(c => normalizeHeader(c.channelName) === headers[column]);
+    return channel ? [{ column, channelId: channel.id, unit: channel.unit }] : [];
+  });
+
+  return {
+    timestampColumn,
+    timeColumn: timeIndex >= 0 ? timeIndex : null,
+    dateFormat: DATE_FORMATS[0].value,
+    mappings,
+  };
+};
+
+const Upload = () => {
+  const [stations, setStations] = useState<Station[]>([]);
+  const [stationId, setStationId] = useState("");
+  const [channels, setChannels] = useState<StationChannel[]>([]);
+  const [fileName, setFileName] = useState("");
+  const [parsedFile, setParsedFile] = useState<ParsedFile | null>(null);
+  const [settings, setSettings] = useState<ImportSettings | null>(null);
+  const [sourceKind, setSourceKind] = useState<SourceKind>("field_meter");
+  const [notes, setNotes] = useState("");
+  const [preview, setPreview] = useState<PreviewReading[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const { member, signIn, signOut } = useStaffSession();
+  const [showSignInDialog, setShowSignInDialog] = useState(false);
+  const [recentUploads, setRecentUploads] = useState<ReadingUpload[]>([]);
+  const { toast } = useToast();
+
+  const fetchRecentUploads = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("reading_uploads")
+      .select("id, file_name, source_kind, uploaded_by, readings_inserted, readings_skipped, created_at, sensor_stations(station_name)")
+      .order("created_at", { ascending: false })
+      .limit(10);
+
+    if (error) {
+      console.error("Error fetching uploads:", error);
+      return;
+    }
+    setRecentUploads((data || []) as ReadingUpload[]);
+  }, []);
+
+  useEffect(() => {
+    const fetchStations = async () => {
+      const { data, error } = await supabase
+        .from("sensor_stations")
+        .select("id, station_name")
+        .order("station_name");
+
+      if (error) {
+        console.error("Error fetching stations:", error);
+        return;
+      }
+      setStations(data || []);
+      if (data && data.length === 1) setStationId(data[0].id);
+    };
+
+    fetchStations();
+    fetchRecentUploads();
+  }, [fetchRecentUploads]);
+
+  useEffect(() => {
+    if (!stationId) return;
+
+    const fetchChannels = async () => {
+      const { data, error } = await supabase
+        .from("sensor_channels")
+        .select("id, sensor_name, channel_name, unit, channel_qc_rules!channel_qc_rules_channel_id_fkey(min_value, max_value)")
+        .eq("station_id", stationId)
+        .is("removed_at", null)
+        .order("sensor_name")
+        .order("channel_name");
+
+      if (error) {
+        console.error("Error fetching channels:", error);
+        return;
+      }
+      setChannels((data || []).map(c => ({
+        id: c.id,
+        name: `${c.sensor_name} - ${c.channel_name}`,
+        channelName: c.channel_name,
+        unit: c.unit || "",
+        qcRule: c.channel_qc_rules,
+      })));
+    };
+
+    fetchChannels();
+  }, [stationId]);
+
+  // Re-guess the mapping whenever the file or the station's channels change
+  useEffect(() => {
+    setPreview(null);
+    setSettings(parsedFile ? guessSettings(parsedFile, channels) : null);
+  }, [parsedFile, channels]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setParsedFile(await parseUploadFile(file));
+      setFileName(file.name);
+    } catch (error: unknown) {
+      console.error("Error reading file:", error);
+      setParsedFile(null);
+      setFileName("");
+      toast({
+        title: "Could not read file",
+        description: errorMessage(error, "Upload a CSV or XLSX file"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSettingsChange = (newSettings: ImportSettings) => {
+    setSettings(newSettings);
+    setPreview(null);
+  };
+
+  // Mark readings whose channel and timestamp are already stored
+  const markStoredDuplicates = async (readings: PreviewReading[]) => {
+    const candidates = readings.filter(r => r.status === "ok" && r.measuredAt);
+    const byChannel = new Map<string, PreviewReading[]>();
+    candidates.forEach(r => byChannel.set(r.channelId, [...(byChannel.get(r.channelId) || []), r]));
+
+    const stored = new Set<string>();
+    for (const [channelId, channelReadings] of byChannel) {
+      for (let i = 0; i < channelReadings.length; i += DUPLICATE_CHECK_CHUNK) {
+        const timestamps = channelReadings.slice(i, i + DUPLICATE_CHECK_CHUNK).map(r => r.measuredAt!.toISOString());
+        const { data, error } = await supabase
+          .from("sensor_readings")
+          .select("measured_at")
+          .eq("channel_id", channelId)
+          .in("measured_at", timestamps);
+
+        if (error) throw error;
+        (data || []).forEach(r => stored.add(`${channelId}|${new Date(r.measured_at).getTime()}`));
+      }
+    }
+
+    return readings.map(r =>
+      r.status === "ok" && r.measuredAt && stored.has(`${r.channelId}|${r.measuredAt.getTime()}`)
+        ? { ...r, status: "duplicate" as const, reason: "A reading is already stored for this channel and time" }
+        : r
+    );
+  };
+
+  const handleCheck = async () => {
+    if (!parsedFile || !settings) return;
+
+    setIsChecking(true);
+    try {
+      const readings = buildPreview(parsedFile, settings, channels);
+      setPreview(await markStoredDuplicates(readings));
+    } catch (error: unknown) {
+      console.error("Error checking upload:", error);
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to check the file"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const readyReadings = preview?.filter(r => r.status === "ok") || [];
+
+  const commitUpload = async () => {
+    if (!parsedFile || !settings) return;
+
+    setIsCommitting(true);
+    try {
+      const { data: result, error } = await supabase.functions.invoke("manage-calibration-offsets", {
+        body: {
+          action: "commit_upload",
+          data: {
+            station_id: stationId,
+            file_name: fileName,
+            source_kind: sourceKind,
+            notes: notes || null,
+            mapping: {
+              timestampColumn: parsedFile.headers[settings.timestampColumn],
+              timeColumn: settings.timeColumn !== null ? parsedFile.headers[settings.timeColumn] : null,
+              dateFormat: settings.dateFormat,
+              timezone: EAST_AFRICAN_TIMEZONE,
+              columns: settings.mappings.map(m => ({
+                column: parsedFile.headers[m.column],
+                channelId: m.channelId,
+                unit: m.unit,
+              })),
+            },
+            readings: readyReadings.map(r => ({
+              channel_id: r.channelId,
+              measured_at: r.measuredAt!.toISOString(),
+              value: r.value,
+            })),
+          },
+        },
+      });
+
+      if (error) throw await toEdgeFunctionError(error);
+      if (result.error) throw new Error(result.error);
+
+      toast({
+        title: "Upload Committed",
+        description: `${result.data.readings_inserted.toLocaleString()} readings stored` +
+          (result.data.readings_skipped > 0 ? `, ${result.data.readings_skipped.toLocaleString()} already present` : ""),
+      });
+      setParsedFile(null);
+      setFileName("");
+      setNotes("");
+      fetchRecentUploads();
+    } catch (error: unknown) {
+      console.error("Error committing upload:", error);
+      // Ask to sign in again next time if the session was rejected
+      if (errorStatus(error) === 401) {
+        signOut();
+      }
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to commit upload"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const handleCommit = () => {
+    if (member) {
+      commitUpload();
+    } else {
+      setShowSignInDialog(true);
+    }
+  };
+
+  const handleSignIn = async (email: string, password: string) => {
+    await signIn(email, password);
+    setShowSignInDialog(false);
+    commitUpload();
+  };
+
+  const canCheck = !!parsedFile && !!settings && settings.mappings.length > 0;
+  const canCommit = readyReadings.length > 0 && !isCommitting;
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <header className="space-y-4">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Dashboard
+            </Link>
+          </Button>
+          <h1 className="text-4xl font-bold">Upload Readings</h1>
+          <p className="text-muted-foreground">
+            Import handheld meter readings or logger files downloaded on site. Timestamps are read as {TIMEZONE_LABEL}.
+          </p>
+        </header>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">File</CardTitle>
+            <CardDescription>CSV or XLSX with a header row; the first sheet of a workbook is used</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="upload-station">Station</Label>
+              <Select value={stationId} onValueChange={setStationId}>
+                <SelectTrigger id="upload-station">
+                  <SelectValue placeholder="Choose a station..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {stations.map(s => (
+                    <SelectItem key={s.id} value={s.id}>{s.station_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="upload-file">File</Label>
+              <Input id="upload-file" type="file" accept=".csv,.xlsx" onChange={handleFileChange} disabled={!stationId} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="upload-source">Source</Label>
+              <Select value={sourceKind} onValueChange={(value) => setSourceKind(value as SourceKind)}>
+                <SelectTrigger id="upload-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SOURCE_KIND_LABELS) as SourceKind[]).map(kind => (
+                    <SelectItem key={kind} value={kind}>{SOURCE_KIND_LABELS[kind]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Uploaded by</Label>
+              <p className="text-sm text-muted-foreground pt-2">
+                {member ? member.name : "You will be asked to sign in when committing"}
+              </p>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="upload-notes">Notes</Label>
+              <Textarea
+                id="upload-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Instrument, serial number, site conditions..."
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {parsedFile && settings && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Column Mapping</CardTitle>
+              <CardDescription>
+                {fileName} • {parsedFile.rows.length.toLocaleString()} rows. Choose the channel each column holds and the unit it was recorded in.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ColumnMappingTable
+                file={parsedFile}
+                channels={channels}
+                settings={settings}
+                onChange={handleSettingsChange}
+              />
+              <Button onClick={handleCheck} disabled={!canCheck || isChecking}>
+                {isChecking && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Check Rows
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {preview && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Preview</CardTitle>
+              <CardDescription>
+                Only readings marked ready are stored. Values are shown after unit conversion.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <UploadPreviewTable preview={preview} />
+              <div className="flex items-center gap-4">
+                <Button onClick={handleCommit} disabled={!canCommit}>
+                  {isCommitting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <UploadIcon className="h-4 w-4 mr-2" />}
+                  Commit {readyReadings.length.toLocaleString()} Readings
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Recent Uploads</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {recentUploads.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No uploads yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Uploaded</TableHead>
+                    <TableHead>File</TableHead>
+                    <TableHead>Station</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead className="text-right">Stored</TableHead>
+                    <TableHead className="text-right">Skipped</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recentUploads.map(upload => (
+                    <TableRow key={upload.id}>
+                      <TableCell>
+                        {formatInTimeZone(new Date(upload.created_at), EAST_AFRICAN_TIMEZONE, "MMM d, HH:mm")} {TIMEZONE_LABEL}
+                      </TableCell>
+                      <TableCell>{upload.file_name}</TableCell>
+                      <TableCell>{upload.sensor_stations?.station_name || "—"}</TableCell>
+                      <TableCell>{SOURCE_KIND_LABELS[upload.source_kind as SourceKind] || upload.source_kind}</TableCell>
+                      <TableCell>{upload.uploaded_by}</TableCell>
+                      <TableCell className="text-right">{upload.readings_inserted.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{upload.readings_skipped.toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <SignInDialog
+        open={showSignInDialog}
+        onOpenChange={setShowSignInDialog}
+        onSignIn={handleSignIn}
+        title="Upload Admin Access"
+        description="Sign in as a technician or data manager to store these readings."
+      />
+    </div>
+  );
+};
+
+export default Upload;
@@ -0,0 +1,35 @@
+// Records fresh fixtures for the fake server from the real Stevens-Connect API.
+//
+//   STEVENS_EMAIL=... STEVENS_PASSWORD=... \
+//     deno run --allow-net --allow-env --allow-write supabase/fake-stevens/record.ts [days]
+
+import { StevensClient } from '../functions/_shared/stevens-client.ts';
+
+const days = parseInt(Deno.args[0] || '2');
+const fixturesDir = new URL('./fixtures/', import.meta.url);
+const client = StevensClient.fromEnv();
+
+const configPacket = await client.getConfigPacket();
+await Deno.writeTextFile(
+  new URL('config-packet.json', fixturesDir),
+  JSON.stringify({ data: { config_packet: configPacket } }, null, 2)
+);
+
+const readings: Record<string, unknown[]> = {};
+const endDate = new Date();
+const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
+
+for (const project of configPacket.projects) {
+  for (const station of project.stations) {
+    const channelIds = station.sensors
+      .filter((sensor) => sensor.status === 1)
+      .flatMap((sensor) => sensor.channels.map((channel) => channel.id));
+    if (channelIds.length === 0) continue;
+
+    Object.assign(readings, await client.getReadings(project.id, channelIds, startDate, endDate));
+    console.log(`Recorded ${channelIds.length} channels for ${station.name}`);
+  }
+}
+
+await Deno.writeTextFile(new URL('readings.json', fixturesDir), JSON.stringify({ data: { readings } }));
+console.log(`Recorded ${days} days of readings to ${fixturesDir.pathname}`);
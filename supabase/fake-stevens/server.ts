@@ -0,0 +1,126 @@
+// Local stand-in for the Stevens-Connect API that replays recorded payloads from ./fixtures.
+//
+//   deno run --allow-net --allow-read --allow-env supabase/fake-stevens/server.ts
+//
+// Point the ingestion function at it with STEVENS_BASE_URL=http://host.docker.internal:8787
+// (or http://localhost:8787 when calling StevensClient directly).
+//
+// Optional environment:
+//   FAKE_STEVENS_PORT        port to listen on (default 8787)
+//   FAKE_STEVENS_SHIFT       "now" shifts recorded timestamps so the newest reading is current
+//   FAKE_STEVENS_FAIL_FIRST  answer the first N data requests with 503 to exercise retries
+//   FAKE_STEVENS_TOKEN_USES  reject a token with 401 after N requests to exercise re-authentication
+
+const FIXTURES_DIR = new URL('./fixtures/', import.meta.url);
+
+// A recorded reading; the rest of its fields are replayed untouched
+type RecordedReading = { timestamp: string } & Record<string, unknown>;
+
+const loadFixture = async (name: string) =>
+  JSON.parse(await Deno.readTextFile(new URL(name, FIXTURES_DIR)));
+
+const authFixture = await loadFixture('authenticate.json');
+const configFixture = await loadFixture('config-packet.json');
+const readingsFixture = await loadFixture('readings.json');
+
+const port = parseInt(Deno.env.get('FAKE_STEVENS_PORT') || '8787');
+const failFirst = parseInt(Deno.env.get('FAKE_STEVENS_FAIL_FIRST') || '0');
+const tokenUses = parseInt(Deno.env.get('FAKE_STEVENS_TOKEN_USES') || '0');
+
+// Offset applied to every recorded timestamp
+let shiftMs = 0;
+if (Deno.env.get('FAKE_STEVENS_SHIFT') === 'now') {
+  const allTimestamps = Object.values(readingsFixture.data.readings as Record<string, RecordedReading[]>)
+    .flat()
+    .map((r) => new Date(r.timestamp).getTime());
+  shiftMs = Date.now() - Math.max(...allTimestamps);
+}
+
+let dataRequests = 0;
+let tokenCounter = 0;
+const tokenRequests = new Map<string, number>();
+
+const json = (body: unknown, init: ResponseInit = {}) =>
+  new Response(JSON.stringify(body), {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(init.headers || {}) },
+  });
+
+const issueToken = () => `${authFixture.data.token}-${++tokenCounter}`;
+
+// Returns an error response when the bearer token is missing or used up
+const checkToken = (req: Request): Response | null => {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token || !tokenRequests.has(token)) {
+    return json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const uses = tokenRequests.get(token)! + 1;
+  tokenRequests.set(token, uses);
+  if (tokenUses > 0 && uses > tokenUses) {
+    return json({ error: 'Token expired' }, { status: 401 });
+  }
+  return null;
+};
+
+const filterReadings = (url: URL) => {
+  const channelIds = (url.searchParams.get('channel_ids') || '').split(',').filter(Boolean);
+  const start = url.searchParams.get('start_date');
+  const end = url.searchParams.get('end_date');
+  const startMs = start ? new Date(start).getTime() : -Infinity;
+  const endMs = end ? new Date(end).getTime() : Infinity;
+
+  const readings: Record<string, RecordedReading[]> = {};
+  for (const channelId of channelIds) {
+    const recorded: RecordedReading[] = readingsFixture.data.readings[channelId] || [];
+    const inRange = recorded
+      .map((r) => ({ ...r, timestamp: new Date(new Date(r.timestamp).getTime() + shiftMs).toISOString() }))
+      .filter((r) => {
+        const time = new Date(r.timestamp).getTime();
+        return time >= startMs && time <= endMs;
+      });
+    if (inRange.length > 0) {
+      readings[channelId] = inRange;
+    }
+  }
+
+  // Mirror the real API, which returns an empty array when nothing matched
+  return Object.keys(readings).length > 0 ? readings : [];
+};
+
+Deno.serve({ port }, async (req) => {
+  const url = new URL(req.url);
+  console.log(`${req.method} ${url.pathname}${url.search}`);
+
+  if (req.method === 'POST' && url.pathname === '/authenticate') {
+    const form = new URLSearchParams(await req.text());
+    if (!form.get('email') || !form.get('password')) {
+      return json({ error: 'Missing credentials' }, { status: 400 });
+    }
+    const token = issueToken();
+    tokenRequests.set(token, 0);
+    return json({ data: { token } });
+  }
+
+  const tokenError = checkToken(req);
+  if (tokenError) return tokenError;
+
+  if (++dataRequests <= failFirst) {
+    return json({ error: 'Service unavailable' }, { status: 503 });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/config-packet') {
+    // The real API rotates the token on config requests
+    const refreshed = issueToken();
+    tokenRequests.set(refreshed, 0);
+    return json(configFixture, { headers: { 'X-Token': refreshed } });
+  }
+
+  if (req.method === 'GET' && /^\/project\/\d+\/readings\/v3\/channels$/.test(url.pathname)) {
+    return json({ data: { readings: filterReadings(url) } });
+  }
+
+  return json({ error: 'Not found' }, { status: 404 });
+});
+
+console.log(`Fake Stevens-Connect API listening on http://localhost:${port}`);
@@ -0,0 +1,17 @@
+import { StevensAdapter } from './stevens.ts';
+import { DataSourceAdapter } from './types.ts';
+
+export * from './types.ts';
+
+// Register further loggers and export formats here, keyed by the source_type stored on their stations
+const ADAPTER_FACTORIES: Record<string, () => DataSourceAdapter> = {
+  stevens: () => StevensAdapter.fromEnv(),
+};
+
+export const createAdapter = (sourceType: string): DataSourceAdapter => {
+  const factory = ADAPTER_FACTORIES[sourceType];
+  if (!factory) {
+    throw new Error(`No data source adapter registered for source type '${sourceType}'`);
+  }
+  return factory();
+};
@@ -0,0 +1,83 @@
+import { StevensClient, StevensReadingsByChannel, parseReadingsResponse } from '../stevens-client.ts';
+import { DataSourceAdapter, FetchedReadings, FetchedStations, SourceReadingsByChannel, SourceStation } from './types.ts';
+
+const toSourceReadings = (readings: StevensReadingsByChannel): SourceReadingsByChannel =>
+  Object.fromEntries(
+    Object.entries(readings).map(([channelId, channelReadings]) => [
+      channelId,
+      channelReadings.map(r => ({ measuredAt: r.timestamp ?? null, value: r.reading }))
+    ])
+  );
+
+// Stevens-Connect loggers. Stations come from the config packet; a station counts as active
+// when at least one of its sensors is, and only channels of active sensors are reported.
+export class StevensAdapter implements DataSourceAdapter {
+  readonly sourceType = 'stevens';
+
+  constructor(private readonly client: StevensClient) {}
+
+  static fromEnv(): StevensAdapter {
+    return new StevensAdapter(StevensClient.fromEnv());
+  }
+
+  async listStations(): Promise<FetchedStations> {
+    const configPacket = await this.client.getConfigPacket();
+    const rawPayload = this.client.lastRawResponse;
+
+    if (configPacket.projects.length === 0) {
+      throw new Error('No projects found in config packet');
+    }
+
+    const unitMap = new Map<number, string>(configPacket.units.map(u => [u.id, u.unit]));
+    const stations: SourceStation[] = [];
+
+    configPacket.projects.forEach(project => {
+      project.stations.forEach(station => {
+        const activeSensors = station.sensors.filter(sensor => sensor.status === 1);
+        if (activeSensors.length === 0) return;
+
+        stations.push({
+          externalId: String(station.id),
+          name: station.name,
+          code: station.code ?? null,
+          location: null,
+          projectId: project.id,
+          channels: activeSensors.flatMap(sensor =>
+            sensor.channels.map(channel => ({
+              externalId: String(channel.id),
+              name: channel.name,
+              sensorName: sensor.name,
+              unit: (channel.unit_id != null && unitMap.get(channel.unit_id)) || ''
+            }))
+          )
+        });
+      });
+    });
+
+    return { stations, rawPayload };
+  }
+
+  async fetchReadings(
+    station: SourceStation,
+    channelExternalIds: string[],
+    startDate: Date,
+    endDate: Date
+  ): Promise<FetchedReadings> {
+    if (station.projectId === null) {
+      throw new Error(`Stevens station ${station.externalId} has no project`);
+    }
+
+    const channelIds = channelExternalIds.map(id => parseInt(id));
+    const readings = await this.client.getReadings(station.projectId, channelIds, startDate, endDate);
+
+    return {
+      readings: toSourceReadings(readings),
+      rawPayload: this.client.lastRawResponse,
+      payloadMetadata: { projectId: station.projectId, channelIds: channelExternalIds, rangeStart: startDate, rangeEnd: endDate }
+    };
+  }
+
+  parseReadingsPayload(payload: unknown): SourceReadingsByChannel {
+    return toSourceReadings(parseReadingsResponse(payload));
+  }
+}
@@ -0,0 +1,57 @@
+import { RawPayloadMetadata } from '../raw-payloads.ts';
+
+// A channel as a data source reports it. External IDs are whatever the source uses to address
+// the channel, stored as text so sources with non-numeric identifiers fit the same columns.
+export interface SourceChannel {
+  externalId: string;
+  name: string;
+  sensorName: string;
+  unit: string;
+}
+
+// A station as a data source reports it, with the channels of its active sensors
+export interface SourceStation {
+  externalId: string;
+  name: string;
+  code: string | null;
+  location: string | null;
+  // Grouping the source files the station under (a Stevens project), if it has one
+  projectId: number | null;
+  channels: SourceChannel[];
+}
+
+// measuredAt and value are left null when the source sent no usable timestamp or value; such readings are skipped
+export interface SourceReading {
+  measuredAt: string | null;
+  value: number | null;
+}
+
+// Readings keyed by channel external ID
+export type SourceReadingsByChannel = Record<string, SourceReading[]>;
+
+export interface FetchedReadings {
+  readings: SourceReadingsByChannel;
+  // Response exactly as the source sent it, archived so the run can be reprocessed
+  rawPayload: unknown;
+  payloadMetadata: RawPayloadMetadata;
+}
+
+export interface FetchedStations {
+  stations: SourceStation[];
+  rawPayload: unknown;
+}
+
+// Everything ingestion needs from a logger network or export format.
+// Stations and channels are matched to stored rows by (source_type, external_id).
+export interface DataSourceAdapter {
+  readonly sourceType: string;
+  listStations(): Promise<FetchedStations>;
+  fetchReadings(
+    station: SourceStation,
+    channelExternalIds: string[],
+    startDate: Date,
+    endDate: Date
+  ): Promise<FetchedReadings>;
+  // Rebuild readings from an archived readings payload
+  parseReadingsPayload(payload: unknown): SourceReadingsByChannel;
+}
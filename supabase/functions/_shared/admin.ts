@@ -0,0 +1,100 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+
+// Admin operations are gated by the caller's Supabase Auth session and the roles in user_roles.
+// Roles are ordered: each one can do everything the roles before it can.
+export type AppRole = 'viewer' | 'technician' | 'data_manager';
+
+const ROLE_RANK: Record<AppRole, number> = { viewer: 1, technician: 2, data_manager: 3 };
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  viewer: 'viewer',
+  technician: 'technician',
+  data_manager: 'data manager',
+};
+
+export interface StaffMember {
+  id: string;
+  // Recorded against the member's changes
+  name: string;
+  roles: AppRole[];
+}
+
+// Response body of a successful admin action, as src/lib/edgeFunctions.ts reads it
+export interface AdminActionResult<T = unknown> {
+  success: boolean;
+  data: T;
+  error?: string;
+}
+
+// The signed-in staff member making the request, or null without a valid session.
+// `supabase` must use the service role so the member's roles can be read.
+export const authenticateStaff = async (supabase: SupabaseClient, req: Request): Promise<StaffMember | null> => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) return null;
+
+  const [{ data: roles, error: rolesError }, { data: profile }] = await Promise.all([
+    supabase.from('user_roles').select('role').eq('user_id', user.id),
+    supabase.from('profiles').select('display_name').eq('id', user.id).maybeSingle(),
+  ]);
+  if (rolesError) {
+    console.error('Error loading user roles:', rolesError);
+    throw rolesError;
+  }
+
+  return {
+    id: user.id,
+    name: profile?.display_name || user.email || user.id,
+    roles: (roles || []).map((row: { role: AppRole }) => row.role),
+  };
+};
+
+export const hasRole = (member: StaffMember, role: AppRole): boolean =>
+  member.roles.some(held => ROLE_RANK[held] >= ROLE_RANK[role]);
+
+export const notSignedInResponse = (corsHeaders: Record<string, string>) => {
+  console.error('Request without a valid session');
+  return new Response(
+    JSON.stringify({ error: 'Not signed in' }),
+    { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+};
+
+export const missingRoleResponse = (corsHeaders: Record<string, string>, member: StaffMember, role: AppRole) => {
+  console.error(`${member.name} lacks the ${role} role`);
+  return new Response(
+    JSON.stringify({ error: `This requires the ${ROLE_LABELS[role]} role` }),
+    { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+};
+
+// Large arrays are logged by their length rather than their contents
+const summarizeDetails = (details: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(details).map(([key, value]) =>
+      Array.isArray(value) && value.length > 20 ? [key, `${value.length} items`] : [key, value]
+    )
+  );
+
+// Attribute an admin change to the member who made it
+export const recordAuditEvent = async (
+  supabase: SupabaseClient,
+  member: StaffMember,
+  action: string,
+  recordId: string | null,
+  details: Record<string, unknown>
+) => {
+  const { error } = await supabase.from('admin_audit_log').insert({
+    user_id: member.id,
+    user_name: member.name,
+    action,
+    record_id: recordId,
+    details: summarizeDetails(details),
+  });
+  // The change itself has been made, so a failed log entry is reported rather than thrown
+  if (error) {
+    console.error('Error recording audit event:', error);
+  }
+};
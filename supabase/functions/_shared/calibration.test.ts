@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { applyCalibration, CalibrationModel, CalibrationOffset, CalibrationWindow, evaluateCalibration, validateCalibrationModel } from './calibration.ts';
+
+const WINDOW: CalibrationWindow = { valid_from: '2025-01-01T00:00:00Z', valid_until: '2025-01-11T00:00:00Z' };
+const MIDDLE = '2025-01-06T00:00:00Z';
+
+// An offset model of zero in WINDOW, with the given fields replaced
+const model = (overrides: Partial<CalibrationModel & CalibrationWindow> = {}): CalibrationModel & CalibrationWindow => ({
+  model_type: 'offset',
+  offset_value: 0,
+  gain: null,
+  coefficients: null,
+  lookup_points: null,
+  drift_start_error: null,
+  drift_end_error: null,
+  ...WINDOW,
+  ...overrides,
+});
+
+// Points given out of order, as they may be entered
+const LOOKUP_POINTS = [
+  { raw: 10, reference: 12 },
+  { raw: 0, reference: 1 },
+  { raw: 20, reference: 22 },
+];
+
+describe('evaluateCalibration', () => {
+  it('adds the offset', () => {
+    expect(evaluateCalibration(model({ offset_value: -0.5 }), 7, MIDDLE)).toBe(6.5);
+  });
+
+  it('applies gain then offset for a linear model', () => {
+    expect(evaluateCalibration(model({ model_type: 'linear', gain: 1.5, offset_value: -2 }), 10, MIDDLE)).toBe(13);
+  });
+
+  it('evaluates polynomial coefficients from the constant term up', () => {
+    const polynomial = model({ model_type: 'polynomial', coefficients: [1, 2, 0.5] });
+    expect(evaluateCalibration(polynomial, 4, MIDDLE)).toBe(1 + 2 * 4 + 0.5 * 16);
+    expect(evaluateCalibration(polynomial, 0, MIDDLE)).toBe(1);
+  });
+
+  describe('lookup', () => {
+    const lookup = model({ model_type: 'lookup', lookup_points: LOOKUP_POINTS });
+
+    it('returns the reference value at a calibration point', () => {
+      expect(evaluateCalibration(lookup, 0, MIDDLE)).toBe(1);
+      expect(evaluateCalibration(lookup, 10, MIDDLE)).toBe(12);
+      expect(evaluateCalibration(lookup, 20, MIDDLE)).toBe(22);
+    });
+
+    it('interpolates between the points either side', () => {
+      expect(evaluateCalibration(lookup, 5, MIDDLE)).toBeCloseTo(6.5, 10);
+      expect(evaluateCalibration(lookup, 15, MIDDLE)).toBeCloseTo(17, 10);
+    });
+
+    it('extends the end segments beyond the outermost points', () => {
+      expect(evaluateCalibration(lookup, -10, MIDDLE)).toBeCloseTo(-10, 10);
+      expect(evaluateCalibration(lookup, 30, MIDDLE)).toBeCloseTo(32, 10);
+    });
+  });
+
+  describe('drift', () => {
+    const drift = model({ model_type: 'drift', drift_start_error: 0.2, drift_end_error: 1.2 });
+
+    it('removes the error found at each end of the window', () => {
+      expect(evaluateCalibration(drift, 10, WINDOW.valid_from)).toBeCloseTo(9.8, 10);
+      expect(evaluateCalibration(drift, 10, WINDOW.valid_until!)).toBeCloseTo(8.8, 10);
+    });
+
+    it('ramps the correction linearly across the window', () => {
+      expect(evaluateCalibration(drift, 10, MIDDLE)).toBeCloseTo(9.3, 10);
+    });
+
+    it('holds the end corrections outside the window', () => {
+      expect(evaluateCalibration(drift, 10, '2024-12-25T00:00:00Z')).toBeCloseTo(9.8, 10);
+      expect(evaluateCalibration(drift, 10, '2025-02-01T00:00:00Z')).toBeCloseTo(8.8, 10);
+    });
+
+    it('uses the start error throughout an open-ended window', () => {
+      expect(evaluateCalibration({ ...drift, valid_until: null }, 10, MIDDLE)).toBeCloseTo(9.8, 10);
+    });
+  });
+});
+
+describe('validateCalibrationModel', () => {
+  it('accepts a complete model of each type', () => {
+    expect(validateCalibrationModel(model({ offset_value: 1 }))).toBeNull();
+    expect(validateCalibrationModel(model({ model_type: 'linear', gain: 2 }))).toBeNull();
+    expect(validateCalibrationModel(model({ model_type: 'polynomial', coefficients: [0, 1] }))).toBeNull();
+    expect(validateCalibrationModel(model({ model_type: 'lookup', lookup_points: LOOKUP_POINTS }))).toBeNull();
+    expect(validateCalibrationModel(model({ model_type: 'drift', drift_start_error: 0, drift_end_error: 1 }))).toBeNull();
+  });
+
+  it('rejects a zero gain', () => {
+    expect(validateCalibrationModel(model({ model_type: 'linear', gain: 0 }))).toBe('A non-zero gain is required');
+  });
+
+  it('rejects lookup points that cannot be interpolated between', () => {
+    expect(validateCalibrationModel(model({ model_type: 'lookup', lookup_points: [{ raw: 1, reference: 1 }] })))
+      .toBe('At least two calibration points are required');
+    expect(validateCalibrationModel(model({
+      model_type: 'lookup',
+      lookup_points: [{ raw: 1, reference: 1 }, { raw: 1, reference: 2 }],
+    }))).toBe('Calibration points need distinct raw values');
+  });
+});
+
+describe('applyCalibration', () => {
+  const offset: CalibrationOffset = { ...model({ offset_value: 2 }), id: 'offset', reason: 'Field check' };
+
+  it('corrects readings inside the validity period', () => {
+    expect(applyCalibration(5, MIDDLE, [offset])).toEqual({ value: 7, offset });
+  });
+
+  it('leaves readings outside every validity period raw', () => {
+    expect(applyCalibration(5, '2025-02-01T00:00:00Z', [offset])).toEqual({ value: 5, offset: null });
+  });
+});
@@ -0,0 +1,154 @@
+// Calibration models and their evaluator. This module has no imports so the web app can
+// use it as well (see src/lib/calibration.ts) and every correction is computed the same way.
+
+// offset: value + offset_value
+// linear: gain × value + offset_value
+// polynomial: coefficients[0] + coefficients[1] × value + coefficients[2] × value² ...
+// lookup: straight lines between (raw, reference) points measured against standards
+// drift: the error (sensor minus reference) found by field checks at valid_from and valid_until,
+//   removed with a correction that ramps linearly between the two across the deployment
+export type CalibrationModelType = 'offset' | 'linear' | 'polynomial' | 'lookup' | 'drift';
+
+export interface CalibrationPoint {
+  raw: number;
+  reference: number;
+}
+
+export interface CalibrationModel {
+  model_type: CalibrationModelType;
+  offset_value: number;
+  gain: number | null;
+  coefficients: number[] | null;
+  lookup_points: CalibrationPoint[] | null;
+  drift_start_error: number | null;
+  drift_end_error: number | null;
+}
+
+// The validity period a model is evaluated in, which a drift correction ramps across
+export interface CalibrationWindow {
+  valid_from: string;
+  valid_until: string | null;
+}
+
+export interface CalibrationOffset extends CalibrationModel, CalibrationWindow {
+  id: string;
+  reason: string;
+}
+
+export interface CalibratedValue {
+  value: number;
+  offset: CalibrationOffset | null;
+}
+
+export const CALIBRATION_MODEL_LABELS: Record<CalibrationModelType, string> = {
+  offset: 'Offset',
+  linear: 'Linear (gain + offset)',
+  polynomial: 'Polynomial',
+  lookup: 'Multi-point lookup',
+  drift: 'Drift correction',
+};
+
+// Why a model cannot be used, or null when it is complete
+export const validateCalibrationModel = (model: Partial<CalibrationModel>): string | null => {
+  switch (model.model_type ?? 'offset') {
+    case 'offset':
+      return Number.isFinite(model.offset_value) ? null : 'An offset value is required';
+    case 'linear':
+      if (!Number.isFinite(model.gain) || model.gain === 0) return 'A non-zero gain is required';
+      return Number.isFinite(model.offset_value ?? 0) ? null : 'The offset must be a number';
+    case 'polynomial':
+      if (!model.coefficients || model.coefficients.length === 0) return 'At least one coefficient is required';
+      return model.coefficients.every(Number.isFinite) ? null : 'Every coefficient must be a number';
+    case 'lookup': {
+      const points = model.lookup_points || [];
+      if (points.length < 2) return 'At least two calibration points are required';
+      if (!points.every(p => Number.isFinite(p.raw) && Number.isFinite(p.reference))) {
+        return 'Every calibration point needs a raw and a reference value';
+      }
+      return new Set(points.map(p => p.raw)).size === points.length ? null : 'Calibration points need distinct raw values';
+    }
+    case 'drift':
+      return Number.isFinite(model.drift_start_error) && Number.isFinite(model.drift_end_error)
+        ? null
+        : 'The errors found at the start and end checks are required';
+    default:
+      return `Unknown calibration model: ${model.model_type}`;
+  }
+};
+
+// Linear interpolation between the points either side of `value`; the end segments are extended beyond the outermost points
+const interpolate = (points: CalibrationPoint[], value: number) => {
+  const sorted = [...points].sort((a, b) => a.raw - b.raw);
+  let i = 1;
+  while (i < sorted.length - 1 && value > sorted[i].raw) i++;
+  const low = sorted[i - 1];
+  const high = sorted[i];
+  return low.reference + ((value - low.raw) * (high.reference - low.reference)) / (high.raw - low.raw);
+};
+
+// Fraction of the way through the window at `timestamp`, within 0 to 1
+const windowPosition = (window: CalibrationWindow, timestamp: string) => {
+  const start = new Date(window.valid_from).getTime();
+  const end = window.valid_until ? new Date(window.valid_until).getTime() : start;
+  if (end <= start) return 0;
+  return Math.min(Math.max((new Date(timestamp).getTime() - start) / (end - start), 0), 1);
+};
+
+// Corrected value of a raw reading taken at `timestamp` under a calibration model
+export const evaluateCalibration = (
+  model: CalibrationModel & CalibrationWindow,
+  value: number,
+  timestamp: string
+): number => {
+  switch (model.model_type) {
+    case 'linear':
+      return (model.gain ?? 1) * value + model.offset_value;
+    case 'polynomial':
+      // Horner's method, highest power first
+      return (model.coefficients || []).reduceRight((sum, coefficient) => sum * value + coefficient, 0);
+    case 'lookup':
+      return interpolate(model.lookup_points || [], value);
+    case 'drift': {
+      const startError = model.drift_start_error ?? 0;
+      const endError = model.drift_end_error ?? 0;
+      return value - (startError + (endError - startError) * windowPosition(model, timestamp));
+    }
+    default:
+      return value + model.offset_value;
+  }
+};
+
+// Short description of a model for labels, e.g. "+0.5" or "×1.02 − 3"
+export const describeCalibration = (model: CalibrationModel): string => {
+  const signed = (n: number) => `${n > 0 ? '+' : n < 0 ? '−' : '+'}${Math.abs(n)}`;
+  switch (model.model_type) {
+    case 'linear':
+      return model.offset_value !== 0 ? `×${model.gain} ${signed(model.offset_value)}` : `×${model.gain}`;
+    case 'polynomial':
+      return `Polynomial, degree ${Math.max((model.coefficients?.length || 1) - 1, 0)}`;
+    case 'lookup':
+      return `Lookup, ${model.lookup_points?.length || 0} points`;
+    case 'drift':
+      return `Drift, error ${signed(model.drift_start_error ?? 0)} → ${signed(model.drift_end_error ?? 0)}`;
+    default:
+      return signed(model.offset_value);
+  }
+};
+
+// Whether the validity period covers the given time; an open-ended period runs on indefinitely
+export const isWithinWindow = (window: CalibrationWindow, timestamp: string): boolean => {
+  const readingTime = new Date(timestamp);
+  const validFrom = new Date(window.valid_from);
+  const validUntil = window.valid_until ? new Date(window.valid_until) : null;
+  return readingTime >= validFrom && (!validUntil || readingTime <= validUntil);
+};
+
+// The offset whose validity period covers the given time, if any
+export const findActiveOffset = (offsets: CalibrationOffset[], timestamp: string): CalibrationOffset | null =>
+  offsets.find(offset => isWithinWindow(offset, timestamp)) || null;
+
+// Correct a raw reading with the channel's calibration records
+export const applyCalibration = (value: number, timestamp: string, offsets: CalibrationOffset[]): CalibratedValue => {
+  const offset = findActiveOffset(offsets, timestamp);
+  return { value: offset ? evaluateCalibration(offset, value, timestamp) : value, offset };
+};
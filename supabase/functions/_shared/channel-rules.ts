@@ -0,0 +1,52 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+
+export type ChannelVisibility = 'public' | 'internal';
+
+export interface ChannelIngestRule {
+  sensor_name: string;
+  channel_name: string | null;
+  ingest: boolean;
+  visibility: ChannelVisibility;
+}
+
+export interface ChannelDecision {
+  ingest: boolean;
+  visibility: ChannelVisibility;
+}
+
+// A station nobody has configured yet is ingested in full but kept off the public dashboard
+const UNCONFIGURED_STATION: ChannelDecision = { ingest: true, visibility: 'internal' };
+
+// Once a station has rules, channels none of them mention are skipped
+const UNMATCHED_CHANNEL: ChannelDecision = { ingest: false, visibility: 'internal' };
+
+const normalizeName = (name: string | null | undefined) => (name || '').trim().toLowerCase();
+
+// Decide whether a channel is ingested and who can see it.
+// A rule naming the channel wins over a sensor-wide rule (channel_name NULL).
+export const resolveChannelRule = (
+  rules: ChannelIngestRule[],
+  sensorName: string | null,
+  channelName: string
+): ChannelDecision => {
+  if (rules.length === 0) return UNCONFIGURED_STATION;
+
+  const sensorRules = rules.filter(rule => normalizeName(rule.sensor_name) === normalizeName(sensorName));
+  const rule = sensorRules.find(r => r.channel_name !== null && normalizeName(r.channel_name) === normalizeName(channelName))
+    || sensorRules.find(r => r.channel_name === null);
+
+  return rule ? { ingest: rule.ingest, visibility: rule.visibility } : UNMATCHED_CHANNEL;
+};
+
+export const getChannelRules = async (supabase: SupabaseClient, stationId: string): Promise<ChannelIngestRule[]> => {
+  const { data, error } = await supabase
+    .from('channel_ingest_rules')
+    .select('sensor_name, channel_name, ingest, visibility')
+    .eq('station_id', stationId);
+
+  if (error) {
+    throw new Error(`Failed to load channel rules: ${error.message}`);
+  }
+
+  return data || [];
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { checkConsistency, ConsistencyChannel, oxygenSolubility } from './consistency.ts';
+
+const START = Date.UTC(2025, 0, 1);
+
+const channel = (id: string, name: string, unit: string, values: number[]): ConsistencyChannel => ({
+  id,
+  name,
+  unit,
+  readings: values.map((value, i) => ({ measuredAt: new Date(START + i * 15 * 60 * 1000), value })),
+});
+
+// A sonde at about 1,500 m reporting fully saturated water, compensated for the local pressure
+const TEMPERATURE = 20;
+const LOCAL_PRESSURE_MMHG = 640;
+const localDoConcentration = oxygenSolubility(TEMPERATURE) * LOCAL_PRESSURE_MMHG / 760;
+
+const doChannels = [
+  channel('temp', 'Temperature', '°C', [TEMPERATURE, TEMPERATURE, TEMPERATURE]),
+  channel('do', 'Dissolved Oxygen', 'mg/L', [localDoConcentration, localDoConcentration, localDoConcentration]),
+  channel('do-sat', 'DO Saturation', '%', [100, 100, 100]),
+];
+
+describe('checkConsistency', () => {
+  it('does not check DO saturation without a pressure channel', () => {
+    expect(checkConsistency(doChannels).find(result => result.channelId === 'do-sat')).toBeUndefined();
+  });
+
+  it('checks DO saturation against the measured pressure', () => {
+    const pressure = channel('bp', 'Barometric Pressure', 'mmHg', [LOCAL_PRESSURE_MMHG, LOCAL_PRESSURE_MMHG, LOCAL_PRESSURE_MMHG]);
+    const result = checkConsistency([...doChannels, pressure]).find(r => r.channelId === 'do-sat');
+    expect(result).toMatchObject({ compared: 3, disagreeing: 0, isConsistent: true });
+    expect(result!.medianDeviation).toBeCloseTo(0, 6);
+  });
+});
@@ -0,0 +1,287 @@
+// Cross-parameter consistency checks. The sonde derives several channels from others, so a
+// derived channel is recomputed from its inputs and compared with what the sonde reported.
+// Channels are recognised by name and unit since sensor_channels does not record the parameter.
+import { NEIGHBOR_MAX_OFFSET_MINUTES, QcReading } from './qc.ts';
+
+export type ConsistencyParameter =
+  | 'temperature'
+  | 'conductivity'
+  | 'specific_conductivity'
+  | 'salinity'
+  | 'tds'
+  | 'resistivity'
+  | 'do_concentration'
+  | 'do_saturation'
+  | 'barometric_pressure';
+
+export interface ConsistencyChannel {
+  id: string;
+  name: string;
+  unit: string;
+  readings: QcReading[];
+}
+
+export interface ConsistencyResult {
+  channelId: string;
+  check: string;
+  compared: number;
+  disagreeing: number;
+  // Median of reported minus expected, in the channel's own unit
+  medianDeviation: number;
+  isConsistent: boolean;
+}
+
+// Share of compared readings that may disagree before the channel is reported as inconsistent
+const INCONSISTENT_FRACTION = 0.5;
+
+// Linear temperature compensation of conductivity to 25 °C, per °C
+const CONDUCTIVITY_TEMPERATURE_COEFFICIENT = 0.0191;
+
+// TDS as a fraction of specific conductance (mg/L per µS/cm)
+const TDS_FACTOR = 0.65;
+
+// Conductivity of standard seawater (salinity 35) at 25 °C, mS/cm
+const SEAWATER_CONDUCTIVITY_25C = 53.087;
+
+// Pressure oxygen solubility is given at; saturation scales it to the station's measured pressure
+const STANDARD_PRESSURE_MMHG = 760;
+
+const MINUTE_MS = 60 * 1000;
+
+// Convert a reported value to the canonical unit of its parameter, or null when the unit is not understood.
+// Canonical units: °C, µS/cm, PSU, mg/L, Ω·cm, % saturation and mmHg.
+const toCanonical = (parameter: ConsistencyParameter, unit: string): ((value: number) => number) | null => {
+  const u = unit.toLowerCase().replace(/\s/g, '');
+  switch (parameter) {
+    case 'temperature':
+      if (/f$/.test(u)) return v => (v - 32) * 5 / 9;
+      if (/c$/.test(u)) return v => v;
+      return null;
+    case 'conductivity':
+    case 'specific_conductivity':
+      if (/^ms\/cm/.test(u)) return v => v * 1000;
+      if (/^(µ|μ|u)s\/cm/.test(u)) return v => v;
+      return null;
+    case 'salinity':
+      return /psu|ppt|‰/.test(u) || u === '' ? v => v : null;
+    case 'tds':
+      if (/^(g\/l|ppt)$/.test(u)) return v => v * 1000;
+      if (/^(mg\/l|ppm)$/.test(u)) return v => v;
+      return null;
+    case 'resistivity':
+      if (/^(k|kilo)(Ω|ω|ohm)/.test(u)) return v => v * 1000;
+      if (/^(Ω|ω|ohm)/.test(u)) return v => v;
+      return null;
+    case 'do_concentration':
+      return /^(mg\/l|ppm)$/.test(u) ? v => v : null;
+    case 'do_saturation':
+      return u.includes('%') ? v => v : null;
+    case 'barometric_pressure':
+      if (u === 'mmhg') return v => v;
+      if (/^(mbar|hpa)$/.test(u)) return v => v * 0.750062;
+      if (u === 'kpa') return v => v * 7.50062;
+      if (u === 'inhg') return v => v * 25.4;
+      return null;
+  }
+};
+
+// A difference in canonical units expressed in the channel's unit; every conversion is linear
+const toUnitDifference = (parameter: ConsistencyParameter, unit: string, difference: number) => {
+  const convert = toCanonical(parameter, unit)!;
+  return difference / (convert(1) - convert(0));
+};
+
+// Which parameter a channel reports, from its name and unit
+export const identifyParameter = (name: string, unit: string): ConsistencyParameter | null => {
+  const label = name.replace(/_/g, ' ');
+  let parameter: ConsistencyParameter | null = null;
+  if (/specific\s*cond|\bsp\.?\s*cond|\bsc\b/i.test(label)) parameter = 'specific_conductivity';
+  else if (/conductivity|\bcond\b/i.test(label)) parameter = 'conductivity';
+  else if (/salinity/i.test(label)) parameter = 'salinity';
+  else if (/\btds\b|total dissolved/i.test(label)) parameter = 'tds';
+  else if (/resistivity/i.test(label)) parameter = 'resistivity';
+  else if (/\bdo\b|dissolved\s*oxygen|dissolvedoxygen/i.test(label)) {
+    parameter = unit.includes('%') || /\bsat/i.test(label) ? 'do_saturation' : 'do_concentration';
+  }
+  else if (/barometric|\bbp\b/i.test(label)) parameter = 'barometric_pressure';
+  else if (/\btemp/i.test(label)) parameter = 'temperature';
+
+  return parameter && toCanonical(parameter, unit) ? parameter : null;
+};
+
+// Practical salinity (PSS-78, with the Hill et al. extension below 2) from specific conductance at 25 °C
+export const salinityFromSpecificConductance = (specificConductance: number) => {
+  const t = 25;
+  const rt = specificConductance / 1000 / SEAWATER_CONDUCTIVITY_25C;
+  if (rt <= 0) return 0;
+
+  const a = [0.0080, -0.1692, 25.3851, 14.0941, -7.0261, 2.7081];
+  const b = [0.0005, -0.0056, -0.0066, -0.0375, 0.0636, -0.0144];
+  const f = (t - 15) / (1 + 0.0162 * (t - 15));
+  const root = Math.sqrt(rt);
+  let salinity = 0;
+  for (let i = 0; i < 6; i++) {
+    salinity += (a[i] + f * b[i]) * Math.pow(root, i);
+  }
+  if (salinity >= 2) return salinity;
+
+  const x = 400 * rt;
+  const y = 100 * rt;
+  return salinity - a[0] / (1 + 1.5 * x + x * x) - (b[0] * f) / (1 + Math.sqrt(y) + Math.pow(y, 1.5));
+};
+
+// Oxygen solubility in fresh water at 760 mmHg (Benson and Krause), mg/L
+export const oxygenSolubility = (temperature: number) => {
+  const k = temperature + 273.15;
+  return Math.exp(
+    -139.34411 + 1.575701e5 / k - 6.642308e7 / k ** 2 + 1.2438e10 / k ** 3 - 8.621949e11 / k ** 4
+  );
+};
+
+interface Relation {
+  target: ConsistencyParameter;
+  inputs: ConsistencyParameter[];
+  check: string;
+  expected: (values: Partial<Record<ConsistencyParameter, number>>) => number;
+  relativeTolerance: number;
+  absoluteTolerance: number;
+}
+
+const RELATIONS: Relation[] = [
+  {
+    target: 'specific_conductivity',
+    inputs: ['conductivity', 'temperature'],
+    check: 'Specific conductivity from conductivity and temperature',
+    expected: v => v.conductivity! / (1 + CONDUCTIVITY_TEMPERATURE_COEFFICIENT * (v.temperature! - 25)),
+    relativeTolerance: 0.05,
+    absoluteTolerance: 5,
+  },
+  {
+    target: 'tds',
+    inputs: ['specific_conductivity'],
+    check: 'TDS from specific conductivity',
+    expected: v => v.specific_conductivity! * TDS_FACTOR,
+    relativeTolerance: 0.1,
+    absoluteTolerance: 5,
+  },
+  {
+    target: 'salinity',
+    inputs: ['specific_conductivity'],
+    check: 'Salinity from specific conductivity',
+    expected: v => salinityFromSpecificConductance(v.specific_conductivity!),
+    relativeTolerance: 0.1,
+    absoluteTolerance: 0.02,
+  },
+  {
+    target: 'resistivity',
+    inputs: ['specific_conductivity'],
+    check: 'Resistivity from specific conductivity',
+    expected: v => 1e6 / v.specific_conductivity!,
+    relativeTolerance: 0.05,
+    absoluteTolerance: 0,
+  },
+  {
+    target: 'do_saturation',
+    // Sondes compensate saturation for the local pressure, which at an upland site such as the
+    // Mara is far below sea level, so the check only runs where the station measures pressure
+    inputs: ['do_concentration', 'temperature', 'barometric_pressure'],
+    check: 'DO saturation from DO concentration, temperature and pressure',
+    expected: v =>
+      (v.do_concentration! / (oxygenSolubility(v.temperature!) * v.barometric_pressure! / STANDARD_PRESSURE_MMHG)) * 100,
+    relativeTolerance: 0.05,
+    absoluteTolerance: 3,
+  },
+];
+
+// Value of the reading nearest `time`, or undefined when none is close enough to compare
+const nearestValue = (readings: QcReading[], time: number): number | undefined => {
+  let low = 0;
+  let high = readings.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (readings[mid].measuredAt.getTime() < time) low = mid + 1;
+    else high = mid;
+  }
+  const candidates = [readings[low - 1], readings[low]].filter(Boolean);
+  const nearest = candidates.sort(
+    (a, b) => Math.abs(a.measuredAt.getTime() - time) - Math.abs(b.measuredAt.getTime() - time)
+  )[0];
+  if (!nearest || Math.abs(nearest.measuredAt.getTime() - time) > NEIGHBOR_MAX_OFFSET_MINUTES * MINUTE_MS) {
+    return undefined;
+  }
+  return nearest.value;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Run every relation whose channels a station has. channels should hold only channels that pass
+// their own QC so a broken input is not blamed on the channel derived from it; readings in time order.
+// Where a station has more than one channel for a parameter the first is used.
+export const checkConsistency = (channels: ConsistencyChannel[]): ConsistencyResult[] => {
+  const byParameter = new Map<ConsistencyParameter, { channel: ConsistencyChannel; readings: QcReading[] }>();
+  channels.forEach(channel => {
+    const parameter = identifyParameter(channel.name, channel.unit);
+    if (!parameter || byParameter.has(parameter)) return;
+    const convert = toCanonical(parameter, channel.unit)!;
+    byParameter.set(parameter, {
+      channel,
+      readings: channel.readings.map(r => ({ measuredAt: r.measuredAt, value: convert(r.value) })),
+    });
+  });
+
+  const results: ConsistencyResult[] = [];
+  RELATIONS.forEach(relation => {
+    const target = byParameter.get(relation.target);
+    if (!target || relation.inputs.some(input => !byParameter.has(input))) return;
+
+    const deviations: number[] = [];
+    let disagreeing = 0;
+    target.readings.forEach(reading => {
+      const time = reading.measuredAt.getTime();
+      const values: Partial<Record<ConsistencyParameter, number>> = {};
+      for (const input of relation.inputs) {
+        const value = nearestValue(byParameter.get(input)!.readings, time);
+        if (value === undefined) return;
+        values[input] = value;
+      }
+
+      const expected = relation.expected(values);
+      if (!Number.isFinite(expected)) return;
+      const deviation = reading.value - expected;
+      deviations.push(deviation);
+      if (Math.abs(deviation) > Math.max(relation.absoluteTolerance, relation.relativeTolerance * Math.abs(expected))) {
+        disagreeing++;
+      }
+    });
+
+    if (deviations.length === 0) return;
+    results.push({
+      channelId: target.channel.id,
+      check: relation.check,
+      compared: deviations.length,
+      disagreeing,
+      medianDeviation: toUnitDifference(relation.target, target.channel.unit, median(deviations)),
+      isConsistent: disagreeing / deviations.length <= INCONSISTENT_FRACTION,
+    });
+  });
+  return results;
+};
+
+// Health verdict for a channel from its consistency results, in the form assessChannelHealth returns
+export const assessConsistency = (
+  results: ConsistencyResult[],
+  unit: string
+): { isValid: boolean; reason?: string } => {
+  const failed = results.find(result => !result.isConsistent);
+  if (!failed) return { isValid: true };
+
+  const deviation = `${failed.medianDeviation > 0 ? '+' : ''}${failed.medianDeviation.toPrecision(3)} ${unit}`.trimEnd();
+  return {
+    isValid: false,
+    reason: `Inconsistent with related sensors: ${failed.check} disagrees for ${failed.disagreeing} of ${failed.compared} readings (typically ${deviation})`,
+  };
+};
@@ -0,0 +1,182 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { applyCalibration, CalibrationOffset, describeCalibration } from './calibration.ts';
+import { assessChannelHealth, QcReading, QcSummary, runQc } from './qc.ts';
+import { loadQcRules } from './qc-store.ts';
+import { DataGap, loadCompleteness, loadDataGaps } from './gaps.ts';
+import { assessConsistency, checkConsistency, ConsistencyResult } from './consistency.ts';
+
+// Period shown on the dashboard charts, matching the readings get_dashboard_data returns
+const DASHBOARD_DAYS = 7;
+
+export interface DashboardReading {
+  timestamp: string;
+  value: number;
+}
+
+export interface DashboardSensor {
+  id: string;
+  name: string;
+  unit: string;
+  category: string;
+  currentValue: number;
+  currentTimestamp: string;
+  rawCurrentValue: number;
+  // The correction applied to the current value; description summarises its model, e.g. "×1.02 + 3"
+  calibration: { offset_value: number; model_type: string; description: string; reason: string } | null;
+  qc: QcSummary;
+  health: { isValid: boolean; reason?: string };
+  // Checks of this channel against the related channels it is derived from
+  consistency: ConsistencyResult[];
+  // Percentage of expected readings received over the shown period, null when the interval is unknown
+  completeness: number | null;
+  gaps: DataGap[];
+  readings: DashboardReading[];
+}
+
+// A channel as get_dashboard_data returns it, with raw values
+interface DashboardRow {
+  channelId: string;
+  name: string;
+  unit: string | null;
+  category: string;
+  value: number;
+  measuredAt: string | null;
+  chartData: { date: string; value: number }[];
+  offsets: CalibrationOffset[];
+}
+
+export interface DashboardData {
+  station: {
+    id: string;
+    sourceType: string;
+    externalId: string;
+    name: string;
+    code: string | null;
+    location: string | null;
+  } | null;
+  sensors: DashboardSensor[];
+  analysis: string | null;
+  language: string;
+  analysisTimestamp: string | null;
+  timestamp: string;
+}
+
+// get_dashboard_data raises no_data_found for a station id that matches no station
+const UNKNOWN_STATION_CODE = 'P0002';
+
+export class UnknownStationError extends Error {
+  constructor(readonly sourceType: string, readonly externalId: string) {
+    super(`Unknown station: ${sourceType} ${externalId}`);
+    this.name = 'UnknownStationError';
+  }
+}
+
+// Load the public dashboard for a station with calibration applied to every value
+// and each channel's recent readings run through its QC tests, checked for gaps and
+// compared with the related channels it is derived from
+export const loadDashboard = async (
+  supabase: SupabaseClient,
+  language: string,
+  sourceType: string,
+  externalId: string | null
+): Promise<DashboardData> => {
+  const { data, error } = await supabase.rpc('get_dashboard_data', {
+    p_language: language,
+    p_source_type: sourceType,
+    p_external_id: externalId
+  });
+
+  if (error?.code === UNKNOWN_STATION_CODE && externalId !== null) {
+    throw new UnknownStationError(sourceType, externalId);
+  }
+  if (error) {
+    throw new Error(`Failed to load dashboard data: ${error.message}`);
+  }
+
+  // Channels without any stored reading have nothing to show yet
+  const rows: DashboardRow[] = data.sensors || [];
+  const storedSensors = rows.filter((sensor): sensor is DashboardRow & { measuredAt: string } => sensor.measuredAt !== null);
+  const channelIds = storedSensors.map(sensor => sensor.channelId);
+  const periodEnd = new Date();
+  const periodStart = new Date(periodEnd.getTime() - DASHBOARD_DAYS * 24 * 60 * 60 * 1000);
+  const [qcRules, gaps, completeness] = await Promise.all([
+    loadQcRules(supabase, channelIds),
+    loadDataGaps(supabase, channelIds, periodStart, periodEnd),
+    loadCompleteness(supabase, channelIds, periodStart, periodEnd)
+  ]);
+
+  const calibrated = storedSensors.map(sensor => {
+    const offsets = sensor.offsets || [];
+    return {
+      sensor,
+      current: applyCalibration(sensor.value, sensor.measuredAt, offsets),
+      readings: (sensor.chartData || []).map(point => ({
+        timestamp: point.date,
+        value: applyCalibration(point.value, point.date, offsets).value
+      })) as DashboardReading[]
+    };
+  });
+
+  const toQcReadings = (readings: DashboardReading[]): QcReading[] =>
+    readings.map(r => ({ measuredAt: new Date(r.timestamp), value: r.value }));
+  const readingsByChannel = new Map<string, DashboardReading[]>(
+    calibrated.map((c): [string, DashboardReading[]] => [c.sensor.channelId, c.readings])
+  );
+
+  const checked = calibrated.map(({ sensor, current, readings }) => {
+    // The shown week is judged on its own; a neighbour is only compared when it is on the dashboard too
+    const rule = qcRules.get(sensor.channelId);
+    const neighbor = rule?.neighbor_channel_id ? readingsByChannel.get(rule.neighbor_channel_id) : undefined;
+    const { summary } = runQc(rule, toQcReadings(readings), { neighbor: neighbor && toQcReadings(neighbor) });
+    return { sensor, current, readings, summary, health: assessChannelHealth(summary) };
+  });
+
+  // Only channels passing their own QC take part, so a failed input is not blamed on what is derived from it
+  const consistency = checkConsistency(
+    checked
+      .filter(c => c.health.isValid)
+      .map(c => ({
+        id: c.sensor.channelId,
+        name: c.sensor.name,
+        unit: c.sensor.unit || '',
+        readings: toQcReadings(c.readings)
+      }))
+  );
+
+  const sensors: DashboardSensor[] = checked.map(({ sensor, current, readings, summary, health }) => {
+    const channelConsistency = consistency.filter(result => result.channelId === sensor.channelId);
+
+    return {
+      id: sensor.channelId,
+      name: sensor.name,
+      unit: sensor.unit || '',
+      category: sensor.category,
+      currentValue: current.value,
+      currentTimestamp: sensor.measuredAt,
+      rawCurrentValue: sensor.value,
+      calibration: current.offset
+        ? {
+          offset_value: current.offset.offset_value,
+          model_type: current.offset.model_type,
+          description: describeCalibration(current.offset),
+          reason: current.offset.reason
+        }
+        : null,
+      qc: summary,
+      health: health.isValid ? assessConsistency(channelConsistency, sensor.unit || '') : health,
+      consistency: channelConsistency,
+      completeness: completeness.get(sensor.channelId)?.completeness_percent ?? null,
+      gaps: gaps.get(sensor.channelId) || [],
+      readings
+    };
+  });
+
+  return {
+    station: data.station,
+    sensors,
+    analysis: data.analysis,
+    language: data.language,
+    analysisTimestamp: data.analysisTimestamp,
+    timestamp: data.timestamp
+  };
+};
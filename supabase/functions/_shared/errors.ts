@@ -0,0 +1,9 @@
+// Message of a caught error. Supabase query errors are plain objects with a message rather than
+// Error instances, and some handlers rethrow them as they are.
+export const errorMessage = (error: unknown): string => {
+  if (error instanceof Error) return error.message || 'Unknown error';
+  if (typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string') {
+    return error.message;
+  }
+  return 'Unknown error';
+};
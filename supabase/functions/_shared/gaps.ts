@@ -0,0 +1,69 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+
+export interface DataGap {
+  start: string;
+  end: string;
+  durationMinutes: number;
+}
+
+export interface ChannelCompleteness {
+  channel_id: string;
+  expected_interval_minutes: number | null;
+  expected_readings: number | null;
+  received_readings: number;
+  completeness_percent: number | null;
+  gap_count: number;
+  gap_minutes: number;
+  longest_gap_minutes: number | null;
+}
+
+// Stored gaps overlapping [from, to] for the given channels, oldest first, keyed by channel ID
+export const loadDataGaps = async (
+  supabase: SupabaseClient,
+  channelIds: string[],
+  from: Date,
+  to: Date
+): Promise<Map<string, DataGap[]>> => {
+  const gaps = new Map<string, DataGap[]>();
+  if (channelIds.length === 0) return gaps;
+
+  const { data, error } = await supabase
+    .from('channel_data_gaps')
+    .select('channel_id, gap_start, gap_end, duration_minutes')
+    .in('channel_id', channelIds)
+    .lt('gap_start', to.toISOString())
+    .gt('gap_end', from.toISOString())
+    .order('gap_start', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load data gaps: ${error.message}`);
+  }
+
+  (data || []).forEach((gap: { channel_id: string; gap_start: string; gap_end: string; duration_minutes: number }) => {
+    const channelGaps = gaps.get(gap.channel_id) || [];
+    channelGaps.push({ start: gap.gap_start, end: gap.gap_end, durationMinutes: Number(gap.duration_minutes) });
+    gaps.set(gap.channel_id, channelGaps);
+  });
+  return gaps;
+};
+
+// Share of expected readings received over [from, to) for the given channels, keyed by channel ID
+export const loadCompleteness = async (
+  supabase: SupabaseClient,
+  channelIds: string[],
+  from: Date,
+  to: Date
+): Promise<Map<string, ChannelCompleteness>> => {
+  if (channelIds.length === 0) return new Map();
+
+  const { data, error } = await supabase.rpc('get_channel_completeness', {
+    p_channel_ids: channelIds,
+    p_from: from.toISOString(),
+    p_to: to.toISOString()
+  });
+
+  if (error) {
+    throw new Error(`Failed to load data completeness: ${error.message}`);
+  }
+  return new Map((data || []).map((row: ChannelCompleteness) => [row.channel_id, row]));
+};
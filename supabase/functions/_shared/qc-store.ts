@@ -0,0 +1,170 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import {
+  NEIGHBOR_MAX_OFFSET_MINUTES,
+  QcReading,
+  QcRule,
+  QcSummary,
+  qcContextMinutes,
+  QualityFlag,
+  runQc,
+  summarizeFlags
+} from './qc.ts';
+
+const PAGE_SIZE = 1000;
+// Reading IDs per update, keeping the filter within URL length limits
+const UPDATE_BATCH_SIZE = 200;
+const MINUTE_MS = 60 * 1000;
+
+// Flags only an operator or a gap filler sets, which re-running the tests must leave alone
+export const PRESERVED_FLAGS: QualityFlag[] = ['manual', 'gap_fill'];
+
+const QC_RULE_COLUMNS =
+  'channel_id, min_value, max_value, max_rate_of_change, flatline_minutes, flatline_tolerance, ' +
+  'spike_mad_threshold, spike_window_minutes, neighbor_channel_id, max_neighbor_difference';
+
+// QC rules for the given channels, keyed by channel ID. Channels without a rule are not checked.
+export const loadQcRules = async (supabase: SupabaseClient, channelIds: string[]): Promise<Map<string, QcRule>> => {
+  if (channelIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('channel_qc_rules')
+    .select(QC_RULE_COLUMNS)
+    .in('channel_id', channelIds)
+    .overrideTypes<QcRule[], { merge: false }>();
+
+  if (error) {
+    throw new Error(`Failed to load QC rules: ${error.message}`);
+  }
+  return new Map((data || []).map(rule => [rule.channel_id, rule]));
+};
+
+interface StoredReading extends QcReading {
+  id: string;
+  qualityFlag: QualityFlag;
+}
+
+// Every reading of a channel in [from, to) that has not been excluded, oldest first, paged past the API row limit
+export const loadChannelReadings = async (
+  supabase: SupabaseClient,
+  channelId: string,
+  from: Date,
+  to: Date
+): Promise<StoredReading[]> => {
+  const readings: StoredReading[] = [];
+
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('sensor_readings')
+      .select('id, measured_at, value, quality_flag')
+      .eq('channel_id', channelId)
+      .is('excluded_at', null)
+      .gte('measured_at', from.toISOString())
+      .lt('measured_at', to.toISOString())
+      .order('measured_at', { ascending: true })
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load readings for QC: ${error.message}`);
+    }
+
+    (data || []).forEach((r: { id: string; measured_at: string; value: number; quality_flag: QualityFlag }) => readings.push({
+      id: r.id,
+      measuredAt: new Date(r.measured_at),
+      value: r.value,
+      qualityFlag: r.quality_flag
+    }));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return readings;
+};
+
+// Neighbour channel readings covering [from, to] with enough margin to pair the readings at either end
+export const loadNeighborReadings = async (
+  supabase: SupabaseClient,
+  rule: QcRule | undefined,
+  from: Date,
+  to: Date
+): Promise<QcReading[]> => {
+  if (!rule?.neighbor_channel_id || rule.max_neighbor_difference === null) return [];
+  return loadChannelReadings(
+    supabase,
+    rule.neighbor_channel_id,
+    new Date(from.getTime() - NEIGHBOR_MAX_OFFSET_MINUTES * MINUTE_MS),
+    new Date(to.getTime() + NEIGHBOR_MAX_OFFSET_MINUTES * MINUTE_MS)
+  );
+};
+
+export interface ChannelQcResult {
+  channelId: string;
+  summary: QcSummary;
+  changed: number;
+}
+
+// Re-run the channel's tests over [start, end) and store every flag that changed
+export const recheckChannel = async (
+  supabase: SupabaseClient,
+  channelId: string,
+  rule: QcRule | undefined,
+  start: Date,
+  end: Date
+): Promise<ChannelQcResult> => {
+  const contextStart = new Date(start.getTime() - qcContextMinutes(rule) * MINUTE_MS);
+  const stored = await loadChannelReadings(supabase, channelId, contextStart, end);
+  const preceding = stored.filter(r => r.measuredAt < start);
+  const readings = stored.filter(r => r.measuredAt >= start);
+  const neighbor = await loadNeighborReadings(supabase, rule, start, end);
+
+  const { flags } = runQc(rule, readings, { preceding, neighbor });
+  const finalFlags = readings.map((r, i) => (PRESERVED_FLAGS.includes(r.qualityFlag) ? r.qualityFlag : flags[i]));
+
+  // Group the changed readings by their new flag so each flag is one update per batch of IDs
+  const changedByFlag = new Map<QualityFlag, string[]>();
+  readings.forEach((r, i) => {
+    if (finalFlags[i] === r.qualityFlag) return;
+    const ids = changedByFlag.get(finalFlags[i]) || [];
+    ids.push(r.id);
+    changedByFlag.set(finalFlags[i], ids);
+  });
+
+  let changed = 0;
+  for (const [flag, ids] of changedByFlag) {
+    for (let i = 0; i < ids.length; i += UPDATE_BATCH_SIZE) {
+      const batch = ids.slice(i, i + UPDATE_BATCH_SIZE);
+      const { error } = await supabase
+        .from('sensor_readings')
+        .update({ quality_flag: flag })
+        .in('id', batch);
+
+      if (error) {
+        throw new Error(`Failed to update quality flags: ${error.message}`);
+      }
+      changed += batch.length;
+    }
+  }
+
+  return { channelId, summary: summarizeFlags(finalFlags), changed };
+};
+
+// Re-check the channels that have a rule after readings in [start, end) were added or replaced.
+// Readings on either side whose tests look into the window are re-checked too.
+export const runQcForChannels = async (
+  supabase: SupabaseClient,
+  channelIds: string[],
+  start: Date,
+  end: Date
+): Promise<ChannelQcResult[]> => {
+  const rules = await loadQcRules(supabase, channelIds);
+  const results: ChannelQcResult[] = [];
+  for (const [channelId, rule] of rules) {
+    const marginMs = qcContextMinutes(rule) * MINUTE_MS;
+    results.push(await recheckChannel(
+      supabase,
+      channelId,
+      rule,
+      new Date(start.getTime() - marginMs),
+      new Date(end.getTime() + marginMs)
+    ));
+  }
+  return results;
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { flatlineTest, madSpikeTest, neighborTest, QcReading, QcRule, rateOfChangeTest, runQc } from './qc.ts';
+
+const START = Date.UTC(2025, 0, 1);
+
+// Synthetic readings at a fixed interval, starting `offsetMinutes` after START
+const series = (values: number[], stepMinutes = 15, offsetMinutes = 0): QcReading[] =>
+  values.map((value, i) => ({ measuredAt: new Date(START + (offsetMinutes + i * stepMinutes) * 60 * 1000), value }));
+
+// A rule with every test disabled
+const rule = (overrides: Partial<QcRule> = {}): QcRule => ({
+  channel_id: 'channel',
+  min_value: null,
+  max_value: null,
+  max_rate_of_change: null,
+  flatline_minutes: null,
+  flatline_tolerance: 0,
+  spike_mad_threshold: null,
+  spike_window_minutes: null,
+  neighbor_channel_id: null,
+  max_neighbor_difference: null,
+  ...overrides,
+});
+
+// Noisy readings around 10 with a single spike at index 6
+const NOISY_WITH_SPIKE = [10, 10.1, 9.9, 10.2, 9.8, 10, 25, 10.1, 9.9, 10, 10.2, 9.8];
+
+describe('madSpikeTest', () => {
+  it('flags only the reading far from the median of its window', () => {
+    const flags = madSpikeTest(series(NOISY_WITH_SPIKE), 3, 180);
+    expect(flags).toEqual(NOISY_WITH_SPIKE.map((_, i) => i === 6));
+  });
+
+  it('skips windows whose MAD is zero', () => {
+    expect(madSpikeTest(series([5, 5, 5, 5, 5, 9, 5, 5, 5, 5]), 3, 180)).toEqual(Array(10).fill(false));
+  });
+
+  it('needs at least four neighbours to judge a reading', () => {
+    expect(madSpikeTest(series([10, 10.1, 30, 9.9]), 3, 180)).toEqual([false, false, false, false]);
+  });
+});
+
+describe('rateOfChangeTest', () => {
+  it('flags readings that changed faster than the hourly limit', () => {
+    expect(rateOfChangeTest(series([1, 1.5, 4, 4.2], 30), 2)).toEqual([false, false, true, false]);
+  });
+
+  it('does not judge readings sharing a timestamp', () => {
+    expect(rateOfChangeTest(series([1, 50], 0), 2)).toEqual([false, false]);
+  });
+});
+
+describe('flatlineTest', () => {
+  it('flags a run that stays constant for at least the given minutes', () => {
+    expect(flatlineTest(series([1, 2, 3, 3, 3, 3, 3, 4]), 60, 0))
+      .toEqual([false, false, true, true, true, true, true, false]);
+  });
+
+  it('leaves shorter runs alone', () => {
+    expect(flatlineTest(series([1, 3, 3, 3, 3, 4]), 60, 0)).toEqual(Array(6).fill(false));
+  });
+
+  it('treats values within the tolerance as constant', () => {
+    expect(flatlineTest(series([3, 3.05, 2.98, 3.02, 3]), 60, 0.1)).toEqual(Array(5).fill(true));
+  });
+
+  it('handles an empty series', () => {
+    expect(flatlineTest([], 60, 0)).toEqual([]);
+  });
+});
+
+describe('neighborTest', () => {
+  it('flags readings too far from the nearest neighbour reading', () => {
+    const neighbor = series([10.5, 10.2, 10.1], 15, 5);
+    expect(neighborTest(series([10, 10, 20]), neighbor, 2)).toEqual([false, false, true]);
+  });
+
+  it('does not judge readings without a neighbour reading close in time', () => {
+    const neighbor = series([50], 15, 60 + 15);
+    expect(neighborTest(series([10, 10]), neighbor, 2)).toEqual([false, false]);
+  });
+});
+
+describe('runQc', () => {
+  it('marks every reading good without a rule', () => {
+    const { flags, summary } = runQc(undefined, series([1, 2, 3]));
+    expect(flags).toEqual(['good', 'good', 'good']);
+    expect(summary).toEqual({ total: 3, flagged: 0, counts: { good: 3 }, latestFlag: 'good' });
+  });
+
+  it('reports range ahead of spike and rate of change', () => {
+    const { flags } = runQc(
+      rule({ max_value: 20, spike_mad_threshold: 3, spike_window_minutes: 180, max_rate_of_change: 5 }),
+      series(NOISY_WITH_SPIKE)
+    );
+    expect(flags[6]).toBe('range');
+    expect(flags[7]).toBe('rate_of_change');
+  });
+
+  it('reports a spike ahead of rate of change', () => {
+    const { flags, summary } = runQc(
+      rule({ spike_mad_threshold: 3, spike_window_minutes: 180, max_rate_of_change: 5 }),
+      series(NOISY_WITH_SPIKE)
+    );
+    expect(flags[6]).toBe('spike');
+    expect(flags[7]).toBe('rate_of_change');
+    expect(summary.counts).toEqual({ good: 10, spike: 1, rate_of_change: 1 });
+  });
+
+  it('reports a flatline ahead of a neighbour disagreement', () => {
+    const readings = series([7, 7, 7, 7, 7]);
+    const { flags } = runQc(
+      rule({ flatline_minutes: 60, max_neighbor_difference: 1 }),
+      readings,
+      { neighbor: series([20, 20, 20, 20, 20]) }
+    );
+    expect(flags).toEqual(Array(5).fill('flatline'));
+  });
+
+  it('continues a flat run from the preceding readings', () => {
+    const flatlineRule = rule({ flatline_minutes: 60 });
+    const readings = series([7, 7, 8], 15, 45);
+
+    expect(runQc(flatlineRule, readings).flags).toEqual(['good', 'good', 'good']);
+
+    const { flags } = runQc(flatlineRule, readings, { preceding: series([7, 7, 7]) });
+    expect(flags).toEqual(['flatline', 'flatline', 'good']);
+  });
+});
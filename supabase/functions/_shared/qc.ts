@@ -0,0 +1,222 @@
+// Per-reading quality-control tests. Every test works on a channel's readings in time
+// order and returns one verdict per reading; runQc combines them into quality flags.
+
+// 'gap_fill' is reserved for estimated readings; 'manual' is only ever set by an operator
+export type QualityFlag =
+  | 'good'
+  | 'range'
+  | 'spike'
+  | 'rate_of_change'
+  | 'flatline'
+  | 'neighbor'
+  | 'gap_fill'
+  | 'manual';
+
+// A channel's row in channel_qc_rules; a null setting disables that test
+export interface QcRule {
+  channel_id: string;
+  min_value: number | null;
+  max_value: number | null;
+  max_rate_of_change: number | null;
+  flatline_minutes: number | null;
+  flatline_tolerance: number;
+  spike_mad_threshold: number | null;
+  spike_window_minutes: number | null;
+  neighbor_channel_id: string | null;
+  max_neighbor_difference: number | null;
+}
+
+export interface QcReading {
+  measuredAt: Date;
+  value: number;
+}
+
+export interface QcSummary {
+  total: number;
+  flagged: number;
+  counts: Partial<Record<QualityFlag, number>>;
+  latestFlag: QualityFlag | null;
+}
+
+// Readings from a neighbouring channel further apart than this are not compared
+export const NEIGHBOR_MAX_OFFSET_MINUTES = 30;
+
+// Flagged share of a channel's readings above which the channel as a whole is treated as erratic
+const ERRATIC_FLAGGED_FRACTION = 0.2;
+
+// Scales the MAD to a standard deviation for normally distributed values
+const MAD_SCALE = 1.4826;
+
+const MINUTE_MS = 60 * 1000;
+
+// Tests in the order their flags take precedence when a reading fails more than one
+const FLAG_PRECEDENCE: QualityFlag[] = ['range', 'spike', 'rate_of_change', 'flatline', 'neighbor'];
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+export const rangeTest = (readings: QcReading[], minValue: number | null, maxValue: number | null): boolean[] =>
+  readings.map(r => (minValue !== null && r.value < minValue) || (maxValue !== null && r.value > maxValue));
+
+// A reading is a spike when it sits more than `threshold` scaled MADs from the median of the
+// readings around it, within half the window either side. Windows whose MAD is zero are skipped
+// since any change at all from a constant signal would count.
+export const madSpikeTest = (readings: QcReading[], threshold: number, windowMinutes: number): boolean[] => {
+  const halfWindowMs = (windowMinutes * MINUTE_MS) / 2;
+  let start = 0;
+  let end = 0;
+
+  return readings.map((reading, i) => {
+    const time = reading.measuredAt.getTime();
+    while (readings[start].measuredAt.getTime() < time - halfWindowMs) start++;
+    while (end < readings.length && readings[end].measuredAt.getTime() <= time + halfWindowMs) end++;
+
+    const neighbours = readings.slice(start, end).filter((_, j) => start + j !== i).map(r => r.value);
+    if (neighbours.length < 4) return false;
+
+    const centre = median(neighbours);
+    const mad = median(neighbours.map(v => Math.abs(v - centre)));
+    if (mad === 0) return false;
+
+    return Math.abs(reading.value - centre) > threshold * MAD_SCALE * mad;
+  });
+};
+
+// A reading fails when it changed faster than maxPerHour since the previous reading
+export const rateOfChangeTest = (readings: QcReading[], maxPerHour: number): boolean[] =>
+  readings.map((reading, i) => {
+    if (i === 0) return false;
+    const previous = readings[i - 1];
+    const hours = (reading.measuredAt.getTime() - previous.measuredAt.getTime()) / (60 * MINUTE_MS);
+    return hours > 0 && Math.abs(reading.value - previous.value) / hours > maxPerHour;
+  });
+
+// Readings belong to a flatline when they stay within `tolerance` of each other for at least
+// `minutes`, however many readings that takes
+export const flatlineTest = (readings: QcReading[], minutes: number, tolerance: number): boolean[] => {
+  const flags = readings.map(() => false);
+  let runStart = 0;
+  let runMin = readings[0]?.value;
+  let runMax = readings[0]?.value;
+
+  const closeRun = (runEnd: number) => {
+    const duration = readings[runEnd - 1].measuredAt.getTime() - readings[runStart].measuredAt.getTime();
+    if (duration >= minutes * MINUTE_MS) {
+      for (let j = runStart; j < runEnd; j++) flags[j] = true;
+    }
+  };
+
+  for (let i = 1; i < readings.length; i++) {
+    const value = readings[i].value;
+    if (Math.max(runMax, value) - Math.min(runMin, value) <= tolerance) {
+      runMin = Math.min(runMin, value);
+      runMax = Math.max(runMax, value);
+      continue;
+    }
+    closeRun(i);
+    runStart = i;
+    runMin = value;
+    runMax = value;
+  }
+  if (readings.length > 0) closeRun(readings.length);
+
+  return flags;
+};
+
+// A reading fails when it differs by more than maxDifference from the nearest reading of a
+// neighbouring channel measuring the same thing, such as a backup sensor or the next station.
+// Readings without a neighbour reading close enough in time are not judged.
+export const neighborTest = (readings: QcReading[], neighbor: QcReading[], maxDifference: number): boolean[] => {
+  let j = 0;
+  return readings.map(reading => {
+    const time = reading.measuredAt.getTime();
+    while (j + 1 < neighbor.length &&
+      Math.abs(neighbor[j + 1].measuredAt.getTime() - time) <= Math.abs(neighbor[j].measuredAt.getTime() - time)) {
+      j++;
+    }
+    const nearest = neighbor[j];
+    if (!nearest || Math.abs(nearest.measuredAt.getTime() - time) > NEIGHBOR_MAX_OFFSET_MINUTES * MINUTE_MS) {
+      return false;
+    }
+    return Math.abs(reading.value - nearest.value) > maxDifference;
+  });
+};
+
+// How far back stored readings are needed for the tests to judge the first new reading
+export const qcContextMinutes = (rule: QcRule | undefined) =>
+  Math.max(
+    rule?.flatline_minutes ?? 0,
+    rule?.spike_window_minutes ? rule.spike_window_minutes / 2 : 0,
+    rule?.max_rate_of_change !== null && rule?.max_rate_of_change !== undefined ? 60 : 0
+  );
+
+export const summarizeFlags = (flags: QualityFlag[]): QcSummary => {
+  const counts: Partial<Record<QualityFlag, number>> = {};
+  flags.forEach(flag => {
+    counts[flag] = (counts[flag] || 0) + 1;
+  });
+  return {
+    total: flags.length,
+    flagged: flags.length - (counts.good || 0),
+    counts,
+    latestFlag: flags.length > 0 ? flags[flags.length - 1] : null,
+  };
+};
+
+// Run every test the rule enables. readings are the ones to flag, in time order; preceding
+// holds stored readings just before them so runs and windows carry across batches, and
+// neighbor holds the rule's neighbour channel over the same period.
+export const runQc = (
+  rule: QcRule | undefined,
+  readings: QcReading[],
+  context: { preceding?: QcReading[]; neighbor?: QcReading[] } = {}
+): { flags: QualityFlag[]; summary: QcSummary } => {
+  if (!rule || readings.length === 0) {
+    const flags = readings.map((): QualityFlag => 'good');
+    return { flags, summary: summarizeFlags(flags) };
+  }
+
+  const preceding = context.preceding || [];
+  const series = [...preceding, ...readings];
+  const failures: Partial<Record<QualityFlag, boolean[]>> = {};
+
+  if (rule.min_value !== null || rule.max_value !== null) {
+    failures.range = rangeTest(series, rule.min_value, rule.max_value);
+  }
+  if (rule.spike_mad_threshold !== null && rule.spike_window_minutes !== null) {
+    failures.spike = madSpikeTest(series, rule.spike_mad_threshold, rule.spike_window_minutes);
+  }
+  if (rule.max_rate_of_change !== null) {
+    failures.rate_of_change = rateOfChangeTest(series, rule.max_rate_of_change);
+  }
+  if (rule.flatline_minutes !== null) {
+    failures.flatline = flatlineTest(series, rule.flatline_minutes, rule.flatline_tolerance);
+  }
+  if (rule.max_neighbor_difference !== null && context.neighbor && context.neighbor.length > 0) {
+    failures.neighbor = neighborTest(series, context.neighbor, rule.max_neighbor_difference);
+  }
+
+  const flags = readings.map((_, i): QualityFlag =>
+    FLAG_PRECEDENCE.find(flag => failures[flag]?.[preceding.length + i]) || 'good'
+  );
+  return { flags, summary: summarizeFlags(flags) };
+};
+
+// Whether a channel is fit to show as working, judged from its recent flags
+export const assessChannelHealth = (summary: QcSummary): { isValid: boolean; reason?: string } => {
+  switch (summary.latestFlag) {
+    case 'range':
+      return { isValid: false, reason: 'Latest reading outside the valid range' };
+    case 'flatline':
+      return { isValid: false, reason: 'Stuck on a constant value' };
+    case 'neighbor':
+      return { isValid: false, reason: 'Disagrees with its neighbouring sensor' };
+  }
+  if (summary.total > 0 && summary.flagged / summary.total > ERRATIC_FLAGGED_FRACTION) {
+    return { isValid: false, reason: `Erratic readings (${summary.flagged} of ${summary.total} flagged)` };
+  }
+  return { isValid: true };
+};
@@ -0,0 +1,80 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+
+const RAW_PAYLOAD_BUCKET = 'raw-payloads';
+
+export type RawPayloadType = 'config_packet' | 'readings';
+
+export interface RawPayloadMetadata {
+  projectId?: number;
+  channelIds?: string[];
+  rangeStart?: Date;
+  rangeEnd?: Date;
+}
+
+const gzip = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const gunzip = async (blob: Blob): Promise<string> => {
+  const stream = blob.stream().pipeThrough(new DecompressionStream('gzip'));
+  return await new Response(stream).text();
+};
+
+const sha256 = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Store a raw Stevens response gzipped in storage and index it against the fetch run.
+// Payloads are content-addressed, so the config packet shared by every station in a run is stored once.
+export const archiveRawPayload = async (
+  supabase: SupabaseClient,
+  fetchLogId: string,
+  payloadType: RawPayloadType,
+  payload: unknown,
+  metadata: RawPayloadMetadata = {}
+) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  const contentHash = await sha256(bytes);
+  const compressed = await gzip(bytes);
+  const storagePath = `${payloadType}/${contentHash.slice(0, 2)}/${contentHash}.json.gz`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(RAW_PAYLOAD_BUCKET)
+    .upload(storagePath, compressed, { contentType: 'application/gzip', upsert: true });
+
+  if (uploadError) {
+    throw new Error(`Failed to upload raw payload: ${uploadError.message}`);
+  }
+
+  const { error: insertError } = await supabase
+    .from('raw_payloads')
+    .insert({
+      fetch_log_id: fetchLogId,
+      payload_type: payloadType,
+      storage_path: storagePath,
+      content_hash: contentHash,
+      size_bytes: bytes.byteLength,
+      compressed_bytes: compressed.byteLength,
+      project_id: metadata.projectId ?? null,
+      channel_ids: metadata.channelIds ?? null,
+      range_start: metadata.rangeStart?.toISOString() ?? null,
+      range_end: metadata.rangeEnd?.toISOString() ?? null
+    });
+
+  if (insertError) {
+    throw new Error(`Failed to record raw payload: ${insertError.message}`);
+  }
+};
+
+// Download and decompress an archived payload
+export const loadRawPayload = async (supabase: SupabaseClient, storagePath: string): Promise<unknown> => {
+  const { data, error } = await supabase.storage.from(RAW_PAYLOAD_BUCKET).download(storagePath);
+
+  if (error || !data) {
+    throw new Error(`Failed to download raw payload ${storagePath}: ${error?.message || 'no data'}`);
+  }
+
+  return JSON.parse(await gunzip(data));
+};
@@ -0,0 +1,268 @@
+import { z } from 'https://esm.sh/zod@3.23.8';
+
+const DEFAULT_BASE_URL = 'https://api.stevens-connect.com';
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+const DEFAULT_MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+// Response schemas - only the fields ingestion relies on are validated, the rest pass through
+const authResponseSchema = z.object({
+  data: z.object({
+    token: z.string().min(1),
+  }),
+});
+
+const channelSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  unit_id: z.number().nullable().optional(),
+}).passthrough();
+
+const sensorSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  status: z.number(),
+  channels: z.array(channelSchema).default([]),
+}).passthrough();
+
+const stationSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  code: z.string().nullable().optional(),
+  sensors: z.array(sensorSchema).default([]),
+}).passthrough();
+
+const projectSchema = z.object({
+  id: z.number(),
+  stations: z.array(stationSchema).default([]),
+}).passthrough();
+
+const unitSchema = z.object({
+  id: z.number(),
+  unit: z.string(),
+}).passthrough();
+
+const configPacketResponseSchema = z.object({
+  data: z.object({
+    config_packet: z.object({
+      projects: z.array(projectSchema).default([]),
+      units: z.array(unitSchema).default([]),
+    }),
+  }),
+});
+
+// A missing value may arrive as null, an empty string or no reading at all; it becomes null
+// rather than 0 so it is never stored as a measurement
+const readingValueSchema = z.union([z.number(), z.string()]).nullable().optional().transform(value => {
+  if (value === null || value === undefined || (typeof value === 'string' && value.trim() === '')) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+});
+
+const readingSchema = z.object({
+  timestamp: z.string().nullable().optional(),
+  reading: readingValueSchema,
+}).passthrough();
+
+// Stevens returns an empty array instead of an object when no channel has readings
+const readingsResponseSchema = z.object({
+  data: z.object({
+    readings: z.union([
+      z.record(z.array(readingSchema)),
+      z.array(z.unknown()).max(0).transform(() => ({})),
+    ]).default({}),
+  }),
+});
+
+export type StevensStation = z.infer<typeof stationSchema>;
+export type StevensProject = z.infer<typeof projectSchema>;
+export type StevensConfigPacket = z.infer<typeof configPacketResponseSchema>['data']['config_packet'];
+export type StevensReading = z.infer<typeof readingSchema>;
+export type StevensReadingsByChannel = Record<string, StevensReading[]>;
+
+export class StevensApiError extends Error {
+  constructor(message: string, readonly status?: number, readonly responseBody?: string) {
+    super(message);
+    this.name = 'StevensApiError';
+  }
+}
+
+// Validate an archived readings response the same way a live one is
+export const parseReadingsResponse = (body: unknown): StevensReadingsByChannel => {
+  const parsed = readingsResponseSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new StevensApiError(`Archived readings payload is invalid: ${parsed.error.issues[0]?.message}`);
+  }
+  return parsed.data.data.readings;
+};
+
+export interface StevensClientOptions {
+  email: string;
+  password: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with jitter: ~0.5s, 1s, 2s, ...
+const retryDelay = (attempt: number) =>
+  RETRY_BASE_DELAY_MS * Math.pow(2, attempt) + Math.random() * RETRY_BASE_DELAY_MS;
+
+const isRetryableStatus = (status: number) => status >= 500 || status === 429;
+
+// Typed client for the Stevens-Connect API.
+// Re-authenticates once when a token is rejected, retries 5xx responses and timeouts
+// with backoff, and validates every response body before handing it back.
+export class StevensClient {
+  // Unparsed body of the last successful response, kept so callers can archive what Stevens actually sent
+  lastRawResponse: unknown = null;
+  private token: string | null = null;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+
+  constructor(private readonly options: StevensClientOptions) {
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  }
+
+  // Build a client from the STEVENS_* secrets; STEVENS_BASE_URL points it at the local fake server
+  static fromEnv(): StevensClient {
+    const email = Deno.env.get('STEVENS_EMAIL');
+    const password = Deno.env.get('STEVENS_PASSWORD');
+
+    if (!email || !password) {
+      throw new StevensApiError('Missing Stevens credentials');
+    }
+
+    return new StevensClient({
+      email,
+      password,
+      baseUrl: Deno.env.get('STEVENS_BASE_URL') || undefined,
+    });
+  }
+
+  async authenticate(): Promise<void> {
+    const authBody = new URLSearchParams();
+    authBody.append('email', this.options.email);
+    authBody.append('password', this.options.password);
+
+    const authData = await this.request('/authenticate', authResponseSchema, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: authBody.toString(),
+    }, false);
+
+    this.token = authData.data.token;
+    console.log('Authentication successful');
+  }
+
+  async getConfigPacket(): Promise<StevensConfigPacket> {
+    const configData = await this.request('/config-packet', configPacketResponseSchema, { method: 'GET' });
+    return configData.data.config_packet;
+  }
+
+  async getReadings(
+    projectId: number,
+    channelIds: number[],
+    startDate: Date,
+    endDate: Date
+  ): Promise<StevensReadingsByChannel> {
+    const params = new URLSearchParams({
+      channel_ids: channelIds.join(','),
+      range_type: 'absolute',
+      start_date: startDate.toISOString(),
+      end_date: endDate.toISOString(),
+      transformation: 'none',
+    });
+
+    const readingsData = await this.request(
+      `/project/${projectId}/readings/v3/channels?${params.toString()}`,
+      readingsResponseSchema,
+      { method: 'GET' }
+    );
+    return readingsData.data.readings;
+  }
+
+  private async request<T extends z.ZodTypeAny>(
+    path: string,
+    schema: T,
+    init: RequestInit,
+    authenticated = true
+  ): Promise<z.infer<T>> {
+    let reauthenticated = false;
+    let attempt = 0;
+
+    while (true) {
+      if (authenticated && !this.token) {
+        await this.authenticate();
+      }
+
+      const headers = new Headers(init.headers);
+      if (authenticated) {
+        headers.set('Authorization', `Bearer ${this.token}`);
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(`${this.baseUrl}${path}`, {
+          ...init,
+          headers,
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+      } catch (error) {
+        // Timeouts and network failures
+        if (attempt < this.maxRetries) {
+          console.warn(`Stevens request ${path} failed (${error instanceof Error ? error.message : error}), retrying...`);
+          await sleep(retryDelay(attempt++));
+          continue;
+        }
+        throw new StevensApiError(`Stevens request ${path} failed: ${error instanceof Error ? error.message : 'network error'}`);
+      }
+
+      // Token expired or revoked - authenticate again once and replay the request
+      if (response.status === 401 && authenticated && !reauthenticated) {
+        await response.body?.cancel();
+        console.log('Stevens token rejected, re-authenticating...');
+        this.token = null;
+        reauthenticated = true;
+        continue;
+      }
+
+      if (isRetryableStatus(response.status) && attempt < this.maxRetries) {
+        await response.body?.cancel();
+        console.warn(`Stevens request ${path} returned ${response.status}, retrying...`);
+        await sleep(retryDelay(attempt++));
+        continue;
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`Stevens request ${path} failed:`, errorText);
+        throw new StevensApiError(`Stevens request ${path} failed: ${response.status}`, response.status, errorText);
+      }
+
+      // The API hands out a refreshed token on any response
+      const newToken = response.headers.get('X-Token');
+      if (newToken) {
+        this.token = newToken;
+      }
+
+      const body = await response.json().catch(() => null);
+      this.lastRawResponse = body;
+      const parsed = schema.safeParse(body);
+      if (!parsed.success) {
+        const issues = parsed.error.issues
+          .slice(0, 3)
+          .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+          .join('; ');
+        throw new StevensApiError(`Unexpected response from ${path}: ${issues}`, response.status);
+      }
+
+      return parsed.data;
+    }
+  }
+}
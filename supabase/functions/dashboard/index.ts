@@ -0,0 +1,54 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { loadDashboard, UnknownStationError } from '../_shared/dashboard.ts';
+import { errorMessage } from '../_shared/errors.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Station shown on the public dashboard when the request does not name one
+const DEFAULT_SOURCE_TYPE = 'stevens';
+const DEFAULT_STATION_ID = '5285'; // Mara River Purungat Bridge
+
+const SUPPORTED_LANGUAGES = ['english', 'swahili'];
+
+// Read-only dashboard API. Serves stored data only; it never calls Stevens or generates analyses.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const url = new URL(req.url);
+    const requestedLanguage = body.language || url.searchParams.get('language') || 'english';
+    const language = SUPPORTED_LANGUAGES.includes(requestedLanguage) ? requestedLanguage : 'english';
+    const sourceType = body.sourceType || url.searchParams.get('sourceType') || DEFAULT_SOURCE_TYPE;
+    const stationId = String(body.stationId || url.searchParams.get('stationId') || DEFAULT_STATION_ID);
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!
+    );
+
+    const data = await loadDashboard(supabase, language, sourceType, stationId);
+
+    return new Response(
+      JSON.stringify({ data }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    if (error instanceof UnknownStationError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    console.error('Error in dashboard:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage(error) }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
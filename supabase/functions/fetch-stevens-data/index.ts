@@ -1,13 +1,31 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { createAdapter, DataSourceAdapter, SourceReadingsByChannel, SourceStation } from '../_shared/adapters/index.ts';
+import { ChannelDecision, getChannelRules, resolveChannelRule } from '../_shared/channel-rules.ts';
+import { archiveRawPayload, loadRawPayload, RawPayloadMetadata, RawPayloadType } from '../_shared/raw-payloads.ts';
+import { authenticateStaff, hasRole, missingRoleResponse, notSignedInResponse, recordAuditEvent } from '../_shared/admin.ts';
+import { loadDashboard } from '../_shared/dashboard.ts';
+import { QcReading, qcContextMinutes, QualityFlag, runQc } from '../_shared/qc.ts';
+import { loadChannelReadings, loadNeighborReadings, loadQcRules, PRESERVED_FLAGS } from '../_shared/qc-store.ts';
+import type { Tables, TablesInsert, TablesUpdate } from '../../../src/integrations/supabase/types.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const BASE_URL = 'https://api.stevens-connect.com';
+// Re-request this much data before each channel's high-water mark to pick up late readings
+const HIGH_WATER_MARK_OVERLAP_MINUTES = 60;
+
+// This function ingests the Stevens network through its data-source adapter
+const SOURCE_TYPE = 'stevens';
+
+// Station whose readings feed the AI analysis shown on the dashboard
+const DASHBOARD_STATION_ID = '5285'; // Mara River Purungat Bridge
+
+// Used for stations whose source does not report a location
+const DEFAULT_STATION_LOCATION = 'Mara River, Kenya';
 
 // Channel ID to sensor name mapping for Manta sensors
 const CHANNEL_MAP: Record<string, string> = {
@@ -41,74 +59,98 @@ const getSupabaseClient = () => {
   return createClient(supabaseUrl, supabaseKey);
 };
 
-// Check if we should fetch fresh data from Stevens API
-const shouldFetchFreshData = async (supabase: any, stationUuid: string) => {
+// Scheduled runs closer together than this are skipped so unauthenticated callers cannot hammer Stevens
+const MIN_FETCH_INTERVAL_MINUTES = 10;
+
+// Whether a regular ingestion run started within the minimum interval. Runs still in progress and
+// runs that failed count too, so a source that keeps failing is not retried on every call.
+const hasRecentFetch = async (supabase: SupabaseClient) => {
   const { data } = await supabase
     .from('api_fetch_log')
-    .select('fetch_completed_at, status')
-    .eq('station_id', stationUuid)
-    .eq('status', 'success')
-    .order('fetch_completed_at', { ascending: false })
+    .select('fetch_started_at')
+    .in('trigger_source', ['cron', 'manual'])
+    .order('fetch_started_at', { ascending: false })
     .limit(1)
     .maybeSingle();
-  
-  if (!data) return true; // No previous fetch
-  
-  const lastFetch = new Date(data.fetch_completed_at);
-  const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
-  
-  return lastFetch < tenMinutesAgo;
+
+  if (!data?.fetch_started_at) return false;
+
+  const cutoff = new Date(Date.now() - MIN_FETCH_INTERVAL_MINUTES * 60 * 1000);
+  return new Date(data.fetch_started_at) > cutoff;
 };
 
-// Get cached sensor data from database
-const getCachedData = async (supabase: any, stevensStationId: number) => {
-  // Get station info
-  const { data: station } = await supabase
-    .from('sensor_stations')
-    .select('*')
-    .eq('stevens_station_id', stevensStationId)
-    .maybeSingle();
-  
-  if (!station) return null;
-  
-  // Get channels
-  const { data: channels } = await supabase
-    .from('sensor_channels')
-    .select('*')
-    .eq('station_id', station.id)
-    .eq('is_active', true);
-  
-  if (!channels || channels.length === 0) return null;
-  
-  // Get latest readings for the last 7 days
-  const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-  const channelIds = channels.map((c: any) => c.id);
-  
-  const { data: readings } = await supabase
-    .from('sensor_readings')
-    .select('*')
-    .in('channel_id', channelIds)
-    .gte('measured_at', sevenDaysAgo.toISOString())
-    .order('measured_at', { ascending: true });
-  
-  if (!readings || readings.length === 0) return null;
-  
-  return { station, channels, readings };
+type TriggerSource = 'cron' | 'manual' | 'backfill' | 'reprocess';
+
+interface FetchLogEntry {
+  id: string;
+  startedAt: number;
+}
+
+// Record the start of a fetch; the station is filled in once its metadata has been stored
+const startFetchLog = async (
+  supabase: SupabaseClient,
+  triggerSource: TriggerSource,
+  stationId: string | null = null,
+  jobId: string | null = null
+): Promise<FetchLogEntry | null> => {
+  const startedAt = Date.now();
+  const { data, error } = await supabase
+    .from('api_fetch_log')
+    .insert({
+      station_id: stationId,
+      job_id: jobId,
+      trigger_source: triggerSource,
+      fetch_started_at: new Date(startedAt).toISOString(),
+      status: 'in_progress'
+    })
+    .select('id')
+    .single();
+
+  // Logging must never stop ingestion
+  if (error) {
+    console.error('Failed to create fetch log entry:', error);
+    return null;
+  }
+  return { id: data.id, startedAt };
 };
 
-// Store station and channel metadata
-const storeMetadata = async (supabase: any, stationInfo: any, channelsData: any[]) => {
-  // Upsert station
+const finishFetchLog = async (supabase: SupabaseClient, entry: FetchLogEntry | null, changes: Record<string, unknown>) => {
+  if (!entry) return;
+
+  const completedAt = Date.now();
+  const { error } = await supabase
+    .from('api_fetch_log')
+    .update({
+      ...changes,
+      fetch_completed_at: new Date(completedAt).toISOString(),
+      duration_ms: completedAt - entry.startedAt
+    })
+    .eq('id', entry.id);
+
+  if (error) {
+    console.error('Failed to update fetch log entry:', error);
+  }
+};
+
+const failFetchLog = (supabase: SupabaseClient, entry: FetchLogEntry | null, error: unknown) =>
+  finishFetchLog(supabase, entry, {
+    status: 'failed',
+    error_message: error instanceof Error ? error.message : String(error)
+  });
+
+// Upsert the station itself
+const storeStation = async (supabase: SupabaseClient, sourceType: string, stationInfo: SourceStation) => {
   const { data: station, error: stationError } = await supabase
     .from('sensor_stations')
     .upsert({
-      stevens_station_id: stationInfo.id,
+      source_type: sourceType,
+      external_id: stationInfo.externalId,
       station_name: stationInfo.name,
       station_code: stationInfo.code,
-      location: 'Mara River, Kenya',
-      project_id: 425,
+      location: stationInfo.location || DEFAULT_STATION_LOCATION,
+      project_id: stationInfo.projectId,
       updated_at: new Date().toISOString()
-    }, { onConflict: 'stevens_station_id' })
+    }, { onConflict: 'source_type,external_id' })
     .select()
     .maybeSingle();
 
@@ -120,22 +162,47 @@ const storeMetadata = async (supabase: any, stationInfo: any, channelsData: any[
   if (!station) {
     throw new Error('Station upsert returned no data');
   }
-  
-  // Upsert channels
-  const channelUpserts = channelsData.map((ch: any) => ({
-    station_id: station.id,
-    stevens_channel_id: ch.id,
+
+  return station;
+};
+
+// A source channel with the station's channel rules applied
+interface ResolvedChannel extends ChannelDecision {
+  id: string;
+  name: string;
+  sensorName: string;
+  unit: string;
+  precision: number;
+  category: string;
+}
+
+// The stored channel fields syncChannelLifecycle compares against the source
+type StoredChannel = Pick<Tables<'sensor_channels'>, 'id' | 'external_id' | 'channel_name' | 'unit' | 'sensor_name' | 'removed_at'>;
+
+// Upsert every discovered channel; channels the rules skip are stored inactive so operators can find them
+const storeChannels = async (
+  supabase: SupabaseClient,
+  sourceType: string,
+  stationId: string,
+  channelsData: ResolvedChannel[]
+): Promise<Tables<'sensor_channels'>[]> => {
+  const channelUpserts: TablesInsert<'sensor_channels'>[] = channelsData.map(ch => ({
+    station_id: stationId,
+    source_type: sourceType,
+    external_id: ch.id,
     channel_name: ch.name,
     unit: ch.unit,
     category: ch.category,
     sensor_name: ch.category,
-    is_active: true,
+    is_active: ch.ingest,
+    visibility: ch.visibility,
+    removed_at: null,
     updated_at: new Date().toISOString()
   }));
   
   const { data: channels, error: channelsError } = await supabase
     .from('sensor_channels')
-    .upsert(channelUpserts, { onConflict: 'station_id,stevens_channel_id' })
+    .upsert(channelUpserts, { onConflict: 'station_id,external_id' })
     .select();
 
   if (channelsError) {
@@ -147,27 +214,179 @@ const storeMetadata = async (supabase: any, stationInfo: any, channelsData: any[
     throw new Error('Channels upsert returned no data');
   }
   
-  return { station, channels };
+  return channels;
+};
+
+// Diff the stored channels against what the source reports: record name, unit and sensor changes,
+// and deactivate channels that are no longer reported
+const syncChannelLifecycle = async (
+  supabase: SupabaseClient,
+  stationId: string,
+  previousChannels: StoredChannel[],
+  currentChannels: StoredChannel[]
+) => {
+  const previousByExternalId = new Map(previousChannels.map(c => [c.external_id, c]));
+  const currentExternalIds = new Set(currentChannels.map(c => c.external_id));
+  const history: TablesInsert<'sensor_channel_history'>[] = [];
+
+  const recordChange = (channelId: string, changeType: string, oldValue: string | null, newValue: string | null) =>
+    history.push({ channel_id: channelId, change_type: changeType, old_value: oldValue, new_value: newValue });
+
+  currentChannels.forEach(channel => {
+    const previous = previousByExternalId.get(channel.external_id);
+    if (!previous) {
+      recordChange(channel.id, 'added', null, channel.channel_name);
+      return;
+    }
+
+    if (previous.removed_at) {
+      recordChange(channel.id, 'restored', null, channel.channel_name);
+    }
+    if (previous.channel_name !== channel.channel_name) {
+      recordChange(channel.id, 'renamed', previous.channel_name, channel.channel_name);
+    }
+    if ((previous.unit || '') !== (channel.unit || '')) {
+      recordChange(channel.id, 'unit_changed', previous.unit, channel.unit);
+    }
+    if ((previous.sensor_name || '') !== (channel.sensor_name || '')) {
+      recordChange(channel.id, 'sensor_changed', previous.sensor_name, channel.sensor_name);
+    }
+  });
+
+  const removedChannels = previousChannels.filter(
+    c => !currentExternalIds.has(c.external_id) && !c.removed_at
+  );
+
+  if (removedChannels.length > 0) {
+    const { error: removeError } = await supabase
+      .from('sensor_channels')
+      .update({ is_active: false, removed_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .in('id', removedChannels.map(c => c.id));
+
+    if (removeError) {
+      throw new Error(`Failed to deactivate removed channels: ${removeError.message}`);
+    }
+
+    removedChannels.forEach(c => recordChange(c.id, 'removed', c.channel_name, null));
+    console.log(`Deactivated ${removedChannels.length} channel(s) no longer reported for station ${stationId}`);
+  }
+
+  if (history.length > 0) {
+    const { error: historyError } = await supabase.from('sensor_channel_history').insert(history);
+    if (historyError) {
+      throw new Error(`Failed to record channel history: ${historyError.message}`);
+    }
+    console.log(`Recorded ${history.length} channel change(s) for station ${stationId}`);
+  }
+};
+
+// Flags within a range that re-running the tests must leave alone, keyed by reading time
+const getPreservedFlags = async (supabase: SupabaseClient, channelId: string, from: string, to: string) => {
+  const { data, error } = await supabase
+    .from('sensor_readings')
+    .select('measured_at, quality_flag')
+    .eq('channel_id', channelId)
+    .in('quality_flag', PRESERVED_FLAGS)
+    .gte('measured_at', from)
+    .lte('measured_at', to)
+    .overrideTypes<{ measured_at: string; quality_flag: QualityFlag }[], { merge: false }>();
+
+  if (error) {
+    throw new Error(`Failed to load preserved quality flags: ${error.message}`);
+  }
+  return new Map<number, QualityFlag>((data || []).map(r => [new Date(r.measured_at).getTime(), r.quality_flag]));
 };
 
-// Store readings in bulk
-const storeReadings = async (supabase: any, channelMap: Map<number, string>, readingsData: any) => {
-  const readingsToInsert: any[] = [];
+// Store readings in bulk, skipping anything older than the channel's cutoff.
+// Readings without a usable timestamp are dropped rather than stamped with the fetch time,
+// and readings without a value are dropped rather than stored as 0.
+// Each reading is given a quality flag; with overwrite set, values and flags already stored
+// for the same timestamp are replaced.
+const storeReadings = async (
+  supabase: SupabaseClient,
+  channelMap: Map<string, string>,
+  readingsData: SourceReadingsByChannel,
+  cutoffs?: Map<string, Date>,
+  overwrite = false
+) => {
+  const readingsByChannel = new Map<string, QcReading[]>();
+  let skippedCount = 0;
   
-  Object.entries(readingsData).forEach(([stevensChannelId, readings]: [string, any]) => {
-    const channelId = channelMap.get(parseInt(stevensChannelId));
+  Object.entries(readingsData).forEach(([externalChannelId, readings]) => {
+    const channelId = channelMap.get(externalChannelId);
     if (!channelId) return;
     
+    const cutoff = cutoffs?.get(channelId);
     if (Array.isArray(readings)) {
-      readings.forEach((r: any) => {
-        readingsToInsert.push({
-          channel_id: channelId,
-          value: r.reading,
-          measured_at: r.timestamp
-        });
+      readings.forEach(r => {
+        const measuredAt = r.measuredAt ? new Date(r.measuredAt) : null;
+        const value = r.value;
+        if (!measuredAt || isNaN(measuredAt.getTime()) || value === null || !Number.isFinite(value)) {
+          skippedCount++;
+          return;
+        }
+        if (cutoff && measuredAt < cutoff) return;
+        const channelReadings = readingsByChannel.get(channelId) || [];
+        channelReadings.push({ measuredAt, value });
+        readingsByChannel.set(channelId, channelReadings);
       });
     }
   });
+
+  if (skippedCount > 0) {
+    console.warn(`Skipped ${skippedCount} reading(s) without a valid timestamp or value`);
+  }
+  if (readingsByChannel.size === 0) {
+    return { readingsCount: 0, channelCounts: {} };
+  }
+
+  const qcRules = await loadQcRules(supabase, Array.from(readingsByChannel.keys()));
+
+  const readingsToInsert: TablesInsert<'sensor_readings'>[] = [];
+  const channelCounts: Record<string, number> = {};
+  const qcSummaries: Record<string, Partial<Record<QualityFlag, number>>> = {};
+  for (const [channelId, channelReadings] of readingsByChannel) {
+    channelReadings.sort((a, b) => a.measuredAt.getTime() - b.measuredAt.getTime());
+    const rule = qcRules.get(channelId);
+    const firstTime = channelReadings[0].measuredAt;
+    const lastTime = channelReadings[channelReadings.length - 1].measuredAt;
+    const preceding = await loadChannelReadings(
+      supabase,
+      channelId,
+      new Date(firstTime.getTime() - qcContextMinutes(rule) * 60 * 1000),
+      firstTime
+    );
+    // A neighbour in the same batch may not be stored yet
+    const neighbor = rule?.neighbor_channel_id && readingsByChannel.has(rule.neighbor_channel_id)
+      ? readingsByChannel.get(rule.neighbor_channel_id)!
+      : await loadNeighborReadings(supabase, rule, firstTime, lastTime);
+    const { flags, summary } = runQc(rule, channelReadings, { preceding, neighbor });
+    if (overwrite) {
+      // Replacing stored values must not clear what an operator flagged by hand
+      const preserved = await getPreservedFlags(supabase, channelId, firstTime.toISOString(), lastTime.toISOString());
+      channelReadings.forEach((r, index) => {
+        const flag = preserved.get(r.measuredAt.getTime());
+        if (flag) flags[index] = flag;
+      });
+    }
+    if (summary.flagged > 0) {
+      qcSummaries[channelId] = summary.counts;
+    }
+
+    channelCounts[channelId] = channelReadings.length;
+    channelReadings.forEach((r, index) => {
+      readingsToInsert.push({
+        channel_id: channelId,
+        value: r.value,
+        measured_at: r.measuredAt.toISOString(),
+        quality_flag: flags[index]
+      });
+    });
+  }
+
+  if (Object.keys(qcSummaries).length > 0) {
+    console.log('Flagged readings by channel:', qcSummaries);
+  }
   
   if (readingsToInsert.length > 0) {
     // Insert in batches of 1000 to avoid timeout
@@ -178,7 +397,7 @@ const storeReadings = async (supabase: any, channelMap: Map<number, string>, rea
         .from('sensor_readings')
         .upsert(batch, { 
           onConflict: 'channel_id,measured_at',
-          ignoreDuplicates: true 
+          ignoreDuplicates: !overwrite 
         });
       if (insertError) {
         console.error(`Batch insert error (batch ${Math.floor(i / batchSize) + 1}):`, insertError);
@@ -187,91 +406,474 @@ const storeReadings = async (supabase: any, channelMap: Map<number, string>, rea
     }
   }
   
-  return readingsToInsert.length;
+  return { readingsCount: readingsToInsert.length, channelCounts };
+};
+
+// Load the source's station list, recording a failed fetch when the source cannot be reached at all
+const listSourceStations = async (
+  supabase: SupabaseClient,
+  adapter: DataSourceAdapter,
+  triggerSource: TriggerSource,
+  jobId: string | null = null
+) => {
+  try {
+    console.log(`Loading stations from ${adapter.sourceType}...`);
+    return await adapter.listStations();
+  } catch (error) {
+    const fetchLog = await startFetchLog(supabase, triggerSource, null, jobId);
+    await failFetchLog(supabase, fetchLog, error);
+    throw error;
+  }
 };
 
-// Sensor validation rules - physically impossible value ranges
-interface ValidationRule {
-  minValue?: number;
-  maxValue?: number;
-  allowNegative?: boolean;
-  checkStuck?: boolean;
-  checkVariance?: boolean;
+interface ArchivedPayload {
+  type: RawPayloadType;
+  payload: unknown;
+  metadata?: RawPayloadMetadata;
 }
 
-const SENSOR_VALIDATION_RULES: Record<string, ValidationRule> = {
-  'ph': { minValue: 0, maxValue: 14, allowNegative: false, checkStuck: true },
-  'do': { minValue: 0, maxValue: 350, allowNegative: false, checkStuck: true },
-  'do %': { minValue: 0, maxValue: 120, allowNegative: false, checkStuck: true },
-  'temp': { minValue: -10, maxValue: 50, checkStuck: true },
-  'conductivity': { minValue: 0, allowNegative: false, checkStuck: true },
-  'sc': { minValue: 0, allowNegative: false, checkStuck: true },
-  'orp': { minValue: -500, maxValue: 500, checkStuck: true },
-  'depth': { minValue: 0, allowNegative: false },
-  'salinity': { minValue: 0, maxValue: 50, allowNegative: false },
-  'cable power': { minValue: 0, maxValue: 15, allowNegative: false }
+// Archive the raw responses behind a fetch run; a failed archive is logged but never fails ingestion
+const archiveFetchPayloads = async (supabase: SupabaseClient, fetchLog: FetchLogEntry | null, payloads: ArchivedPayload[]) => {
+  if (!fetchLog) return;
+
+  for (const { type, payload, metadata } of payloads) {
+    if (payload === null || payload === undefined) continue;
+    try {
+      await archiveRawPayload(supabase, fetchLog.id, type, payload, metadata);
+    } catch (error) {
+      console.error(`Failed to archive ${type} payload for fetch ${fetchLog.id}:`, error);
+    }
+  }
 };
 
-function validateSensor(sensor: any): { isValid: boolean; reason?: string } {
-  const sensorNameLower = sensor.name.toLowerCase();
-  
-  // Find matching validation rule
-  let rule: ValidationRule | undefined;
-  for (const [key, validationRule] of Object.entries(SENSOR_VALIDATION_RULES)) {
-    if (sensorNameLower.includes(key)) {
-      rule = validationRule;
-      break;
+// Latest stored measured_at for each channel, used as its high-water mark.
+// Uploaded readings are ignored so a field visit does not hide telemetry the logger has yet to send.
+const getHighWaterMarks = async (supabase: SupabaseClient, channelDbIds: string[]) => {
+  const marks = new Map<string, Date>();
+
+  for (const channelId of channelDbIds) {
+    const { data, error } = await supabase
+      .from('sensor_readings')
+      .select('measured_at')
+      .eq('channel_id', channelId)
+      .eq('source', 'telemetry')
+      .order('measured_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to look up high-water mark: ${error.message}`);
+    }
+    if (data) {
+      marks.set(channelId, new Date(data.measured_at));
     }
   }
-  
-  // If no rule found, use basic negative check
-  if (!rule) {
-    if (sensor.currentValue < 0) {
-      return { isValid: false, reason: `Negative value (${sensor.currentValue.toFixed(2)})` };
+
+  return marks;
+};
+
+// External IDs of the stations to ingest, from the request or the STEVENS_STATION_IDS secret.
+// Returns null when no subset is configured, meaning every active station is ingested.
+const getConfiguredStationIds = (requested?: Array<string | number> | null): Set<string> | null => {
+  if (Array.isArray(requested) && requested.length > 0) {
+    return new Set(requested.map(String));
+  }
+
+  const configured = Deno.env.get('STEVENS_STATION_IDS');
+  if (!configured) return null;
+
+  const ids = configured
+    .split(',')
+    .map(id => id.trim())
+    .filter(id => id.length > 0);
+
+  return ids.length > 0 ? new Set(ids) : null;
+};
+
+const selectStations = (stations: SourceStation[], stationIds: Set<string> | null) =>
+  stations.filter(station => !stationIds || stationIds.has(station.externalId));
+
+interface PreparedStation {
+  source: SourceStation;
+  station: Tables<'sensor_stations'>;
+  channels: ResolvedChannel[];
+  channelIds: string[];
+  channelIdMap: Map<string, string>;
+}
+
+interface IngestedStation extends PreparedStation {
+  readingsCount: number;
+}
+
+// Upsert the station's metadata and select the channels its rules ingest
+const prepareStation = async (
+  supabase: SupabaseClient,
+  sourceType: string,
+  stationInfo: SourceStation
+): Promise<PreparedStation> => {
+  const stationName = stationInfo.name;
+  console.log(`Found ${stationInfo.channels.length} active channels for station ${stationName} (ID: ${stationInfo.externalId})`);
+
+  const station = await storeStation(supabase, sourceType, stationInfo);
+
+  // Apply the station's channel rules to decide what to ingest and what to show publicly
+  const rules = await getChannelRules(supabase, station.id);
+  if (rules.length === 0) {
+    console.log(`No channel rules configured for station ${stationName}, ingesting all channels as internal`);
+  }
+
+  const channelMap = new Map<string, ResolvedChannel>();
+  stationInfo.channels.forEach(ch => {
+    const { ingest, visibility } = resolveChannelRule(rules, ch.sensorName, ch.name);
+    channelMap.set(ch.externalId, {
+      id: ch.externalId,
+      name: ch.name,
+      sensorName: ch.sensorName || 'Unknown Sensor',
+      unit: ch.unit,
+      precision: 2,
+      category: ch.sensorName || 'Other Sensors',
+      ingest,
+      visibility
+    });
+  });
+
+  if (channelMap.size === 0) {
+    throw new Error(`No channels found for station ${stationName}`);
+  }
+
+  const { data: previousChannels, error: previousChannelsError } = await supabase
+    .from('sensor_channels')
+    .select('id, external_id, channel_name, unit, sensor_name, removed_at')
+    .eq('station_id', station.id)
+    .overrideTypes<StoredChannel[], { merge: false }>();
+
+  if (previousChannelsError) {
+    throw new Error(`Failed to load stored channels: ${previousChannelsError.message}`);
+  }
+
+  const dbChannels = await storeChannels(supabase, sourceType, station.id, Array.from(channelMap.values()));
+  await syncChannelLifecycle(supabase, station.id, previousChannels || [], dbChannels);
+
+  const channels = Array.from(channelMap.values()).filter(ch => ch.ingest);
+  const channelIds = channels.map(ch => ch.id);
+
+  if (channelIds.length === 0) {
+    throw new Error(`No channels configured for ingestion at station ${stationName}`);
+  }
+
+  console.log(`Ingesting ${channelIds.length} of ${channelMap.size} channels for station ${stationName}`);
+
+  const channelIdMap: Map<string, string> = new Map(
+    dbChannels
+      .filter(c => channelIds.includes(c.external_id))
+      .map(c => [c.external_id, c.id])
+  );
+
+  return { source: stationInfo, station, channels, channelIds, channelIdMap };
+};
+
+// Fetch and store new readings for a single station
+const ingestStation = async (
+  supabase: SupabaseClient,
+  adapter: DataSourceAdapter,
+  stationInfo: SourceStation,
+  daysBack: number,
+  triggerSource: TriggerSource,
+  rawConfigPacket: unknown
+): Promise<IngestedStation> => {
+  const stationName = stationInfo.name;
+
+  // Attribute the log entry to the station up front when it already exists, so failures are traceable
+  const { data: existingStation } = await supabase
+    .from('sensor_stations')
+    .select('id')
+    .eq('source_type', adapter.sourceType)
+    .eq('external_id', stationInfo.externalId)
+    .maybeSingle();
+  const fetchLog = await startFetchLog(supabase, triggerSource, existingStation?.id ?? null);
+
+  try {
+    const prepared = await prepareStation(supabase, adapter.sourceType, stationInfo);
+    const { station, channelIds, channelIdMap } = prepared;
+    if (fetchLog && !existingStation) {
+      await supabase.from('api_fetch_log').update({ station_id: station.id }).eq('id', fetchLog.id);
     }
-    return { isValid: true };
+
+    // Request everything after the oldest high-water mark; channels without any
+    // stored readings fall back to the daysBack window
+    const fallbackStart = new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000);
+    const highWaterMarks = await getHighWaterMarks(supabase, Array.from(channelIdMap.values()));
+    const channelCutoffs = new Map<string, Date>();
+    channelIdMap.forEach((channelDbId) => {
+      const mark = highWaterMarks.get(channelDbId);
+      channelCutoffs.set(
+        channelDbId,
+        mark ? new Date(mark.getTime() - HIGH_WATER_MARK_OVERLAP_MINUTES * 60 * 1000) : fallbackStart
+      );
+    });
+    const startDate = new Date(Math.min(...Array.from(channelCutoffs.values()).map(d => d.getTime())));
+    const endDate = new Date();
+
+    console.log(`Fetching readings for station ${stationName} from ${startDate.toISOString()} to ${endDate.toISOString()}`);
+    const fetched = await adapter.fetchReadings(stationInfo, channelIds, startDate, endDate);
+    await archiveFetchPayloads(supabase, fetchLog, [
+      { type: 'config_packet', payload: rawConfigPacket },
+      { type: 'readings', payload: fetched.rawPayload, metadata: fetched.payloadMetadata }
+    ]);
+    
+    const { readingsCount, channelCounts } = await storeReadings(supabase, channelIdMap, fetched.readings, channelCutoffs);
+    
+    await finishFetchLog(supabase, fetchLog, {
+      status: 'success',
+      readings_count: readingsCount,
+      channel_counts: channelCounts
+    });
+    
+    console.log(`Stored ${readingsCount} readings for station ${stationName}`);
+
+    return { ...prepared, readingsCount };
+  } catch (error) {
+    await failFetchLog(supabase, fetchLog, error);
+    throw error;
   }
-  
-  // Check if sensor has enough data
-  if (!sensor.readings || sensor.readings.length < 10) {
-    return { isValid: false, reason: 'Insufficient data' };
+};
+
+// Stop picking up new backfill chunks after this long so the invocation returns
+// before the edge runtime limit; the caller re-invokes with the job ID to resume
+const BACKFILL_TIME_BUDGET_MS = 100 * 1000;
+const DEFAULT_BACKFILL_CHUNK_DAYS = 7;
+// Longest chunk fetched from the source in one request
+const MAX_BACKFILL_CHUNK_DAYS = 31;
+// A running job untouched for longer than any invocation can run was abandoned and may be taken over
+const BACKFILL_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Request body of a backfill call: a new job's range, or the ID of a job to resume
+interface BackfillOptions {
+  jobId?: string;
+  startDate?: string;
+  endDate?: string;
+  chunkDays?: number;
+  stationIds?: (string | number)[];
+}
+
+// Create a backfill job, or load an existing one to resume it
+const getBackfillJob = async (supabase: SupabaseClient, options: BackfillOptions): Promise<Tables<'ingestion_jobs'>> => {
+  if (options.jobId) {
+    const { data: job, error } = await supabase
+      .from('ingestion_jobs')
+      .select('*')
+      .eq('id', options.jobId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load backfill job: ${error.message}`);
+    if (!job) throw new Error(`Backfill job ${options.jobId} not found`);
+    return job;
   }
-  
-  // Check current value against min/max
-  if (rule.minValue !== undefined && sensor.currentValue < rule.minValue) {
-    return { isValid: false, reason: `Value ${sensor.currentValue.toFixed(2)} below minimum ${rule.minValue}` };
+
+  const rangeStart = new Date(options.startDate ?? '');
+  const rangeEnd = options.endDate ? new Date(options.endDate) : new Date();
+  if (isNaN(rangeStart.getTime()) || isNaN(rangeEnd.getTime()) || rangeStart >= rangeEnd) {
+    throw new Error('Backfill requires a valid startDate before endDate');
   }
-  
-  if (rule.maxValue !== undefined && sensor.currentValue > rule.maxValue) {
-    return { isValid: false, reason: `Value ${sensor.currentValue.toFixed(2)} above maximum ${rule.maxValue}` };
+
+  const chunkDays = options.chunkDays ?? DEFAULT_BACKFILL_CHUNK_DAYS;
+  if (!Number.isInteger(chunkDays) || chunkDays < 1 || chunkDays > MAX_BACKFILL_CHUNK_DAYS) {
+    throw new Error(`Backfill chunkDays must be a whole number of days from 1 to ${MAX_BACKFILL_CHUNK_DAYS}`);
   }
-  
-  // Check for stuck values
-  if (rule.checkStuck) {
-    const recentValues = sensor.readings.slice(-20).map((r: any) => r.value);
-    const uniqueValues = new Set(recentValues);
-    if (uniqueValues.size === 1) {
-      return { isValid: false, reason: 'Stuck on constant value' };
+  const chunkMs = chunkDays * 24 * 60 * 60 * 1000;
+  const { data: job, error } = await supabase
+    .from('ingestion_jobs')
+    .insert({
+      job_type: 'backfill',
+      status: 'pending',
+      range_start: rangeStart.toISOString(),
+      range_end: rangeEnd.toISOString(),
+      next_chunk_start: rangeStart.toISOString(),
+      chunk_days: chunkDays,
+      chunks_total: Math.ceil((rangeEnd.getTime() - rangeStart.getTime()) / chunkMs),
+      station_ids: options.stationIds?.map(String) || null
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to create backfill job: ${error.message}`);
+  return job;
+};
+
+// Work through a backfill job chunk by chunk, saving the cursor after each one
+const runBackfill = async (supabase: SupabaseClient, options: BackfillOptions) => {
+  const invocationStartedAt = Date.now();
+  let job = await getBackfillJob(supabase, options);
+
+  if (job.status === 'completed') {
+    return job;
+  }
+
+  // Claim the job in a single update so two invocations never work through the same chunks;
+  // a job another invocation holds is returned as it is
+  const claimCutoff = new Date(Date.now() - BACKFILL_CLAIM_TIMEOUT_MS).toISOString();
+  const { data: claimed, error: claimError } = await supabase
+    .from('ingestion_jobs')
+    .update({ status: 'running', error_message: null, updated_at: new Date().toISOString() })
+    .eq('id', job.id)
+    .neq('status', 'completed')
+    .or(`status.neq.running,updated_at.lt."${claimCutoff}"`)
+    .select()
+    .maybeSingle();
+
+  if (claimError) throw new Error(`Failed to claim backfill job: ${claimError.message}`);
+  if (!claimed) {
+    console.log(`Backfill job ${job.id} is already running in another invocation`);
+    return job;
+  }
+  job = claimed;
+
+  const updateJob = async (changes: TablesUpdate<'ingestion_jobs'>) => {
+    const { data, error } = await supabase
+      .from('ingestion_jobs')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .select()
+      .single();
+    if (error) throw new Error(`Failed to update backfill job: ${error.message}`);
+    job = data;
+  };
+
+  try {
+    const adapter = createAdapter(SOURCE_TYPE);
+    const { stations, rawPayload: rawConfigPacket } = await listSourceStations(supabase, adapter, 'backfill', job.id);
+    const stationsToIngest = selectStations(stations, getConfiguredStationIds(job.station_ids));
+    if (stationsToIngest.length === 0) {
+      throw new Error('No active stations reported by the data source');
+    }
+
+    const preparedStations: PreparedStation[] = [];
+    for (const stationInfo of stationsToIngest) {
+      preparedStations.push(await prepareStation(supabase, adapter.sourceType, stationInfo));
+    }
+
+    const rangeEnd = new Date(job.range_end);
+    const chunkMs = job.chunk_days * 24 * 60 * 60 * 1000;
+
+    while (new Date(job.next_chunk_start) < rangeEnd) {
+      if (Date.now() - invocationStartedAt > BACKFILL_TIME_BUDGET_MS) {
+        console.log(`Backfill job ${job.id} paused at ${job.next_chunk_start}, time budget used`);
+        // Released so the caller's next invocation can claim it straight away
+        await updateJob({ status: 'pending' });
+        return job;
+      }
+
+      const chunkStart = new Date(job.next_chunk_start);
+      const chunkEnd = new Date(Math.min(chunkStart.getTime() + chunkMs, rangeEnd.getTime()));
+      console.log(`Backfill job ${job.id}: chunk ${job.chunks_completed + 1}/${job.chunks_total} (${chunkStart.toISOString()} to ${chunkEnd.toISOString()})`);
+
+      let chunkReadings = 0;
+      for (const prepared of preparedStations) {
+        const fetchLog = await startFetchLog(supabase, 'backfill', prepared.station.id, job.id);
+        try {
+          const fetched = await adapter.fetchReadings(prepared.source, prepared.channelIds, chunkStart, chunkEnd);
+          await archiveFetchPayloads(supabase, fetchLog, [
+            { type: 'config_packet', payload: rawConfigPacket },
+            { type: 'readings', payload: fetched.rawPayload, metadata: fetched.payloadMetadata }
+          ]);
+          const { readingsCount, channelCounts } = await storeReadings(supabase, prepared.channelIdMap, fetched.readings);
+          await finishFetchLog(supabase, fetchLog, {
+            status: 'success',
+            readings_count: readingsCount,
+            channel_counts: channelCounts
+          });
+          chunkReadings += readingsCount;
+        } catch (error) {
+          await failFetchLog(supabase, fetchLog, error);
+          throw error;
+        }
+      }
+
+      await updateJob({
+        next_chunk_start: chunkEnd.toISOString(),
+        chunks_completed: job.chunks_completed + 1,
+        readings_count: job.readings_count + chunkReadings
+      });
     }
+
+    await updateJob({ status: 'completed', completed_at: new Date().toISOString() });
+    console.log(`Backfill job ${job.id} completed with ${job.readings_count} readings`);
+    return job;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error(`Backfill job ${job.id} failed:`, error);
+    await updateJob({ status: 'failed', error_message: errorMessage });
+    return job;
   }
-  
-  // Check for extreme variance (sensor going haywire)
-  if (rule.checkVariance) {
-    const recentValues = sensor.readings.slice(-20).map((r: any) => r.value);
-    const mean = recentValues.reduce((a: number, b: number) => a + b, 0) / recentValues.length;
-    const variance = recentValues.reduce((a: number, b: number) => a + Math.pow(b - mean, 2), 0) / recentValues.length;
-    const stdDev = Math.sqrt(variance);
-    
-    if (stdDev > mean * 0.8 && mean > 1) {
-      return { isValid: false, reason: 'Erratic/unstable readings' };
+};
+
+// Rebuild a fetch run's readings from its archived source responses, replacing stored values.
+// Logged as a separate 'reprocess' fetch so the original run's record is left untouched.
+const reprocessRun = async (supabase: SupabaseClient, fetchLogId: string) => {
+  const { data: originalRun, error: runError } = await supabase
+    .from('api_fetch_log')
+    .select('id, station_id, sensor_stations(source_type)')
+    .eq('id', fetchLogId)
+    .maybeSingle()
+    // Without generated types the embedded station would be typed as an array; a run has one station
+    .overrideTypes<{ id: string; station_id: string | null; sensor_stations: { source_type: string } }, { merge: false }>();
+
+  if (runError) throw new Error(`Failed to load fetch run: ${runError.message}`);
+  if (!originalRun) throw new Error(`Fetch run ${fetchLogId} not found`);
+  if (!originalRun.station_id) throw new Error(`Fetch run ${fetchLogId} is not attributed to a station`);
+
+  const { data: payloads, error: payloadsError } = await supabase
+    .from('raw_payloads')
+    .select('storage_path')
+    .eq('fetch_log_id', fetchLogId)
+    .eq('payload_type', 'readings');
+
+  if (payloadsError) throw new Error(`Failed to load archived payloads: ${payloadsError.message}`);
+  if (!payloads || payloads.length === 0) throw new Error(`No archived readings for fetch run ${fetchLogId}`);
+
+  const fetchLog = await startFetchLog(supabase, 'reprocess', originalRun.station_id);
+
+  try {
+    const adapter = createAdapter(originalRun.sensor_stations.source_type);
+    const { data: channels, error: channelsError } = await supabase
+      .from('sensor_channels')
+      .select('id, external_id')
+      .eq('station_id', originalRun.station_id)
+      .overrideTypes<Pick<Tables<'sensor_channels'>, 'id' | 'external_id'>[], { merge: false }>();
+
+    if (channelsError) throw new Error(`Failed to load station channels: ${channelsError.message}`);
+
+    const channelIdMap: Map<string, string> = new Map(
+      (channels || []).map(c => [c.external_id, c.id])
+    );
+
+    let readingsCount = 0;
+    const channelCounts: Record<string, number> = {};
+    for (const { storage_path } of payloads) {
+      const readings = adapter.parseReadingsPayload(await loadRawPayload(supabase, storage_path));
+      const stored = await storeReadings(supabase, channelIdMap, readings, undefined, true);
+      readingsCount += stored.readingsCount;
+      Object.entries(stored.channelCounts).forEach(([channelId, count]) => {
+        channelCounts[channelId] = (channelCounts[channelId] || 0) + count;
+      });
     }
+
+    await finishFetchLog(supabase, fetchLog, {
+      status: 'success',
+      readings_count: readingsCount,
+      channel_counts: channelCounts
+    });
+
+    console.log(`Reprocessed fetch run ${fetchLogId}: ${readingsCount} readings rebuilt`);
+    return { fetchLogId: fetchLog?.id ?? null, readingsCount };
+  } catch (error) {
+    await failFetchLog(supabase, fetchLog, error);
+    throw error;
   }
-  
-  return { isValid: true };
-}
+};
 
 // Get or generate AI analysis with dual-language caching
-const getOrGenerateAnalysis = async (supabase: any, stationId: string, language: string, sensorData: any) => {
+const getOrGenerateAnalysis = async (supabase: SupabaseClient, stationId: string, language: string, sensorData: Record<string, unknown>) => {
   // Check cache (< 6 hours old)
   const sixHoursAgo = new Date(Date.now() - 6 * 60 * 60 * 1000);
   const { data: cached } = await supabase
@@ -338,6 +940,56 @@ const getOrGenerateAnalysis = async (supabase: any, stationId: string, language:
   return { analysis: requestedAnalysis, cached: false };
 };
 
+// Refresh the cached AI analysis from the dashboard's calibrated data
+const refreshAnalysis = async (supabase: SupabaseClient) => {
+  const dashboard = await loadDashboard(supabase, 'english', SOURCE_TYPE, DASHBOARD_STATION_ID);
+  if (!dashboard.station || dashboard.sensors.length === 0) {
+    console.log('No dashboard data to analyse');
+    return false;
+  }
+
+  // Sensors whose recent readings fail QC are left out of the analysis
+  const workingSensors = dashboard.sensors.filter(sensor => sensor.health.isValid);
+  const invalidSensors = dashboard.sensors.filter(sensor => !sensor.health.isValid);
+
+  if (invalidSensors.length > 0) {
+    console.log('Filtered out invalid sensors:', invalidSensors.map(sensor => ({
+      name: sensor.name,
+      reason: sensor.health.reason
+    })));
+  }
+
+  const { cached } = await getOrGenerateAnalysis(
+    supabase,
+    dashboard.station.id,
+    'english',
+    {
+      station: { name: dashboard.station.name, location: 'Mara River, Kenya' },
+      sensors: workingSensors.map(s => ({
+        name: s.name,
+        unit: s.unit,
+        current: s.currentValue,
+        min: s.readings.length > 0 ? Math.min(...s.readings.map(r => r.value)) : s.currentValue,
+        max: s.readings.length > 0 ? Math.max(...s.readings.map(r => r.value)) : s.currentValue,
+        avg: s.readings.length > 0
+          ? s.readings.reduce((sum, r) => sum + r.value, 0) / s.readings.length
+          : s.currentValue,
+        trend: s.readings.length > 1
+          ? (s.readings[s.readings.length - 1].value - s.readings[0].value)
+          : 0
+      })),
+      timeRange: '7 days',
+      invalidSensors: invalidSensors.map(sensor => ({
+        name: sensor.name,
+        reason: sensor.health.reason
+      }))
+    }
+  );
+
+  return !cached;
+};
+
+// Ingestion only: the dashboard reads stored data through the `dashboard` function
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -345,606 +997,101 @@ serve(async (req) => {
 
   try {
     const supabase = getSupabaseClient();
-    const { language = 'english', forceRefresh = false, daysBack = 7 } = await req.json().catch(() => ({}));
-    
-    const TARGET_STATION_ID = 5285; // Mara River Purungat Bridge
-    
-    // Step 1: Check if we have cached data
-    console.log("Checking cache...");
-    const cachedData = await getCachedData(supabase, TARGET_STATION_ID);
-    
-    let shouldFetch = forceRefresh || !cachedData;
-    
-    if (cachedData && !forceRefresh) {
-      // Check if we should refresh from Stevens API
-      shouldFetch = await shouldFetchFreshData(supabase, cachedData.station.id);
-      
-      if (!shouldFetch) {
-        console.log("Using cached data (still fresh)");
-        
-        // Fetch calibration offsets
-        const { data: calibrationOffsets } = await supabase
-          .from('sensor_calibration_offsets')
-          .select('*');
-        
-        const offsetsMap = new Map<string, any[]>();
-        if (calibrationOffsets) {
-          calibrationOffsets.forEach((offset: any) => {
-            if (!offsetsMap.has(offset.channel_id)) {
-              offsetsMap.set(offset.channel_id, []);
-            }
-            offsetsMap.get(offset.channel_id)!.push(offset);
-          });
-        }
-
-        const applyOffset = (value: number, channelId: string, timestamp: string): number => {
-          const offsets = offsetsMap.get(channelId);
-          if (!offsets) return value;
-          
-          const readingTime = new Date(timestamp);
-          const activeOffset = offsets.find(offset => {
-            const validFrom = new Date(offset.valid_from);
-            const validUntil = offset.valid_until ? new Date(offset.valid_until) : null;
-            return readingTime >= validFrom && (!validUntil || readingTime <= validUntil);
-          });
-          
-          return activeOffset ? value + activeOffset.offset_value : value;
-        };
-        
-        // Transform cached data to match expected format
-        const channelMap = new Map(cachedData.channels.map((c: any) => [c.id, c]));
-        const sensorDataMap = new Map<string, any>();
-        
-        cachedData.readings.forEach((reading: any) => {
-          const channel: any = channelMap.get(reading.channel_id);
-          if (!channel) return;
-          
-          const correctedValue = applyOffset(reading.value, reading.channel_id, reading.measured_at);
-          
-          const sensorKey = channel.id;
-          if (!sensorDataMap.has(sensorKey)) {
-            sensorDataMap.set(sensorKey, {
-              id: sensorKey,
-              name: channel.channel_name,
-              unit: channel.unit,
-              category: channel.category,
-              readings: [],
-              currentValue: 0,
-              currentTimestamp: '',
-            });
-          }
-          
-          const sensor = sensorDataMap.get(sensorKey);
-          sensor.readings.push({
-            timestamp: reading.measured_at,
-            value: correctedValue
-          });
-        });
-        
-        // Process sensors and calculate stats
-        const sensors = Array.from(sensorDataMap.values());
-        sensors.forEach((sensor: any) => {
-          if (sensor.readings.length > 0) {
-            sensor.readings.sort((a: any, b: any) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-            const latest = sensor.readings[sensor.readings.length - 1];
-            sensor.currentValue = latest.value;
-            sensor.currentTimestamp = latest.timestamp;
-          }
+    const body = await req.json().catch(() => ({}));
+    const { daysBack = 7, stationIds, mode } = body;
+    const triggerSource: TriggerSource = body.trigger === 'manual' ? 'manual' : 'cron';
+
+    // Reprocessing and backfills rewrite stored data and need a data manager; technicians can fetch on demand
+    if (mode === 'reprocess' || mode === 'backfill' || triggerSource === 'manual') {
+      const member = await authenticateStaff(supabase, req);
+      if (!member) {
+        return notSignedInResponse(corsHeaders);
+      }
+      const requiredRole = mode === 'reprocess' || mode === 'backfill' ? 'data_manager' : 'technician';
+      if (!hasRole(member, requiredRole)) {
+        return missingRoleResponse(corsHeaders, member, requiredRole);
+      }
+      // Polling an existing backfill job is not a new change
+      if (!(mode === 'backfill' && body.jobId)) {
+        await recordAuditEvent(supabase, member, mode ?? 'manual_fetch', body.fetchLogId ?? null, {
+          fetchLogId: body.fetchLogId,
+          startDate: body.startDate,
+          endDate: body.endDate,
+          stationIds,
         });
-        
-        // Override with actual latest values from database
-        for (const sensor of sensors) {
-          const { data: latestReading, error } = await supabase
-            .from('sensor_readings')
-            .select('value, measured_at')
-            .eq('channel_id', sensor.id)
-            .order('measured_at', { ascending: false })
-            .limit(1)
-            .maybeSingle();
-          
-          if (latestReading && !error) {
-            const correctedValue = applyOffset(latestReading.value, sensor.id, latestReading.measured_at);
-            sensor.currentValue = correctedValue;
-            sensor.currentTimestamp = latestReading.measured_at;
-          }
-        }
-        
-        // Validate sensors before AI analysis
-        const validatedSensors = sensors.map(sensor => ({
-          sensor,
-          validation: validateSensor(sensor)
-        }));
-        
-        const workingSensors = validatedSensors
-          .filter(v => v.validation.isValid)
-          .map(v => v.sensor);
-        
-        const invalidSensors = validatedSensors
-          .filter(v => !v.validation.isValid);
-        
-        if (invalidSensors.length > 0) {
-          console.log('Filtered out invalid sensors (cached):', invalidSensors.map(v => ({
-            name: v.sensor.name,
-            reason: v.validation.reason
-          })));
-        }
-        
-        // Get or generate AI analysis
-        const { analysis } = await getOrGenerateAnalysis(
-          supabase,
-          cachedData.station.id,
-          language,
-          { 
-            station: { name: cachedData.station.station_name, location: 'Mara River, Kenya' }, 
-            sensors: workingSensors.map(s => ({
-              name: s.name,
-              unit: s.unit,
-              current: s.currentValue,
-              min: Math.min(...s.readings.map((r: any) => r.value)),
-              max: Math.max(...s.readings.map((r: any) => r.value)),
-              avg: s.readings.reduce((sum: number, r: any) => sum + r.value, 0) / s.readings.length,
-              trend: s.readings.length > 1 ? (s.readings[s.readings.length - 1].value - s.readings[0].value) : 0
-            })),
-            timeRange: '7 days', 
-            language,
-            invalidSensors: invalidSensors.map(v => ({
-              name: v.sensor.name,
-              reason: v.validation.reason
-            }))
-          }
-        );
-        
-        return new Response(
-          JSON.stringify({
-            data: {
-              station: {
-                id: cachedData.station.stevens_station_id,
-                name: cachedData.station.station_name,
-                code: cachedData.station.station_code
-              },
-              sensors,
-              analysis,
-              language: language,
-              cached: true,
-              lastUpdated: cachedData.station.updated_at,
-              timestamp: new Date().toISOString()
-            }
-          }),
-          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
       }
     }
-    
-    console.log("Fetching fresh data from Stevens API...");
-    console.log("Step 1: Authenticating with Stevens-Connect API...");
-    
-    const email = Deno.env.get('STEVENS_EMAIL');
-    const password = Deno.env.get('STEVENS_PASSWORD');
 
-    if (!email || !password) {
-      throw new Error('Missing Stevens credentials');
+    if (mode === 'reprocess') {
+      const result = await reprocessRun(supabase, body.fetchLogId);
+      return new Response(
+        JSON.stringify({ success: true, data: result }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    // Step 1: Authenticate using form data
-    const authBody = new URLSearchParams();
-    authBody.append('email', email);
-    authBody.append('password', password);
-
-    const authResponse = await fetch(`${BASE_URL}/authenticate`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: authBody.toString(),
-    });
-
-    if (!authResponse.ok) {
-      const errorText = await authResponse.text();
-      console.error('Authentication failed:', errorText);
-      throw new Error(`Authentication failed: ${authResponse.status}`);
+    // Historical backfill runs as a resumable job and reports its progress
+    if (mode === 'backfill') {
+      const job = await runBackfill(supabase, body);
+      return new Response(
+        JSON.stringify({ job }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    const authData = await authResponse.json();
-    let token = authData.data?.token;
-
-    if (!token) {
-      console.error('No token in response:', authData);
-      throw new Error('No token received from authentication');
+    if (triggerSource === 'cron' && await hasRecentFetch(supabase)) {
+      console.log(`Skipping fetch: last run started less than ${MIN_FETCH_INTERVAL_MINUTES} minutes ago`);
+      return new Response(
+        JSON.stringify({ success: true, skipped: true }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    console.log('Authentication successful');
-    console.log('Step 2: Fetching configuration packet...');
+    const adapter = createAdapter(SOURCE_TYPE);
+    const { stations, rawPayload: rawConfigPacket } = await listSourceStations(supabase, adapter, triggerSource);
 
-    // Step 2: Get configuration packet
-    const configResponse = await fetch(`${BASE_URL}/config-packet`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-    });
-
-    if (!configResponse.ok) {
-      const errorText = await configResponse.text();
-      console.error('Config fetch failed:', errorText);
-      throw new Error(`Config fetch failed: ${configResponse.status}`);
-    }
-
-    // Update token if provided in response header
-    const newToken = configResponse.headers.get('X-Token');
-    if (newToken) {
-      token = newToken;
-      console.log('Token refreshed from config response');
-    }
-
-    const configData = await configResponse.json();
-
-    // Extract project and station info
-    const projects = configData.data?.config_packet?.projects || [];
-    if (projects.length === 0) {
-      throw new Error('No projects found in config packet');
-    }
-
-    const project = projects[0];
-    const projectId = project.id;
-    
-    // Find the specific station "Mara River Purungat Bridge"
-    const TARGET_STATION_NAME = 'Mara River Purungat Bridge';
-    const allStations = project.stations || [];
-    const targetStation = allStations.find((s: any) => 
-      s.name === TARGET_STATION_NAME
-    );
-    
-    if (!targetStation) {
-      throw new Error(`Station "${TARGET_STATION_NAME}" not found in project`);
-    }
-    
-    const targetStationId = targetStation.id;
-    const targetStationName = targetStation.name;
-    console.log(`Found target station: ${targetStationName} (ID: ${targetStationId})`);
-    
-    // Step 2.5: Extract station-specific channels from config packet
-    console.log('Step 2.5: Extracting station channels from config packet...');
-
-    const stationSensors = targetStation.sensors || [];
-    console.log(`Found ${stationSensors.length} sensors for station ${targetStationName}`);
-
-    // Flatten all channels from all sensors
-    const stationChannels: any[] = [];
-    stationSensors.forEach((sensor: any) => {
-      const sensorChannels = sensor.channels || [];
-      sensorChannels.forEach((channel: any) => {
-        stationChannels.push({
-          ...channel,
-          sensor_id: sensor.id,
-          sensor_name: sensor.name,
-          sensor_status: sensor.status
-        });
-      });
-    });
-
-    // Filter for active sensors only
-    const activeChannels = stationChannels.filter((ch: any) => ch.sensor_status === 1);
-
-    // Filter for M 20 sensors only
-    const m20Channels = activeChannels.filter((ch: any) => ch.sensor_name === "M 20");
-    console.log(`Filtered to ${m20Channels.length} M 20 channels`);
-
-    // Get units dictionary from config packet
-    const units = configData.data?.config_packet?.units || [];
-    const unitMap = new Map(units.map((u: any) => [u.id, u.unit]));
-
-    // Build channel map with proper metadata (M 20 only)
-    const channelMap = new Map<number, any>();
-    m20Channels.forEach((ch: any) => {
-      channelMap.set(ch.id, {
-        id: ch.id,
-        name: ch.name,
-        sensorName: ch.sensor_name || 'Unknown Sensor',
-        unit: unitMap.get(ch.unit_id) || '',
-        precision: 2,
-        category: ch.sensor_name || 'Other Sensors'
-      });
-    });
-
-    const channelIds = Array.from(channelMap.keys());
-    const channels = Array.from(channelMap.values());
-
-    if (channelIds.length === 0) {
-      throw new Error('No channels found for the target station');
-    }
-
-    console.log(`Found ${channelIds.length} unique channels for station ${targetStationName}`);
-    console.log('Step 3: Fetching readings data...');
-
-    // Step 3: Fetch readings for all channels
-    const minutes = daysBack * 24 * 60; // Convert days to minutes
-    console.log(`Fetching ${daysBack} days of data (${minutes} minutes)...`);
-    
-    const readingsUrl = new URL(`${BASE_URL}/project/${projectId}/readings/v3/channels`);
-    readingsUrl.searchParams.append('channel_ids', channelIds.join(','));
-    readingsUrl.searchParams.append('range_type', 'relative');
-    readingsUrl.searchParams.append('start_date', 'null');
-    readingsUrl.searchParams.append('end_date', 'null');
-    readingsUrl.searchParams.append('minutes', minutes.toString());
-    readingsUrl.searchParams.append('transformation', 'none');
-
-    const readingsResponse = await fetch(readingsUrl.toString(), {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-    });
-
-    if (!readingsResponse.ok) {
-      const errorText = await readingsResponse.text();
-      console.error('Readings fetch failed:', errorText);
-      throw new Error(`Readings fetch failed: ${readingsResponse.status}`);
+    // Select the stations to ingest
+    const stationsToIngest = selectStations(stations, getConfiguredStationIds(stationIds));
+    if (stationsToIngest.length === 0) {
+      throw new Error('No active stations reported by the data source');
     }
+    console.log(`Ingesting ${stationsToIngest.length} station(s): ${stationsToIngest.map(s => s.name).join(', ')}`);
 
-    const readingsData = await readingsResponse.json();
-    console.log('Readings data received');
-
-    // Step 4: Transform data into structured sensor objects
-    const readingsObject = readingsData.data?.readings || {};
-
-    // Create a map of channel_id to full readings array
-    const channelReadingsMap = new Map<number, Array<{ timestamp: string; value: number }>>();
-    
-    // Readings is an object keyed by channel_id
-    Object.entries(readingsObject).forEach(([channelId, readings]: [string, any]) => {
-      if (Array.isArray(readings) && readings.length > 0) {
-        const parsedReadings = readings
-          .map((r: any) => ({
-            timestamp: r.timestamp || r.measured_at || new Date().toISOString(),
-            value: parseFloat(r.reading)
-          }))
-          .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
-        channelReadingsMap.set(parseInt(channelId), parsedReadings);
+    // Ingest each station separately so one failing site does not block the others
+    const ingestedStations: IngestedStation[] = [];
+    for (const stationInfo of stationsToIngest) {
+      try {
+        ingestedStations.push(
+          await ingestStation(supabase, adapter, stationInfo, daysBack, triggerSource, rawConfigPacket)
+        );
+      } catch (error) {
+        console.error(`Failed to ingest station ${stationInfo.name} (ID: ${stationInfo.externalId}):`, error);
       }
-    });
-
-    // Fetch calibration offsets and stored channel data
-    const { data: storedChannels } = await supabase
-      .from('sensor_channels')
-      .select('id, stevens_channel_id');
-    
-    const stevensToDbChannelMap = new Map<number, string>();
-    if (storedChannels) {
-      storedChannels.forEach((ch: any) => {
-        stevensToDbChannelMap.set(ch.stevens_channel_id, ch.id);
-      });
-    }
-
-    const { data: calibrationOffsets } = await supabase
-      .from('sensor_calibration_offsets')
-      .select('*');
-    
-    const offsetsMap = new Map<string, any[]>();
-    if (calibrationOffsets) {
-      calibrationOffsets.forEach((offset: any) => {
-        if (!offsetsMap.has(offset.channel_id)) {
-          offsetsMap.set(offset.channel_id, []);
-        }
-        offsetsMap.get(offset.channel_id)!.push(offset);
-      });
     }
 
-    // Helper function to apply calibration offset
-    const applyOffset = (value: number, channelDbId: string, timestamp: string): number => {
-      const offsets = offsetsMap.get(channelDbId);
-      if (!offsets) return value;
-      
-      const readingTime = new Date(timestamp);
-      const activeOffset = offsets.find(offset => {
-        const validFrom = new Date(offset.valid_from);
-        const validUntil = offset.valid_until ? new Date(offset.valid_until) : null;
-        return readingTime >= validFrom && (!validUntil || readingTime <= validUntil);
-      });
-      
-      return activeOffset ? value + activeOffset.offset_value : value;
-    };
-
-    console.log('Storing data first...');
-    
-    // Store data synchronously so we can query the actual latest values
-    const { station, channels: dbChannels } = await storeMetadata(supabase, targetStation, channels);
-    
-    // Create channel ID map
-    const channelIdMap: Map<number, string> = new Map(
-      dbChannels.map((c: any) => [c.stevens_channel_id, c.id])
-    );
-    
-    // Store readings
-    const readingsCount = await storeReadings(supabase, channelIdMap, readingsObject);
-    
-    // Log the fetch
-    await supabase.from('api_fetch_log').insert({
-      station_id: station.id,
-      fetch_started_at: new Date().toISOString(),
-      fetch_completed_at: new Date().toISOString(),
-      status: 'success',
-      readings_count: readingsCount
-    });
-    
-    console.log(`Stored ${readingsCount} readings in database`);
-
-    // Now query the database for the actual latest readings
-    console.log('Fetching latest values from database...');
-    const sensors: any[] = [];
-
-    for (const channel of channels) {
-      const channelDbId = channelIdMap.get(channel.id);
-      if (!channelDbId) continue;
-
-      // Query the latest reading from the database
-      const { data: latestReadings, error } = await supabase
-        .from('sensor_readings')
-        .select('value, measured_at')
-        .eq('channel_id', channelDbId)
-        .order('measured_at', { ascending: false })
-        .limit(1);
-
-      if (error) {
-        console.error(`Error fetching latest reading for channel ${channel.name}:`, error);
-        continue;
-      }
-
-      if (latestReadings && latestReadings.length > 0) {
-        const latestReading = latestReadings[0];
-        
-        // Apply calibration offset to the database value
-        const correctedCurrentValue = applyOffset(
-          latestReading.value, 
-          channelDbId, 
-          latestReading.measured_at
-        );
-
-        // Also fetch last 7 days of readings for the readings array
-        const sevenDaysAgo = new Date();
-        sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-
-        const { data: historicalReadings } = await supabase
-          .from('sensor_readings')
-          .select('value, measured_at')
-          .eq('channel_id', channelDbId)
-          .gte('measured_at', sevenDaysAgo.toISOString())
-          .order('measured_at', { ascending: true });
-
-        const sensor = {
-          id: channelDbId,
-          name: channel.name,
-          unit: channel.unit,
-          category: channel.category,
-          currentValue: parseFloat(correctedCurrentValue.toFixed(channel.precision)),
-          currentTimestamp: latestReading.measured_at,
-          readings: (historicalReadings || []).map(r => ({
-            timestamp: r.measured_at,
-            value: applyOffset(r.value, channelDbId, r.measured_at)
-          }))
-        };
-
-        sensors.push(sensor);
-      }
+    if (ingestedStations.length === 0) {
+      throw new Error('Failed to ingest any station');
     }
 
     console.log('Data fetch complete');
-    
-    // Generate AI analysis if we have sensor data
-    let analysisText = '';
-    if (sensors.length > 0) {
-      try {
-        // Validate sensors before AI analysis
-        const validatedSensors = sensors.map(sensor => ({
-          sensor,
-          validation: validateSensor(sensor)
-        }));
-        
-        const workingSensors = validatedSensors
-          .filter(v => v.validation.isValid)
-          .map(v => v.sensor);
-        
-        const invalidSensors = validatedSensors
-          .filter(v => !v.validation.isValid);
-        
-        if (invalidSensors.length > 0) {
-          console.log('Filtered out invalid sensors:', invalidSensors.map(v => ({
-            name: v.sensor.name,
-            reason: v.validation.reason
-          })));
-        }
-        
-        const analysisPayload = {
-          station: {
-            name: targetStationName,
-            location: 'Mara River, Kenya'
-          },
-          sensors: workingSensors.map(s => ({
-            name: s.name,
-            unit: s.unit,
-            current: s.currentValue,
-            min: s.readings?.length > 0 ? Math.min(...s.readings.map((r: any) => r.value)) : s.currentValue,
-            max: s.readings?.length > 0 ? Math.max(...s.readings.map((r: any) => r.value)) : s.currentValue,
-            avg: s.readings?.length > 0 
-              ? s.readings.reduce((sum: number, r: any) => sum + r.value, 0) / s.readings.length 
-              : s.currentValue,
-            trend: s.readings?.length > 1 
-              ? (s.readings[s.readings.length - 1].value - s.readings[0].value) 
-              : 0
-          })),
-          timeRange: '7 days',
-          language: language,
-          invalidSensors: invalidSensors.map(v => ({
-            name: v.sensor.name,
-            reason: v.validation.reason
-          }))
-        };
-
-        // Check if we have station UUID from cache
-        if (cachedData?.station?.id) {
-          const { analysis } = await getOrGenerateAnalysis(
-            supabase,
-            cachedData.station.id,
-            language,
-            analysisPayload
-          );
-          analysisText = analysis;
-        } else {
-          // Fallback to direct call if no station UUID yet
-          const analysisResponse = await fetch(
-            `${Deno.env.get('SUPABASE_URL')}/functions/v1/analyze-river-health`,
-            {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${Deno.env.get('SUPABASE_ANON_KEY')}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify(analysisPayload)
-            }
-          );
-
-          if (analysisResponse.ok) {
-            const analysisData = await analysisResponse.json();
-            analysisText = analysisData.analysis;
-          }
-        }
-        console.log('AI analysis generated successfully');
-      } catch (error) {
-        console.error('Failed to generate AI analysis:', error);
-      }
-    }
 
-    if (sensors.length === 0) {
-      return new Response(JSON.stringify({ 
-        data: {
-          station: {
-            name: targetStationName,
-            id: targetStationId,
-            code: 'CF4DF9C92B33'
-          },
-          sensors: [],
-          timestamp: new Date().toISOString(),
-          message: 'No data available for the past 7 days. Please check if sensors are active.'
-        }
-      }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+    // A failed analysis must not fail the ingestion run
+    let analysisRefreshed = false;
+    try {
+      analysisRefreshed = await refreshAnalysis(supabase);
+    } catch (error) {
+      console.error('Failed to refresh AI analysis:', error);
     }
 
-    // Return structured data with station info and sensors
-    return new Response(JSON.stringify({ 
-      data: {
-        station: {
-          name: targetStationName,
-          id: targetStationId,
-          code: 'CF4DF9C92B33'
-        },
-        sensors,
-        timestamp: new Date().toISOString(),
-        analysis: analysisText,
-        language: language,
-        cached: false,
-        lastUpdated: new Date().toISOString()
-      }
+    return new Response(JSON.stringify({
+      success: true,
+      stations: ingestedStations.map(({ station, readingsCount }) => ({
+        sourceType: station.source_type,
+        externalId: station.external_id,
+        name: station.station_name,
+        readingsCount
+      })),
+      analysisRefreshed
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -1,4 +1,9 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { getChannelRules, resolveChannelRule } from '../_shared/channel-rules.ts';
+import { AdminActionResult, AppRole, authenticateStaff, hasRole, missingRoleResponse, notSignedInResponse, recordAuditEvent, StaffMember } from '../_shared/admin.ts';
+import { loadQcRules, recheckChannel, runQcForChannels } from '../_shared/qc-store.ts';
+import { errorMessage } from '../_shared/errors.ts';
+import { CalibrationModel, CalibrationModelType, validateCalibrationModel } from '../_shared/calibration.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -6,66 +11,557 @@ const corsHeaders = {
 };
 
 interface OffsetRequest {
-  action: 'create' | 'update' | 'delete' | 'delete_reading';
-  password: string;
+  action:
+    | 'create'
+    | 'update'
+    | 'delete'
+    | 'exclude_reading'
+    | 'restore_reading'
+    | 'bulk_update_readings'
+    | 'set_quality_flag'
+    | 'create_ingest_rule'
+    | 'update_ingest_rule'
+    | 'delete_ingest_rule'
+    | 'upsert_qc_rule'
+    | 'delete_qc_rule'
+    | 'run_qc'
+    | 'set_expected_interval'
+    | 'commit_upload'
+    | 'create_reference_check'
+    | 'delete_reference_check'
+    | 'set_user_role';
   data?: {
     id?: string;
     channel_id?: string;
+    model_type?: CalibrationModelType;
     offset_value?: number;
+    gain?: number | null;
+    coefficients?: number[] | null;
+    lookup_points?: { raw: number; reference: number }[] | null;
+    drift_start_error?: number | null;
+    drift_end_error?: number | null;
+    start_check_id?: string | null;
+    end_check_id?: string | null;
     valid_from?: string;
     valid_until?: string | null;
     reason?: string;
     reading_id?: string;
+    excluded_reason?: string;
+    excluded_by?: string;
+    reading_ids?: string[];
+    operation?: BulkOperation;
+    quality_flag?: 'good' | 'manual';
+    station_id?: string;
+    sensor_name?: string;
+    channel_name?: string | null;
+    ingest?: boolean;
+    visibility?: 'public' | 'internal';
+    min_value?: number | null;
+    max_value?: number | null;
+    max_rate_of_change?: number | null;
+    flatline_minutes?: number | null;
+    flatline_tolerance?: number;
+    spike_mad_threshold?: number | null;
+    spike_window_minutes?: number | null;
+    neighbor_channel_id?: string | null;
+    max_neighbor_difference?: number | null;
+    range_start?: string;
+    range_end?: string;
+    expected_interval_minutes?: number;
+    file_name?: string;
+    source_kind?: 'field_meter' | 'logger_file';
+    uploaded_by?: string;
+    notes?: string | null;
+    mapping?: Record<string, unknown>;
+    readings?: UploadedReading[];
+    checked_at?: string;
+    reference_value?: number;
+    instrument?: string;
+    operator?: string;
+    user_id?: string;
+    role?: AppRole | null;
   };
 }
 
+// The least role each action needs
+const ACTION_ROLES: Record<OffsetRequest['action'], AppRole> = {
+  create: 'technician',
+  update: 'technician',
+  delete: 'data_manager',
+  exclude_reading: 'technician',
+  restore_reading: 'technician',
+  bulk_update_readings: 'technician',
+  set_quality_flag: 'technician',
+  create_ingest_rule: 'data_manager',
+  update_ingest_rule: 'data_manager',
+  delete_ingest_rule: 'data_manager',
+  upsert_qc_rule: 'data_manager',
+  delete_qc_rule: 'data_manager',
+  run_qc: 'technician',
+  set_expected_interval: 'data_manager',
+  commit_upload: 'technician',
+  create_reference_check: 'technician',
+  delete_reference_check: 'data_manager',
+  set_user_role: 'data_manager',
+};
+
+// What an action hands back; a record's `id` and `deleted` are also kept in the audit log
+type ActionData = { id?: string; deleted?: unknown; [key: string]: unknown } | unknown[];
+
+type BulkOperation = 'flag' | 'unflag' | 'exclude' | 'offset';
+
+interface UploadedReading {
+  channel_id: string;
+  measured_at: string;
+  value: number;
+}
+
+const UPLOAD_BATCH_SIZE = 1000;
+// Reading IDs per bulk update, keeping the filter within URL length limits
+const BULK_UPDATE_BATCH_SIZE = 200;
+// Most readings one bulk action may change
+const MAX_BULK_READINGS = 20000;
+// Sonde readings further than this from a reference check are not matched to it
+const REFERENCE_CHECK_MAX_OFFSET_MINUTES = 60;
+
+// Whether the channel already has an offset whose validity period overlaps [validFrom, validUntil]
+const hasOverlappingOffset = async (
+  supabase: SupabaseClient,
+  channelId: string,
+  validFrom: string,
+  validUntil: string | null | undefined
+) => {
+  const { data: existing, error } = await supabase
+    .from('sensor_calibration_offsets')
+    .select('id')
+    .eq('channel_id', channelId)
+    .or(`valid_until.is.null,valid_until.gte.${validFrom}`)
+    .lte('valid_from', validUntil || '9999-12-31');
+
+  if (error) {
+    console.error('Error checking overlaps:', error);
+    throw error;
+  }
+  return !!existing && existing.length > 0;
+};
+
+// The calibration model columns for a new record, with the ones its model does not use cleared.
+// Throws when the model is incomplete.
+const calibrationModelFields = (data: NonNullable<OffsetRequest['data']>): CalibrationModel => {
+  const modelType = data.model_type ?? 'offset';
+  const model: CalibrationModel = {
+    model_type: modelType,
+    // Required for an offset, defaults to none for a linear model and unused by the others
+    offset_value: modelType === 'offset' ? data.offset_value! : modelType === 'linear' ? data.offset_value ?? 0 : 0,
+    gain: modelType === 'linear' ? data.gain ?? null : null,
+    coefficients: modelType === 'polynomial' ? data.coefficients ?? null : null,
+    lookup_points: modelType === 'lookup' ? data.lookup_points ?? null : null,
+    drift_start_error: modelType === 'drift' ? data.drift_start_error ?? null : null,
+    drift_end_error: modelType === 'drift' ? data.drift_end_error ?? null : null,
+  };
+  const invalid = validateCalibrationModel(model);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+  // The drift ramp runs between the two checks, so it needs both ends of the window
+  if (modelType === 'drift' && !data.valid_until) {
+    throw new Error('A drift correction needs an end date, the time of the second check');
+  }
+  return model;
+};
+
+// Apply one operation to a selection of a channel's readings in a single request.
+// The offset operation covers the selection's time window rather than the individual readings.
+const bulkUpdateReadings = async (supabase: SupabaseClient, data: NonNullable<OffsetRequest['data']>, member: StaffMember) => {
+  if (!data.channel_id) {
+    throw new Error('Channel ID required for bulk_update_readings action');
+  }
+
+  if (data.operation === 'offset') {
+    if (!data.valid_from || !data.valid_until || !data.reason?.trim()) {
+      throw new Error('The selection window and a reason are required');
+    }
+    const model = calibrationModelFields(data);
+    if (await hasOverlappingOffset(supabase, data.channel_id, data.valid_from, data.valid_until)) {
+      throw new Error('Overlapping offset period exists for this sensor');
+    }
+
+    const { data: created, error: createError } = await supabase
+      .from('sensor_calibration_offsets')
+      .insert({
+        channel_id: data.channel_id,
+        ...model,
+        valid_from: data.valid_from,
+        valid_until: data.valid_until,
+        reason: data.reason.trim(),
+        created_by: member.id,
+      })
+      .select()
+      .single();
+
+    if (createError) {
+      console.error('Error creating offset for selection:', createError);
+      throw createError;
+    }
+
+    console.log('Created offset for selection:', created.id);
+    return { operation: data.operation, offset: created };
+  }
+
+  const readingIds = data.reading_ids || [];
+  if (readingIds.length === 0) {
+    throw new Error('No readings selected');
+  }
+  if (readingIds.length > MAX_BULK_READINGS) {
+    throw new Error(`At most ${MAX_BULK_READINGS} readings can be changed at once`);
+  }
+
+  let changes: Record<string, unknown>;
+  switch (data.operation) {
+    case 'flag':
+      changes = { quality_flag: 'manual' };
+      break;
+    case 'unflag':
+      changes = { quality_flag: 'good' };
+      break;
+    case 'exclude':
+      if (!data.excluded_reason?.trim() || !data.excluded_by?.trim()) {
+        throw new Error('A reason and the operator name are required to exclude readings');
+      }
+      changes = {
+        excluded_at: new Date().toISOString(),
+        excluded_reason: data.excluded_reason.trim(),
+        excluded_by: data.excluded_by.trim(),
+      };
+      break;
+    default:
+      throw new Error(`Unknown bulk operation: ${data.operation}`);
+  }
+
+  let updated = 0;
+  for (let i = 0; i < readingIds.length; i += BULK_UPDATE_BATCH_SIZE) {
+    const batch = readingIds.slice(i, i + BULK_UPDATE_BATCH_SIZE);
+    // Scoped to the channel so a selection can never reach another channel's readings
+    const { data: rows, error } = await supabase
+      .from('sensor_readings')
+      .update(changes)
+      .eq('channel_id', data.channel_id)
+      .in('id', batch)
+      .select('id');
+
+    if (error) {
+      console.error('Error in bulk reading update:', error);
+      throw error;
+    }
+    updated += rows?.length || 0;
+  }
+
+  console.log(`Bulk ${data.operation} on channel ${data.channel_id}: ${updated} of ${readingIds.length} readings updated`);
+  return { operation: data.operation, updated };
+};
+
+// The channel's stored reading on either side of `time`, ignoring excluded readings
+const adjacentReading = async (supabase: SupabaseClient, channelId: string, time: string, side: 'before' | 'after') => {
+  const limit = new Date(
+    new Date(time).getTime() + (side === 'before' ? -1 : 1) * REFERENCE_CHECK_MAX_OFFSET_MINUTES * 60 * 1000
+  ).toISOString();
+  let query = supabase
+    .from('sensor_readings')
+    .select('value, measured_at')
+    .eq('channel_id', channelId)
+    .is('excluded_at', null);
+  query = side === 'before'
+    ? query.lte('measured_at', time).gte('measured_at', limit).order('measured_at', { ascending: false })
+    : query.gte('measured_at', time).lte('measured_at', limit).order('measured_at', { ascending: true });
+
+  const { data: rows, error } = await query.limit(1);
+  if (error) {
+    console.error('Error finding sonde reading for reference check:', error);
+    throw error;
+  }
+  return rows?.[0] as { value: number; measured_at: string } | undefined;
+};
+
+// Record a field check against the channel's own reading at that time: interpolated between the
+// readings either side when both are within range, otherwise the one reading that is
+const createReferenceCheck = async (supabase: SupabaseClient, data: NonNullable<OffsetRequest['data']>, member: StaffMember) => {
+  if (!data.channel_id || !data.checked_at || !Number.isFinite(data.reference_value)) {
+    throw new Error('channel_id, checked_at and reference_value are required for create_reference_check');
+  }
+  if (!data.instrument?.trim() || !data.operator?.trim()) {
+    throw new Error('The instrument and the operator name are required');
+  }
+
+  const before = await adjacentReading(supabase, data.channel_id, data.checked_at, 'before');
+  const after = await adjacentReading(supabase, data.channel_id, data.checked_at, 'after');
+  if (!before && !after) {
+    throw new Error(`No sonde reading within ${REFERENCE_CHECK_MAX_OFFSET_MINUTES} minutes of the check`);
+  }
+
+  const checkTime = new Date(data.checked_at).getTime();
+  let sondeValue: number;
+  if (before && after && before.measured_at !== after.measured_at) {
+    const beforeTime = new Date(before.measured_at).getTime();
+    const afterTime = new Date(after.measured_at).getTime();
+    sondeValue = before.value + ((checkTime - beforeTime) * (after.value - before.value)) / (afterTime - beforeTime);
+  } else {
+    sondeValue = (before ?? after)!.value;
+  }
+  const nearest = before && after
+    ? (checkTime - new Date(before.measured_at).getTime() <= new Date(after.measured_at).getTime() - checkTime ? before : after)
+    : (before ?? after)!;
+
+  const { data: created, error } = await supabase
+    .from('reference_checks')
+    .insert({
+      channel_id: data.channel_id,
+      checked_at: data.checked_at,
+      reference_value: data.reference_value,
+      sonde_value: sondeValue,
+      sonde_measured_at: nearest.measured_at,
+      instrument: data.instrument.trim(),
+      operator: data.operator.trim(),
+      notes: data.notes?.trim() || null,
+      created_by: member.id,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating reference check:', error);
+    throw error;
+  }
+
+  console.log(`Recorded reference check ${created.id} on channel ${data.channel_id}`);
+  return created;
+};
+
+// Give a staff member a single role, or remove their access when `role` is null
+const setUserRole = async (supabase: SupabaseClient, userId: string, role: AppRole | null) => {
+  const { error } = await supabase.rpc('set_user_role', { p_user_id: userId, p_role: role });
+
+  if (error) {
+    console.error('Error setting role:', error);
+    throw error;
+  }
+
+  console.log(`Set role of user ${userId} to ${role ?? 'none'}`);
+  return { user_id: userId, role };
+};
+
+// Store an upload's readings under a new reading_uploads record, then run QC over the uploaded window.
+// Readings already stored for the same channel and timestamp are kept and counted as skipped.
+const commitUpload = async (supabase: SupabaseClient, data: NonNullable<OffsetRequest['data']>) => {
+  const readings = data.readings || [];
+  if (!data.station_id || !data.file_name || !data.source_kind || !data.uploaded_by?.trim()) {
+    throw new Error('station_id, file_name, source_kind and uploaded_by are required for commit_upload');
+  }
+  if (readings.length === 0) {
+    throw new Error('No readings to commit');
+  }
+
+  const { data: channels, error: channelsError } = await supabase
+    .from('sensor_channels')
+    .select('id')
+    .eq('station_id', data.station_id);
+
+  if (channelsError) {
+    console.error('Error loading station channels:', channelsError);
+    throw channelsError;
+  }
+
+  const stationChannelIds = new Set((channels || []).map((c: { id: string }) => c.id));
+  const invalid = readings.find(r =>
+    !stationChannelIds.has(r.channel_id) ||
+    !Number.isFinite(r.value) ||
+    isNaN(new Date(r.measured_at).getTime())
+  );
+  if (invalid) {
+    throw new Error(`Invalid reading for channel ${invalid.channel_id} at ${invalid.measured_at}`);
+  }
+
+  const { data: upload, error: uploadError } = await supabase
+    .from('reading_uploads')
+    .insert({
+      station_id: data.station_id,
+      file_name: data.file_name,
+      source_kind: data.source_kind,
+      uploaded_by: data.uploaded_by.trim(),
+      notes: data.notes || null,
+      mapping: data.mapping || {},
+      rows_submitted: readings.length
+    })
+    .select()
+    .single();
+
+  if (uploadError) {
+    console.error('Error creating upload record:', uploadError);
+    throw uploadError;
+  }
+
+  let inserted = 0;
+  for (let i = 0; i < readings.length; i += UPLOAD_BATCH_SIZE) {
+    const batch = readings.slice(i, i + UPLOAD_BATCH_SIZE).map(r => ({
+      channel_id: r.channel_id,
+      measured_at: new Date(r.measured_at).toISOString(),
+      value: r.value,
+      source: 'upload',
+      upload_id: upload.id
+    }));
+
+    const { data: insertedRows, error: insertError } = await supabase
+      .from('sensor_readings')
+      .upsert(batch, { onConflict: 'channel_id,measured_at', ignoreDuplicates: true })
+      .select('id');
+
+    if (insertError) {
+      console.error('Error inserting uploaded readings:', insertError);
+      throw insertError;
+    }
+    inserted += insertedRows?.length || 0;
+  }
+
+  const { data: finished, error: finishError } = await supabase
+    .from('reading_uploads')
+    .update({ readings_inserted: inserted, readings_skipped: readings.length - inserted })
+    .eq('id', upload.id)
+    .select()
+    .single();
+
+  if (finishError) {
+    console.error('Error updating upload record:', finishError);
+    throw finishError;
+  }
+
+  // Uploaded readings are stored unchecked; flag them the way ingestion flags fetched readings
+  // Reduced rather than spread, as an upload can hold more readings than a call takes arguments
+  const times = readings.map(r => new Date(r.measured_at).getTime());
+  const firstTime = times.reduce((min, t) => Math.min(min, t));
+  const lastTime = times.reduce((max, t) => Math.max(max, t));
+  const qcResults = await runQcForChannels(
+    supabase,
+    Array.from(new Set(readings.map(r => r.channel_id))),
+    new Date(firstTime),
+    new Date(lastTime + 1)
+  );
+
+  console.log(`Committed upload ${upload.id}: ${inserted} of ${readings.length} readings inserted, ` +
+    `${qcResults.reduce((sum, r) => sum + r.changed, 0)} flag(s) changed by QC`);
+  return finished;
+};
+
+// Longest period one run_qc call re-checks, keeping it within the edge runtime limit
+const MAX_QC_RANGE_DAYS = 31;
+
+// Re-run QC over a period for one channel, or every channel of a station that has a rule
+const runQcOnDemand = async (supabase: SupabaseClient, data: NonNullable<OffsetRequest['data']>) => {
+  const start = new Date(data.range_start!);
+  const end = new Date(data.range_end!);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+    throw new Error('range_start must be a valid time before range_end');
+  }
+  if (end.getTime() - start.getTime() > MAX_QC_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    throw new Error(`QC can be re-run over at most ${MAX_QC_RANGE_DAYS} days at a time`);
+  }
+
+  let query = supabase.from('sensor_channels').select('id, sensor_name, channel_name');
+  query = data.channel_id ? query.eq('id', data.channel_id) : query.eq('station_id', data.station_id);
+  const { data: channels, error: channelsError } = await query;
+
+  if (channelsError) {
+    console.error('Error loading channels for QC:', channelsError);
+    throw channelsError;
+  }
+
+  const rules = await loadQcRules(supabase, (channels || []).map((c: { id: string }) => c.id));
+  const results = [];
+  for (const channel of channels || []) {
+    if (!rules.has(channel.id)) continue;
+    const checked = await recheckChannel(supabase, channel.id, rules.get(channel.id), start, end);
+    results.push({ ...checked, channelName: `${channel.sensor_name} - ${channel.channel_name}` });
+  }
+
+  console.log(`Re-ran QC on ${results.length} channel(s): ${results.reduce((sum, r) => sum + r.changed, 0)} flag(s) changed`);
+  return results;
+};
+
+// Re-resolve every channel still in the station's config packet against its rules so changes show up without waiting for ingestion
+const applyChannelRules = async (supabase: SupabaseClient, stationId: string) => {
+  const rules = await getChannelRules(supabase, stationId);
+
+  const { data: channels, error } = await supabase
+    .from('sensor_channels')
+    .select('id, sensor_name, channel_name, is_active, visibility')
+    .eq('station_id', stationId)
+    .is('removed_at', null);
+
+  if (error) {
+    console.error('Error loading station channels:', error);
+    throw error;
+  }
+
+  for (const channel of channels || []) {
+    const { ingest, visibility } = resolveChannelRule(rules, channel.sensor_name, channel.channel_name);
+    if (channel.is_active === ingest && channel.visibility === visibility) continue;
+
+    const { error: updateError } = await supabase
+      .from('sensor_channels')
+      .update({ is_active: ingest, visibility, updated_at: new Date().toISOString() })
+      .eq('id', channel.id);
+
+    if (updateError) {
+      console.error('Error applying channel rules:', updateError);
+      throw updateError;
+    }
+  }
+};
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { action, password, data }: OffsetRequest = await req.json();
+    const { action, data }: OffsetRequest = await req.json();
 
     console.log('Calibration offset request:', { action, hasData: !!data });
 
-    // Validate password
-    const CALIBRATION_PASSWORD = Deno.env.get('CALIBRATION_PASSWORD');
-    if (!CALIBRATION_PASSWORD || password !== CALIBRATION_PASSWORD) {
-      console.error('Invalid password attempt');
-      return new Response(
-        JSON.stringify({ error: 'Invalid password' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     // Create Supabase client with service role key for admin operations
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    let result;
+    const member = await authenticateStaff(supabase, req);
+    if (!member) {
+      return notSignedInResponse(corsHeaders);
+    }
+    const requiredRole = ACTION_ROLES[action];
+    if (!requiredRole) {
+      throw new Error('Invalid action');
+    }
+    if (!hasRole(member, requiredRole)) {
+      return missingRoleResponse(corsHeaders, member, requiredRole);
+    }
+
+    // Changes are attributed to the signed-in member, whatever name the request carries
+    if (data && (action === 'exclude_reading' || action === 'bulk_update_readings')) {
+      data.excluded_by = member.name;
+    }
+    if (data && action === 'commit_upload') {
+      data.uploaded_by = member.name;
+    }
+
+    let result: AdminActionResult<ActionData>['data'];
 
     switch (action) {
       case 'create': {
         if (!data) {
           throw new Error('Data required for create action');
         }
+        const model = calibrationModelFields(data);
 
         // Validate no overlapping periods for the same channel
-        const { data: existing, error: checkError } = await supabase
-          .from('sensor_calibration_offsets')
-          .select('*')
-          .eq('channel_id', data.channel_id)
-          .or(`valid_until.is.null,valid_until.gte.${data.valid_from}`)
-          .lte('valid_from', data.valid_until || '9999-12-31');
-
-        if (checkError) {
-          console.error('Error checking overlaps:', checkError);
-          throw checkError;
-        }
-
-        if (existing && existing.length > 0) {
+        if (await hasOverlappingOffset(supabase, data.channel_id!, data.valid_from!, data.valid_until)) {
           return new Response(
             JSON.stringify({ error: 'Overlapping offset period exists for this sensor' }),
             { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -77,10 +573,13 @@ Deno.serve(async (req) => {
           .from('sensor_calibration_offsets')
           .insert({
             channel_id: data.channel_id,
-            offset_value: data.offset_value,
+            ...model,
             valid_from: data.valid_from,
             valid_until: data.valid_until,
             reason: data.reason,
+            start_check_id: data.start_check_id ?? null,
+            end_check_id: data.end_check_id ?? null,
+            created_by: member.id,
           })
           .select()
           .single();
@@ -100,10 +599,13 @@ Deno.serve(async (req) => {
           throw new Error('Data with ID required for update action');
         }
 
+        // The model is only replaced when one is sent, so a deactivation leaves it as it was
+        const model = data.model_type ? calibrationModelFields(data) : {};
+
         const { data: updated, error: updateError } = await supabase
           .from('sensor_calibration_offsets')
           .update({
-            offset_value: data.offset_value,
+            ...model,
             valid_from: data.valid_from,
             valid_until: data.valid_until,
             reason: data.reason,
@@ -127,38 +629,357 @@ Deno.serve(async (req) => {
           throw new Error('ID required for delete action');
         }
 
-        const { error: deleteError } = await supabase
+        // The deleted record is returned so the audit log keeps what was removed
+        const { data: deleted, error: deleteError } = await supabase
           .from('sensor_calibration_offsets')
           .delete()
-          .eq('id', data.id);
+          .eq('id', data.id)
+          .select()
+          .single();
 
         if (deleteError) {
           console.error('Error deleting offset:', deleteError);
           throw deleteError;
         }
 
-        console.log('Deleted offset:', data.id);
-        result = { success: true, id: data.id };
+        console.log(`Deleted offset ${data.id} by ${member.name}`);
+        result = { success: true, id: data.id, deleted };
+        break;
+      }
+
+      case 'exclude_reading': {
+        if (!data || !data.reading_id) {
+          throw new Error('Reading ID required for exclude_reading action');
+        }
+        if (!data.excluded_reason?.trim() || !data.excluded_by?.trim()) {
+          throw new Error('A reason and the operator name are required to exclude a reading');
+        }
+
+        // The row is kept so the reading can be restored and is not ingested again
+        const { data: excluded, error: excludeError } = await supabase
+          .from('sensor_readings')
+          .update({
+            excluded_at: new Date().toISOString(),
+            excluded_reason: data.excluded_reason.trim(),
+            excluded_by: data.excluded_by.trim(),
+          })
+          .eq('id', data.reading_id)
+          .select('id, measured_at, value, excluded_at, excluded_reason, excluded_by')
+          .single();
+
+        if (excludeError) {
+          console.error('Error excluding reading:', excludeError);
+          throw excludeError;
+        }
+
+        console.log(`Excluded reading ${data.reading_id} by ${excluded.excluded_by}: ${excluded.excluded_reason}`);
+        result = excluded;
+        break;
+      }
+
+      case 'restore_reading': {
+        if (!data || !data.reading_id) {
+          throw new Error('Reading ID required for restore_reading action');
+        }
+
+        const { data: restored, error: restoreError } = await supabase
+          .from('sensor_readings')
+          .update({ excluded_at: null, excluded_reason: null, excluded_by: null })
+          .eq('id', data.reading_id)
+          .select('id, measured_at, value, quality_flag')
+          .single();
+
+        if (restoreError) {
+          console.error('Error restoring reading:', restoreError);
+          throw restoreError;
+        }
+
+        console.log('Restored reading:', data.reading_id);
+        result = restored;
         break;
       }
 
-      case 'delete_reading': {
+      case 'set_quality_flag': {
         if (!data || !data.reading_id) {
-          throw new Error('Reading ID required for delete_reading action');
+          throw new Error('Reading ID required for set_quality_flag action');
+        }
+        // Operators can flag a reading or clear a flag; the other codes come from automated checks
+        if (data.quality_flag !== 'good' && data.quality_flag !== 'manual') {
+          throw new Error("quality_flag must be 'good' or 'manual'");
         }
 
-        const { error: deleteReadingError } = await supabase
+        const { data: flagged, error: flagError } = await supabase
           .from('sensor_readings')
+          .update({ quality_flag: data.quality_flag })
+          .eq('id', data.reading_id)
+          .select('id, measured_at, value, quality_flag')
+          .single();
+
+        if (flagError) {
+          console.error('Error flagging reading:', flagError);
+          throw flagError;
+        }
+
+        console.log(`Set quality flag of reading ${data.reading_id} to ${data.quality_flag}`);
+        result = flagged;
+        break;
+      }
+
+      case 'create_ingest_rule': {
+        if (!data || !data.station_id || !data.sensor_name) {
+          throw new Error('Station and sensor name required for create_ingest_rule action');
+        }
+
+        const { data: created, error: createError } = await supabase
+          .from('channel_ingest_rules')
+          .insert({
+            station_id: data.station_id,
+            sensor_name: data.sensor_name.trim(),
+            channel_name: data.channel_name?.trim() || null,
+            ingest: data.ingest ?? true,
+            visibility: data.visibility || 'public',
+          })
+          .select()
+          .single();
+
+        if (createError) {
+          console.error('Error creating ingest rule:', createError);
+          if (createError.code === '23505') {
+            return new Response(
+              JSON.stringify({ error: 'A rule for this sensor and channel already exists' }),
+              { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+            );
+          }
+          throw createError;
+        }
+
+        await applyChannelRules(supabase, created.station_id);
+
+        console.log('Created ingest rule:', created.id);
+        result = created;
+        break;
+      }
+
+      case 'update_ingest_rule': {
+        if (!data || !data.id) {
+          throw new Error('Data with ID required for update_ingest_rule action');
+        }
+
+        const { data: updated, error: updateError } = await supabase
+          .from('channel_ingest_rules')
+          .update({
+            ingest: data.ingest,
+            visibility: data.visibility,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', data.id)
+          .select()
+          .single();
+
+        if (updateError) {
+          console.error('Error updating ingest rule:', updateError);
+          throw updateError;
+        }
+
+        await applyChannelRules(supabase, updated.station_id);
+
+        console.log('Updated ingest rule:', updated.id);
+        result = updated;
+        break;
+      }
+
+      case 'delete_ingest_rule': {
+        if (!data || !data.id) {
+          throw new Error('ID required for delete_ingest_rule action');
+        }
+
+        const { data: deleted, error: deleteRuleError } = await supabase
+          .from('channel_ingest_rules')
           .delete()
-          .eq('id', data.reading_id);
+          .eq('id', data.id)
+          .select()
+          .single();
 
-        if (deleteReadingError) {
-          console.error('Error deleting reading:', deleteReadingError);
-          throw deleteReadingError;
+        if (deleteRuleError) {
+          console.error('Error deleting ingest rule:', deleteRuleError);
+          throw deleteRuleError;
         }
 
-        console.log('Deleted reading:', data.reading_id);
-        result = { success: true, id: data.reading_id };
+        await applyChannelRules(supabase, deleted.station_id);
+
+        console.log('Deleted ingest rule:', data.id);
+        result = { success: true, id: data.id };
+        break;
+      }
+
+      case 'upsert_qc_rule': {
+        if (!data || !data.channel_id) {
+          throw new Error('Channel ID required for upsert_qc_rule action');
+        }
+        if (data.min_value != null && data.max_value != null && data.min_value >= data.max_value) {
+          throw new Error('Minimum must be below maximum');
+        }
+        if (data.neighbor_channel_id === data.channel_id) {
+          throw new Error('A channel cannot be its own neighbour');
+        }
+        if ((data.spike_mad_threshold == null) !== (data.spike_window_minutes == null)) {
+          throw new Error('The spike test needs both a threshold and a window');
+        }
+
+        const { data: savedRule, error: saveRuleError } = await supabase
+          .from('channel_qc_rules')
+          .upsert({
+            channel_id: data.channel_id,
+            min_value: data.min_value ?? null,
+            max_value: data.max_value ?? null,
+            max_rate_of_change: data.max_rate_of_change ?? null,
+            flatline_minutes: data.flatline_minutes ?? null,
+            flatline_tolerance: data.flatline_tolerance ?? 0,
+            spike_mad_threshold: data.spike_mad_threshold ?? null,
+            spike_window_minutes: data.spike_window_minutes ?? null,
+            neighbor_channel_id: data.neighbor_channel_id ?? null,
+            max_neighbor_difference: data.max_neighbor_difference ?? null,
+            updated_at: new Date().toISOString(),
+          }, { onConflict: 'channel_id' })
+          .select()
+          .single();
+
+        if (saveRuleError) {
+          console.error('Error saving QC rule:', saveRuleError);
+          throw saveRuleError;
+        }
+
+        console.log('Saved QC rule for channel:', data.channel_id);
+        result = savedRule;
+        break;
+      }
+
+      case 'delete_qc_rule': {
+        if (!data || !data.channel_id) {
+          throw new Error('Channel ID required for delete_qc_rule action');
+        }
+
+        const { error: deleteRuleError } = await supabase
+          .from('channel_qc_rules')
+          .delete()
+          .eq('channel_id', data.channel_id);
+
+        if (deleteRuleError) {
+          console.error('Error deleting QC rule:', deleteRuleError);
+          throw deleteRuleError;
+        }
+
+        console.log('Deleted QC rule for channel:', data.channel_id);
+        result = { success: true, channel_id: data.channel_id };
+        break;
+      }
+
+      case 'run_qc': {
+        if (!data || (!data.station_id && !data.channel_id) || !data.range_start || !data.range_end) {
+          throw new Error('Station or channel and a range are required for run_qc action');
+        }
+
+        result = await runQcOnDemand(supabase, data);
+        break;
+      }
+
+      case 'set_expected_interval': {
+        if (!data || !data.channel_id) {
+          throw new Error('Channel ID required for set_expected_interval action');
+        }
+        if (!Number.isInteger(data.expected_interval_minutes) || data.expected_interval_minutes! <= 0) {
+          throw new Error('Expected interval must be a whole number of minutes');
+        }
+
+        const { data: channel, error: intervalError } = await supabase
+          .from('sensor_channels')
+          .update({ expected_interval_minutes: data.expected_interval_minutes, updated_at: new Date().toISOString() })
+          .eq('id', data.channel_id)
+          .select('id, expected_interval_minutes')
+          .single();
+
+        if (intervalError) {
+          console.error('Error setting expected interval:', intervalError);
+          throw intervalError;
+        }
+
+        // Gaps depend on the interval, so re-detect them across the channel's whole history
+        const { error: refreshError } = await supabase.rpc('refresh_channel_gaps', {
+          p_channel_id: data.channel_id,
+          p_from: '-infinity',
+          p_to: 'infinity'
+        });
+
+        if (refreshError) {
+          console.error('Error refreshing data gaps:', refreshError);
+          throw refreshError;
+        }
+
+        console.log(`Set expected interval of channel ${data.channel_id} to ${data.expected_interval_minutes} minutes`);
+        result = channel;
+        break;
+      }
+
+      case 'bulk_update_readings': {
+        if (!data) {
+          throw new Error('Data required for bulk_update_readings action');
+        }
+
+        result = await bulkUpdateReadings(supabase, data, member);
+        break;
+      }
+
+      case 'commit_upload': {
+        if (!data) {
+          throw new Error('Data required for commit_upload action');
+        }
+
+        result = await commitUpload(supabase, data);
+        break;
+      }
+
+      case 'create_reference_check': {
+        if (!data) {
+          throw new Error('Data required for create_reference_check action');
+        }
+
+        result = await createReferenceCheck(supabase, data, member);
+        break;
+      }
+
+      case 'set_user_role': {
+        if (!data || !data.user_id) {
+          throw new Error('User ID required for set_user_role action');
+        }
+        // Locking yourself out would leave no one able to grant roles back
+        if (data.user_id === member.id) {
+          throw new Error('You cannot change your own role');
+        }
+
+        result = await setUserRole(supabase, data.user_id, data.role ?? null);
+        break;
+      }
+
+      case 'delete_reference_check': {
+        if (!data || !data.id) {
+          throw new Error('ID required for delete_reference_check action');
+        }
+
+        // Corrections worked out from the check keep their values and lose the link
+        const { data: deleted, error: deleteError } = await supabase
+          .from('reference_checks')
+          .delete()
+          .eq('id', data.id)
+          .select()
+          .single();
+
+        if (deleteError) {
+          console.error('Error deleting reference check:', deleteError);
+          throw deleteError;
+        }
+
+        console.log(`Deleted reference check ${data.id} by ${member.name}`);
+        result = { success: true, id: data.id, deleted };
         break;
       }
 
@@ -166,15 +987,18 @@ Deno.serve(async (req) => {
         throw new Error('Invalid action');
     }
 
+    const record = Array.isArray(result) ? null : result;
+    await recordAuditEvent(supabase, member, action, data?.id ?? record?.id ?? null, { ...data, ...(record?.deleted ? { deleted: record.deleted } : {}) });
+
     return new Response(
       JSON.stringify({ success: true, data: result }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
-  } catch (error: any) {
+  } catch (error: unknown) {
     console.error('Error in manage-calibration-offsets:', error);
     return new Response(
-      JSON.stringify({ error: error.message || 'Unknown error' }),
+      JSON.stringify({ error: errorMessage(error) }),
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
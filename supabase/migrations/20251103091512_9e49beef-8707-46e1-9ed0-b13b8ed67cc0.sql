@@ -0,0 +1,26 @@
+-- Track resumable historical backfill jobs for the Stevens ingestion function
+CREATE TABLE public.ingestion_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_type text NOT NULL DEFAULT 'backfill' CHECK (job_type IN ('backfill')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  range_start timestamptz NOT NULL,
+  range_end timestamptz NOT NULL,
+  -- Start of the next chunk to fetch; an interrupted job resumes from here
+  next_chunk_start timestamptz NOT NULL,
+  chunk_days integer NOT NULL DEFAULT 7,
+  chunks_total integer NOT NULL DEFAULT 0,
+  chunks_completed integer NOT NULL DEFAULT 0,
+  readings_count integer NOT NULL DEFAULT 0,
+  station_ids integer[],
+  error_message text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX idx_ingestion_jobs_status ON public.ingestion_jobs(job_type, status, created_at DESC);
+
+ALTER TABLE public.ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Public read access so the dashboard can poll backfill progress
+CREATE POLICY "Public read access" ON public.ingestion_jobs FOR SELECT USING (true);
@@ -0,0 +1,10 @@
+-- Record the full lifecycle of each Stevens fetch: what triggered it, how long it took
+-- and how many readings each channel received
+ALTER TABLE public.api_fetch_log
+  ADD COLUMN trigger_source text NOT NULL DEFAULT 'cron' CHECK (trigger_source IN ('cron', 'manual', 'backfill')),
+  ADD COLUMN duration_ms integer,
+  ADD COLUMN channel_counts jsonb,
+  ADD COLUMN job_id uuid REFERENCES public.ingestion_jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_fetch_log_started ON public.api_fetch_log(fetch_started_at DESC);
+CREATE INDEX idx_fetch_log_status ON public.api_fetch_log(status, fetch_started_at DESC);
@@ -0,0 +1,40 @@
+-- Latest reading time for every channel, for the ingestion health page
+CREATE OR REPLACE FUNCTION get_channel_freshness()
+RETURNS TABLE (
+  channel_id uuid,
+  channel_name text,
+  sensor_name text,
+  unit text,
+  is_active boolean,
+  station_id uuid,
+  station_name text,
+  latest_measured_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    sc.id,
+    sc.channel_name,
+    sc.sensor_name,
+    sc.unit,
+    sc.is_active,
+    ss.id,
+    ss.station_name,
+    latest.measured_at
+  FROM sensor_channels sc
+  JOIN sensor_stations ss ON sc.station_id = ss.id
+  LEFT JOIN LATERAL (
+    SELECT measured_at
+    FROM sensor_readings
+    WHERE channel_id = sc.id
+    ORDER BY measured_at DESC
+    LIMIT 1
+  ) latest ON true
+  ORDER BY ss.station_name, sc.channel_name;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_channel_freshness() TO anon;
+GRANT EXECUTE ON FUNCTION get_channel_freshness() TO authenticated;
@@ -0,0 +1,135 @@
+-- Per-station rules deciding which Stevens sensors and channels are ingested and who can see them.
+-- A rule with a NULL channel_name covers every channel of the sensor; a channel rule overrides it.
+CREATE TABLE public.channel_ingest_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  station_id uuid NOT NULL REFERENCES public.sensor_stations(id) ON DELETE CASCADE,
+  sensor_name text NOT NULL,
+  channel_name text,
+  ingest boolean NOT NULL DEFAULT true,
+  visibility text NOT NULL DEFAULT 'public' CHECK (visibility IN ('public', 'internal')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_channel_ingest_rules_target
+  ON public.channel_ingest_rules(station_id, sensor_name, COALESCE(channel_name, ''));
+
+ALTER TABLE public.channel_ingest_rules ENABLE ROW LEVEL SECURITY;
+
+-- Public read access; rules are edited through the password-protected management function
+CREATE POLICY "Public read access" ON public.channel_ingest_rules FOR SELECT USING (true);
+
+-- Resolved visibility of each channel, kept in sync with the rules by ingestion and the admin UI
+ALTER TABLE public.sensor_channels
+  ADD COLUMN visibility text NOT NULL DEFAULT 'public' CHECK (visibility IN ('public', 'internal'));
+
+-- Seed rules reproducing the previous hard-coded behaviour: ingest the M 20 sonde at Purungat Bridge
+INSERT INTO public.channel_ingest_rules (station_id, sensor_name, channel_name, ingest, visibility)
+SELECT id, 'M 20', NULL, true, 'public'
+FROM public.sensor_stations
+WHERE stevens_station_id = 5285;
+
+-- ...and keep the diagnostic channels the dashboard used to hide by name internal
+INSERT INTO public.channel_ingest_rules (station_id, sensor_name, channel_name, ingest, visibility)
+SELECT DISTINCT sc.station_id, sc.sensor_name, sc.channel_name, true, 'internal'
+FROM public.sensor_channels sc
+JOIN public.sensor_stations ss ON ss.id = sc.station_id
+WHERE ss.stevens_station_id = 5285
+  AND sc.sensor_name IS NOT NULL
+  AND (sc.sensor_name || ' - ' || sc.channel_name) ILIKE ANY (
+    ARRAY['%ph mv%', '%ph - mv%', '%depth f%', '%depth psig%', '%cable power%']
+  );
+
+UPDATE public.sensor_channels sc
+SET visibility = 'internal'
+FROM public.channel_ingest_rules r
+WHERE r.station_id = sc.station_id
+  AND r.sensor_name = sc.sensor_name
+  AND r.channel_name = sc.channel_name
+  AND r.visibility = 'internal';
+
+-- Only public channels are shown on the dashboard
+CREATE OR REPLACE FUNCTION get_dashboard_data(p_language text DEFAULT 'en')
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result jsonb;
+  sensors_data jsonb;
+  analysis_data jsonb;
+  latest_timestamp timestamptz;
+BEGIN
+  -- Get latest data timestamp from readings
+  SELECT MAX(measured_at) INTO latest_timestamp
+  FROM sensor_readings
+  WHERE measured_at >= NOW() - INTERVAL '7 days';
+
+  -- Get all active public sensors with their data
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'name', sc.sensor_name || ' - ' || sc.channel_name,
+      'value', latest.value,
+      'unit', sc.unit,
+      'category', sc.category,
+      'channelId', sc.id,
+      'chartData', (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'date', sr.measured_at,
+            'value', sr.value
+          ) ORDER BY sr.measured_at
+        )
+        FROM sensor_readings sr
+        WHERE sr.channel_id = sc.id
+          AND sr.measured_at >= NOW() - INTERVAL '7 days'
+      )
+    )
+  ) INTO sensors_data
+  FROM sensor_channels sc
+  JOIN sensor_stations ss ON sc.station_id = ss.id
+  LEFT JOIN LATERAL (
+    SELECT value, measured_at
+    FROM sensor_readings
+    WHERE channel_id = sc.id
+    ORDER BY measured_at DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE sc.is_active = true
+    AND sc.visibility = 'public';
+
+  -- Get latest AI analysis for the requested language
+  SELECT jsonb_build_object(
+    'analysis', analysis_text,
+    'language', language,
+    'timestamp', created_at
+  ) INTO analysis_data
+  FROM ai_analyses
+  WHERE language = p_language
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  -- If no analysis exists for requested language, get the most recent one
+  IF analysis_data IS NULL THEN
+    SELECT jsonb_build_object(
+      'analysis', analysis_text,
+      'language', language,
+      'timestamp', created_at
+    ) INTO analysis_data
+    FROM ai_analyses
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  -- Build final result
+  result := jsonb_build_object(
+    'sensors', COALESCE(sensors_data, '[]'::jsonb),
+    'analysis', COALESCE(analysis_data->>'analysis', 'No analysis available'),
+    'language', COALESCE(analysis_data->>'language', p_language),
+    'timestamp', COALESCE(latest_timestamp, NOW())
+  );
+
+  RETURN result;
+END;
+$$;
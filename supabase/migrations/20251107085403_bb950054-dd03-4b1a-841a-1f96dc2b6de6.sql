@@ -0,0 +1,19 @@
+-- Set when a channel disappears from the Stevens config packet; cleared if it comes back
+ALTER TABLE public.sensor_channels ADD COLUMN removed_at timestamptz;
+
+-- Changes to a channel's identity detected during config syncs, so older readings can be
+-- interpreted with the name and unit they were recorded under
+CREATE TABLE public.sensor_channel_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id uuid NOT NULL REFERENCES public.sensor_channels(id) ON DELETE CASCADE,
+  change_type text NOT NULL CHECK (change_type IN ('added', 'renamed', 'unit_changed', 'sensor_changed', 'removed', 'restored')),
+  old_value text,
+  new_value text,
+  detected_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sensor_channel_history_channel ON public.sensor_channel_history(channel_id, detected_at DESC);
+
+ALTER TABLE public.sensor_channel_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON public.sensor_channel_history FOR SELECT USING (true);
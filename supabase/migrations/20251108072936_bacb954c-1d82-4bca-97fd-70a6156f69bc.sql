@@ -0,0 +1,32 @@
+-- Private bucket holding gzipped Stevens responses; only the service role reads or writes it
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('raw-payloads', 'raw-payloads', false);
+
+-- Index of archived Stevens responses per fetch run, so a run can be reprocessed later
+CREATE TABLE public.raw_payloads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  fetch_log_id uuid NOT NULL REFERENCES public.api_fetch_log(id) ON DELETE CASCADE,
+  payload_type text NOT NULL CHECK (payload_type IN ('config_packet', 'readings')),
+  storage_path text NOT NULL,
+  content_hash text NOT NULL,
+  size_bytes integer NOT NULL,
+  compressed_bytes integer NOT NULL,
+  project_id integer,
+  channel_ids integer[],
+  range_start timestamptz,
+  range_end timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_raw_payloads_fetch_log ON public.raw_payloads(fetch_log_id);
+
+ALTER TABLE public.raw_payloads ENABLE ROW LEVEL SECURITY;
+
+-- Public read access to the index so the ingestion page can show which runs are reprocessable
+CREATE POLICY "Public read access" ON public.raw_payloads FOR SELECT USING (true);
+
+-- Reprocessing an archived run is logged as its own fetch
+ALTER TABLE public.api_fetch_log DROP CONSTRAINT api_fetch_log_trigger_source_check;
+ALTER TABLE public.api_fetch_log
+  ADD CONSTRAINT api_fetch_log_trigger_source_check
+  CHECK (trigger_source IN ('cron', 'manual', 'backfill', 'reprocess'));
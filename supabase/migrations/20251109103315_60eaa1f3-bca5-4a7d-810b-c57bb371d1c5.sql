@@ -0,0 +1,103 @@
+-- Everything the public dashboard needs in one round trip: station, public channels with their
+-- latest reading, 7 days of history and calibration offsets, plus the latest AI analysis.
+-- Calibration is applied by the dashboard edge function, not here.
+DROP FUNCTION IF EXISTS get_dashboard_data(text);
+
+CREATE OR REPLACE FUNCTION get_dashboard_data(
+  p_language text DEFAULT 'english',
+  p_stevens_station_id integer DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  station_row sensor_stations%ROWTYPE;
+  sensors_data jsonb;
+  analysis_data jsonb;
+  latest_timestamp timestamptz;
+BEGIN
+  IF p_stevens_station_id IS NOT NULL THEN
+    SELECT * INTO station_row FROM sensor_stations WHERE stevens_station_id = p_stevens_station_id;
+  END IF;
+
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'channelId', sc.id,
+      'name', sc.sensor_name || ' - ' || sc.channel_name,
+      'unit', sc.unit,
+      'category', sc.category,
+      'value', latest.value,
+      'measuredAt', latest.measured_at,
+      'chartData', COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'date', sr.measured_at,
+            'value', sr.value
+          ) ORDER BY sr.measured_at
+        )
+        FROM sensor_readings sr
+        WHERE sr.channel_id = sc.id
+          AND sr.measured_at >= NOW() - INTERVAL '7 days'
+      ), '[]'::jsonb),
+      'offsets', COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', o.id,
+            'offset_value', o.offset_value,
+            'valid_from', o.valid_from,
+            'valid_until', o.valid_until,
+            'reason', o.reason
+          ) ORDER BY o.valid_from
+        )
+        FROM sensor_calibration_offsets o
+        WHERE o.channel_id = sc.id
+      ), '[]'::jsonb)
+    ) ORDER BY sc.sensor_name, sc.channel_name
+  ) INTO sensors_data
+  FROM sensor_channels sc
+  LEFT JOIN LATERAL (
+    SELECT value, measured_at
+    FROM sensor_readings
+    WHERE channel_id = sc.id
+    ORDER BY measured_at DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE sc.is_active = true
+    AND sc.visibility = 'public'
+    AND (station_row.id IS NULL OR sc.station_id = station_row.id);
+
+  SELECT MAX((s->>'measuredAt')::timestamptz) INTO latest_timestamp
+  FROM jsonb_array_elements(COALESCE(sensors_data, '[]'::jsonb)) s;
+
+  -- Latest AI analysis for the requested language, falling back to the most recent in any language
+  SELECT jsonb_build_object(
+    'analysis', analysis_text,
+    'language', language,
+    'timestamp', created_at
+  ) INTO analysis_data
+  FROM ai_analyses
+  WHERE (station_row.id IS NULL OR station_id = station_row.id)
+  ORDER BY (language = p_language) DESC, created_at DESC
+  LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'station', CASE WHEN station_row.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'id', station_row.id,
+      'stevensStationId', station_row.stevens_station_id,
+      'name', station_row.station_name,
+      'code', station_row.station_code,
+      'location', station_row.location
+    ) END,
+    'sensors', COALESCE(sensors_data, '[]'::jsonb),
+    'analysis', analysis_data->>'analysis',
+    'language', COALESCE(analysis_data->>'language', p_language),
+    'analysisTimestamp', analysis_data->>'timestamp',
+    'timestamp', COALESCE(latest_timestamp, NOW())
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_dashboard_data(text, integer) TO anon, authenticated;
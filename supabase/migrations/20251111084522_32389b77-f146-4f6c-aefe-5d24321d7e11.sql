@@ -0,0 +1,28 @@
+-- One row per committed CSV/XLSX upload of field-meter or logger readings
+CREATE TABLE public.reading_uploads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  station_id uuid NOT NULL REFERENCES public.sensor_stations(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  source_kind text NOT NULL CHECK (source_kind IN ('field_meter', 'logger_file')),
+  uploaded_by text NOT NULL,
+  notes text,
+  -- Column mapping, timestamp format and unit conversions used, so the upload can be reproduced
+  mapping jsonb NOT NULL DEFAULT '{}'::jsonb,
+  rows_submitted integer NOT NULL DEFAULT 0,
+  readings_inserted integer NOT NULL DEFAULT 0,
+  readings_skipped integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_reading_uploads_station ON public.reading_uploads(station_id, created_at DESC);
+
+ALTER TABLE public.reading_uploads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access" ON public.reading_uploads FOR SELECT USING (true);
+
+-- Provenance of every reading: telemetry from a data source, or a manual upload
+ALTER TABLE public.sensor_readings
+  ADD COLUMN source text NOT NULL DEFAULT 'telemetry' CHECK (source IN ('telemetry', 'upload')),
+  ADD COLUMN upload_id uuid REFERENCES public.reading_uploads(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_readings_upload ON public.sensor_readings(upload_id) WHERE upload_id IS NOT NULL;
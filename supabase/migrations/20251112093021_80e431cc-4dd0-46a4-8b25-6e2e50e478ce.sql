@@ -0,0 +1,13 @@
+-- Quality of each individual reading, assigned at ingest or by an operator:
+--   good      passed every check
+--   range     physically impossible for the sensor
+--   spike     an isolated jump away from its neighbours
+--   flatline  part of a run of identical values from a stuck sensor
+--   gap_fill  estimated to fill a gap rather than measured
+--   manual    flagged by an operator
+ALTER TABLE public.sensor_readings
+  ADD COLUMN quality_flag text NOT NULL DEFAULT 'good'
+    CHECK (quality_flag IN ('good', 'range', 'spike', 'flatline', 'gap_fill', 'manual'));
+
+CREATE INDEX idx_readings_quality_flag ON public.sensor_readings(channel_id, measured_at)
+  WHERE quality_flag <> 'good';
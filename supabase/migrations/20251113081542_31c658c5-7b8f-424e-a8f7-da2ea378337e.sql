@@ -0,0 +1,88 @@
+-- Quality-control thresholds for each channel, read by ingestion, the dashboard and the upload preview.
+-- A NULL setting disables that check for the channel.
+CREATE TABLE public.channel_qc_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id uuid NOT NULL UNIQUE REFERENCES public.sensor_channels(id) ON DELETE CASCADE,
+  min_value numeric,
+  max_value numeric,
+  -- Largest plausible change between consecutive readings, in channel units per hour
+  max_rate_of_change numeric CHECK (max_rate_of_change > 0),
+  -- Identical consecutive readings that mark the sensor as stuck
+  flatline_window integer CHECK (flatline_window >= 2),
+  -- Standard deviation of recent readings, as a fraction of their mean, above which the sensor is erratic
+  max_relative_std_dev numeric CHECK (max_relative_std_dev > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (min_value IS NULL OR max_value IS NULL OR min_value < max_value)
+);
+
+ALTER TABLE public.channel_qc_rules ENABLE ROW LEVEL SECURITY;
+
+-- Public read access; rules are edited through the password-protected management function
+CREATE POLICY "Public read access" ON public.channel_qc_rules FOR SELECT USING (true);
+
+-- Default rule for a channel, carried over from the thresholds previously hard-coded by sensor name.
+-- Names are matched on whole words so 'do' no longer catches 'depth of...'.
+CREATE OR REPLACE FUNCTION seed_channel_qc_rule(p_channel_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  label text;
+BEGIN
+  SELECT COALESCE(sensor_name, '') || ' - ' || channel_name INTO label
+  FROM sensor_channels
+  WHERE id = p_channel_id;
+
+  IF label IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO channel_qc_rules (channel_id, min_value, max_value, flatline_window, max_relative_std_dev)
+  SELECT p_channel_id, d.min_value, d.max_value, d.flatline_window, 0.8
+  FROM (
+    SELECT
+      CASE
+        WHEN label ~* '\mph\M' AND label !~* '\mmv\M' THEN 0
+        WHEN label ~* '\mdo\M' THEN 0
+        WHEN label ~* '\mtemp' THEN -10
+        WHEN label ~* '\morp\M' THEN -500
+        ELSE 0
+      END AS min_value,
+      CASE
+        WHEN label ~* '\mph\M' AND label !~* '\mmv\M' THEN 14
+        WHEN label ~* '\mdo\M' AND label ~ '%' THEN 120
+        WHEN label ~* '\mdo\M' THEN 350
+        WHEN label ~* '\mtemp' THEN 50
+        WHEN label ~* '\morp\M' THEN 500
+        WHEN label ~* '\msalinity\M' THEN 50
+        WHEN label ~* 'cable power' THEN 15
+      END AS max_value,
+      CASE
+        WHEN label ~* '\mph\M|\mdo\M|\mtemp|\morp\M|conductivity|\msc\M' THEN 20
+      END AS flatline_window
+  ) d
+  ON CONFLICT (channel_id) DO NOTHING;
+END;
+$$;
+
+SELECT seed_channel_qc_rule(id) FROM public.sensor_channels;
+
+-- Channels discovered later start from the same defaults
+CREATE OR REPLACE FUNCTION seed_channel_qc_rule_on_insert()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM seed_channel_qc_rule(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER seed_channel_qc_rule_after_insert
+  AFTER INSERT ON public.sensor_channels
+  FOR EACH ROW EXECUTE FUNCTION seed_channel_qc_rule_on_insert();
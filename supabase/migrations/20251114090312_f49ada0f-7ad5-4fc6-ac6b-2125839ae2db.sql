@@ -0,0 +1,84 @@
+-- Time-based QC tests replace the sample-count stuck and erratic checks
+ALTER TABLE public.channel_qc_rules
+  -- Minutes a value must stay within flatline_tolerance before the readings count as a flatline
+  ADD COLUMN flatline_minutes integer CHECK (flatline_minutes > 0),
+  ADD COLUMN flatline_tolerance numeric NOT NULL DEFAULT 0 CHECK (flatline_tolerance >= 0),
+  -- Scaled median absolute deviations from the surrounding readings that make a spike
+  ADD COLUMN spike_mad_threshold numeric CHECK (spike_mad_threshold > 0),
+  -- Width of the window, centred on each reading, the spike test compares it with
+  ADD COLUMN spike_window_minutes integer CHECK (spike_window_minutes > 0),
+  -- A channel measuring the same thing, e.g. a backup sensor or the next station downstream
+  ADD COLUMN neighbor_channel_id uuid REFERENCES public.sensor_channels(id) ON DELETE SET NULL,
+  ADD COLUMN max_neighbor_difference numeric CHECK (max_neighbor_difference > 0),
+  ADD CONSTRAINT channel_qc_rules_spike_settings
+    CHECK ((spike_mad_threshold IS NULL) = (spike_window_minutes IS NULL)),
+  ADD CONSTRAINT channel_qc_rules_neighbor_not_self
+    CHECK (neighbor_channel_id IS NULL OR neighbor_channel_id <> channel_id);
+
+-- Channels that had the stuck check get a 3 hour flatline test and a spike test instead
+UPDATE public.channel_qc_rules
+SET flatline_minutes = 180,
+    spike_mad_threshold = 6,
+    spike_window_minutes = 360
+WHERE flatline_window IS NOT NULL;
+
+ALTER TABLE public.channel_qc_rules
+  DROP COLUMN flatline_window,
+  DROP COLUMN max_relative_std_dev;
+
+ALTER TABLE public.sensor_readings DROP CONSTRAINT sensor_readings_quality_flag_check;
+ALTER TABLE public.sensor_readings ADD CONSTRAINT sensor_readings_quality_flag_check
+  CHECK (quality_flag IN ('good', 'range', 'spike', 'rate_of_change', 'flatline', 'neighbor', 'gap_fill', 'manual'));
+
+CREATE OR REPLACE FUNCTION seed_channel_qc_rule(p_channel_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  label text;
+  is_water_quality boolean;
+BEGIN
+  SELECT COALESCE(sensor_name, '') || ' - ' || channel_name INTO label
+  FROM sensor_channels
+  WHERE id = p_channel_id;
+
+  IF label IS NULL THEN
+    RETURN;
+  END IF;
+
+  is_water_quality := label ~* '\mph\M|\mdo\M|\mtemp|\morp\M|conductivity|\msc\M';
+
+  INSERT INTO channel_qc_rules (
+    channel_id, min_value, max_value, flatline_minutes, spike_mad_threshold, spike_window_minutes
+  )
+  SELECT
+    p_channel_id,
+    d.min_value,
+    d.max_value,
+    CASE WHEN is_water_quality THEN 180 END,
+    CASE WHEN is_water_quality THEN 6 END,
+    CASE WHEN is_water_quality THEN 360 END
+  FROM (
+    SELECT
+      CASE
+        WHEN label ~* '\mph\M' AND label !~* '\mmv\M' THEN 0
+        WHEN label ~* '\mdo\M' THEN 0
+        WHEN label ~* '\mtemp' THEN -10
+        WHEN label ~* '\morp\M' THEN -500
+        ELSE 0
+      END AS min_value,
+      CASE
+        WHEN label ~* '\mph\M' AND label !~* '\mmv\M' THEN 14
+        WHEN label ~* '\mdo\M' AND label ~ '%' THEN 120
+        WHEN label ~* '\mdo\M' THEN 350
+        WHEN label ~* '\mtemp' THEN 50
+        WHEN label ~* '\morp\M' THEN 500
+        WHEN label ~* '\msalinity\M' THEN 50
+        WHEN label ~* 'cable power' THEN 15
+      END AS max_value
+  ) d
+  ON CONFLICT (channel_id) DO NOTHING;
+END;
+$$;
@@ -0,0 +1,188 @@
+-- Logging interval each channel is expected to report at, used to find readings that never arrived
+ALTER TABLE public.sensor_channels
+  ADD COLUMN expected_interval_minutes integer CHECK (expected_interval_minutes > 0);
+
+-- Holes in a channel's record: gap_start and gap_end are the stored readings either side of the hole
+CREATE TABLE public.channel_data_gaps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id uuid NOT NULL REFERENCES public.sensor_channels(id) ON DELETE CASCADE,
+  gap_start timestamptz NOT NULL,
+  gap_end timestamptz NOT NULL,
+  duration_minutes numeric GENERATED ALWAYS AS (EXTRACT(EPOCH FROM gap_end - gap_start) / 60) STORED,
+  detected_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (channel_id, gap_start),
+  CHECK (gap_end > gap_start)
+);
+
+CREATE INDEX idx_data_gaps_channel_end ON public.channel_data_gaps(channel_id, gap_end DESC);
+
+ALTER TABLE public.channel_data_gaps ENABLE ROW LEVEL SECURITY;
+
+-- Public read access; gaps are only written by refresh_channel_gaps
+CREATE POLICY "Public read access" ON public.channel_data_gaps FOR SELECT USING (true);
+
+-- Median spacing of the channel's latest readings in whole minutes, or NULL with too few readings to tell
+CREATE OR REPLACE FUNCTION estimate_expected_interval(p_channel_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT GREATEST(1, round(percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM measured_at - previous_at) / 60)))::integer
+  FROM (
+    SELECT measured_at, LAG(measured_at) OVER (ORDER BY measured_at) AS previous_at
+    FROM (
+      SELECT measured_at
+      FROM sensor_readings
+      WHERE channel_id = p_channel_id
+      ORDER BY measured_at DESC
+      LIMIT 500
+    ) recent
+  ) spaced
+  WHERE previous_at IS NOT NULL
+  HAVING count(*) >= 10;
+$$;
+
+-- Re-detect a channel's gaps around [p_from, p_to]. Consecutive readings more than one and a half
+-- expected intervals apart make a gap. Channels without an interval get one estimated from their readings.
+CREATE OR REPLACE FUNCTION refresh_channel_gaps(p_channel_id uuid, p_from timestamptz, p_to timestamptz)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  interval_minutes integer;
+  range_start timestamptz;
+  range_end timestamptz;
+BEGIN
+  SELECT expected_interval_minutes INTO interval_minutes
+  FROM sensor_channels
+  WHERE id = p_channel_id;
+
+  IF interval_minutes IS NULL THEN
+    interval_minutes := estimate_expected_interval(p_channel_id);
+    IF interval_minutes IS NULL THEN
+      RETURN;
+    END IF;
+    UPDATE sensor_channels SET expected_interval_minutes = interval_minutes WHERE id = p_channel_id;
+  END IF;
+
+  -- Widen the range to the readings either side of it so gaps crossing its edges are rebuilt too
+  SELECT COALESCE(MAX(measured_at), p_from) INTO range_start
+  FROM sensor_readings
+  WHERE channel_id = p_channel_id AND measured_at < p_from;
+
+  SELECT COALESCE(MIN(measured_at), p_to) INTO range_end
+  FROM sensor_readings
+  WHERE channel_id = p_channel_id AND measured_at > p_to;
+
+  DELETE FROM channel_data_gaps
+  WHERE channel_id = p_channel_id
+    AND gap_end > range_start
+    AND gap_start < range_end;
+
+  INSERT INTO channel_data_gaps (channel_id, gap_start, gap_end)
+  SELECT p_channel_id, previous_at, measured_at
+  FROM (
+    SELECT measured_at, LAG(measured_at) OVER (ORDER BY measured_at) AS previous_at
+    FROM sensor_readings
+    WHERE channel_id = p_channel_id
+      AND measured_at BETWEEN range_start AND range_end
+  ) spaced
+  WHERE measured_at - previous_at > make_interval(mins => interval_minutes) * 1.5;
+END;
+$$;
+
+-- Keep gaps current whichever path writes readings: ingestion, uploads, reprocessing or deletion
+CREATE OR REPLACE FUNCTION refresh_gaps_for_changed_readings()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  changed record;
+BEGIN
+  FOR changed IN
+    SELECT channel_id, MIN(measured_at) AS first_at, MAX(measured_at) AS last_at
+    FROM changed_readings
+    GROUP BY channel_id
+  LOOP
+    PERFORM refresh_channel_gaps(changed.channel_id, changed.first_at, changed.last_at);
+  END LOOP;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_gaps_after_insert
+  AFTER INSERT ON public.sensor_readings
+  REFERENCING NEW TABLE AS changed_readings
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_gaps_for_changed_readings();
+
+CREATE TRIGGER refresh_gaps_after_delete
+  AFTER DELETE ON public.sensor_readings
+  REFERENCING OLD TABLE AS changed_readings
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_gaps_for_changed_readings();
+
+-- Share of expected readings received per channel over [p_from, p_to), counting at most one reading
+-- per expected interval, with the stored gaps overlapping the period
+CREATE OR REPLACE FUNCTION get_channel_completeness(p_channel_ids uuid[], p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  channel_id uuid,
+  expected_interval_minutes integer,
+  expected_readings integer,
+  received_readings integer,
+  completeness_percent numeric,
+  gap_count integer,
+  gap_minutes numeric,
+  longest_gap_minutes numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    sc.id,
+    sc.expected_interval_minutes,
+    expected.readings,
+    received.readings,
+    CASE WHEN expected.readings > 0
+      THEN LEAST(100, round(100.0 * received.readings / expected.readings, 1))
+    END,
+    gaps.gap_count,
+    gaps.gap_minutes,
+    gaps.longest_gap_minutes
+  FROM sensor_channels sc
+  CROSS JOIN LATERAL (
+    SELECT floor(EXTRACT(EPOCH FROM p_to - p_from) / 60 / sc.expected_interval_minutes)::integer AS readings
+  ) expected
+  CROSS JOIN LATERAL (
+    SELECT count(DISTINCT floor(EXTRACT(EPOCH FROM sr.measured_at) / 60 / sc.expected_interval_minutes))::integer AS readings
+    FROM sensor_readings sr
+    WHERE sr.channel_id = sc.id
+      AND sr.measured_at >= p_from
+      AND sr.measured_at < p_to
+  ) received
+  CROSS JOIN LATERAL (
+    SELECT
+      count(*)::integer AS gap_count,
+      COALESCE(round(sum(overlap_minutes), 1), 0) AS gap_minutes,
+      round(max(overlap_minutes), 1) AS longest_gap_minutes
+    FROM (
+      SELECT EXTRACT(EPOCH FROM LEAST(g.gap_end, p_to) - GREATEST(g.gap_start, p_from)) / 60 AS overlap_minutes
+      FROM channel_data_gaps g
+      WHERE g.channel_id = sc.id
+        AND g.gap_start < p_to
+        AND g.gap_end > p_from
+    ) overlapping
+  ) gaps
+  WHERE sc.id = ANY(p_channel_ids);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_channel_completeness(uuid[], timestamptz, timestamptz) TO anon, authenticated;
+
+-- Estimate every channel's interval and detect gaps across its whole history
+SELECT refresh_channel_gaps(id, '-infinity', 'infinity') FROM sensor_channels;
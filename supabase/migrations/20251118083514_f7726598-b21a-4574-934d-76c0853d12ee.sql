@@ -0,0 +1,130 @@
+-- Drift corrections: the error (sensor minus reference) found by the field checks at the start
+-- and end of a deployment, removed with a correction that ramps linearly between them. The ramp
+-- needs both ends of the window, so valid_until is required.
+ALTER TABLE public.sensor_calibration_offsets
+  ADD COLUMN drift_start_error numeric,
+  ADD COLUMN drift_end_error numeric,
+  DROP CONSTRAINT sensor_calibration_offsets_model_type_check,
+  ADD CONSTRAINT sensor_calibration_offsets_model_type_check
+    CHECK (model_type IN ('offset', 'linear', 'polynomial', 'lookup', 'drift')),
+  DROP CONSTRAINT sensor_calibration_offsets_model_complete,
+  ADD CONSTRAINT sensor_calibration_offsets_model_complete CHECK (
+    CASE model_type
+      WHEN 'linear' THEN gain IS NOT NULL AND gain <> 0
+      WHEN 'polynomial' THEN cardinality(coefficients) > 0
+      WHEN 'lookup' THEN jsonb_typeof(lookup_points) = 'array' AND jsonb_array_length(lookup_points) >= 2
+      WHEN 'drift' THEN drift_start_error IS NOT NULL AND drift_end_error IS NOT NULL AND valid_until IS NOT NULL
+      ELSE true
+    END
+  );
+
+-- Offsets on the dashboard carry the drift errors
+CREATE OR REPLACE FUNCTION get_dashboard_data(
+  p_language text DEFAULT 'english',
+  p_source_type text DEFAULT 'stevens',
+  p_external_id text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  station_row sensor_stations%ROWTYPE;
+  sensors_data jsonb;
+  analysis_data jsonb;
+  latest_timestamp timestamptz;
+BEGIN
+  IF p_external_id IS NOT NULL THEN
+    SELECT * INTO station_row FROM sensor_stations
+    WHERE source_type = p_source_type AND external_id = p_external_id;
+  END IF;
+
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'channelId', sc.id,
+      'name', sc.sensor_name || ' - ' || sc.channel_name,
+      'unit', sc.unit,
+      'category', sc.category,
+      'value', latest.value,
+      'measuredAt', latest.measured_at,
+      'chartData', COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'date', sr.measured_at,
+            'value', sr.value
+          ) ORDER BY sr.measured_at
+        )
+        FROM sensor_readings sr
+        WHERE sr.channel_id = sc.id
+          AND sr.measured_at >= NOW() - INTERVAL '7 days'
+          AND sr.excluded_at IS NULL
+      ), '[]'::jsonb),
+      'offsets', COALESCE((
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'id', o.id,
+            'model_type', o.model_type,
+            'offset_value', o.offset_value,
+            'gain', o.gain,
+            'coefficients', o.coefficients,
+            'lookup_points', o.lookup_points,
+            'drift_start_error', o.drift_start_error,
+            'drift_end_error', o.drift_end_error,
+            'valid_from', o.valid_from,
+            'valid_until', o.valid_until,
+            'reason', o.reason
+          ) ORDER BY o.valid_from
+        )
+        FROM sensor_calibration_offsets o
+        WHERE o.channel_id = sc.id
+      ), '[]'::jsonb)
+    ) ORDER BY sc.sensor_name, sc.channel_name
+  ) INTO sensors_data
+  FROM sensor_channels sc
+  LEFT JOIN LATERAL (
+    SELECT value, measured_at
+    FROM sensor_readings
+    WHERE channel_id = sc.id
+      AND excluded_at IS NULL
+    ORDER BY measured_at DESC
+    LIMIT 1
+  ) latest ON true
+  WHERE sc.is_active = true
+    AND sc.visibility = 'public'
+    AND (station_row.id IS NULL OR sc.station_id = station_row.id);
+
+  SELECT MAX((s->>'measuredAt')::timestamptz) INTO latest_timestamp
+  FROM jsonb_array_elements(COALESCE(sensors_data, '[]'::jsonb)) s;
+
+  -- Latest AI analysis for the requested language, falling back to the most recent in any language
+  SELECT jsonb_build_object(
+    'analysis', analysis_text,
+    'language', language,
+    'timestamp', created_at
+  ) INTO analysis_data
+  FROM ai_analyses
+  WHERE (station_row.id IS NULL OR station_id = station_row.id)
+  ORDER BY (language = p_language) DESC, created_at DESC
+  LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'station', CASE WHEN station_row.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'id', station_row.id,
+      'sourceType', station_row.source_type,
+      'externalId', station_row.external_id,
+      'name', station_row.station_name,
+      'code', station_row.station_code,
+      'location', station_row.location
+    ) END,
+    'sensors', COALESCE(sensors_data, '[]'::jsonb),
+    'analysis', analysis_data->>'analysis',
+    'language', COALESCE(analysis_data->>'language', p_language),
+    'analysisTimestamp', analysis_data->>'timestamp',
+    'timestamp', COALESCE(latest_timestamp, NOW())
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_dashboard_data(text, text, text) TO anon, authenticated;
@@ -0,0 +1,27 @@
+-- Field checks of a channel against a calibrated handheld meter or a lab sample. The sonde value is the
+-- channel's reading at the time of the check, interpolated between the readings either side when both are near.
+CREATE TABLE public.reference_checks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel_id uuid NOT NULL REFERENCES public.sensor_channels(id) ON DELETE CASCADE,
+  checked_at timestamptz NOT NULL,
+  reference_value numeric NOT NULL,
+  sonde_value numeric NOT NULL,
+  -- The stored reading nearest the check
+  sonde_measured_at timestamptz NOT NULL,
+  instrument text NOT NULL,
+  operator text NOT NULL,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_reference_checks_channel_time ON public.reference_checks(channel_id, checked_at DESC);
+
+ALTER TABLE public.reference_checks ENABLE ROW LEVEL SECURITY;
+
+-- Public read access; checks are only written by the manage-calibration-offsets edge function
+CREATE POLICY "Public read access" ON public.reference_checks FOR SELECT USING (true);
+
+-- The checks a correction was worked out from: the check behind an offset, or the two ends of a drift correction
+ALTER TABLE public.sensor_calibration_offsets
+  ADD COLUMN start_check_id uuid REFERENCES public.reference_checks(id) ON DELETE SET NULL,
+  ADD COLUMN end_check_id uuid REFERENCES public.reference_checks(id) ON DELETE SET NULL;
@@ -0,0 +1,140 @@
+-- Staff accounts replace the shared calibration password. People sign in with Supabase Auth and hold a role:
+--   viewer:       can open the admin pages but not change anything
+--   technician:   records calibrations, reference checks, exclusions and uploads
+--   data_manager: everything a technician can do, plus deletions, rules, reprocessing and granting roles
+-- The first data manager is granted by hand:
+--   INSERT INTO public.user_roles (user_id, role) VALUES ('<auth user id>', 'data_manager');
+CREATE TYPE public.app_role AS ENUM ('viewer', 'technician', 'data_manager');
+
+-- The name changes are attributed to, taken from the account's sign-up metadata or its email
+CREATE TABLE public.profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name text NOT NULL,
+  email text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.user_roles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+-- Whether the user holds `_role` or a role above it. SECURITY DEFINER so policies on user_roles can call it
+-- without recursing into themselves.
+CREATE OR REPLACE FUNCTION public.has_role(_user_id uuid, _role public.app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_roles
+    WHERE user_id = _user_id
+      AND role >= _role
+  )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_role(uuid, public.app_role) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id, display_name, email)
+  VALUES (NEW.id, COALESCE(NULLIF(trim(NEW.raw_user_meta_data->>'full_name'), ''), NEW.email), NEW.email);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- Accounts created before this migration
+INSERT INTO public.profiles (id, display_name, email)
+SELECT id, COALESCE(NULLIF(trim(raw_user_meta_data->>'full_name'), ''), email), email
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+-- Every change made through the admin edge functions, with who made it
+CREATE TABLE public.admin_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Kept so the entry stays attributable if the account is removed
+  user_name text NOT NULL,
+  action text NOT NULL,
+  record_id uuid,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_admin_audit_log_created ON public.admin_audit_log(created_at DESC);
+
+ALTER TABLE public.sensor_calibration_offsets
+  ADD COLUMN created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.reference_checks
+  ADD COLUMN created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff read profiles" ON public.profiles
+  FOR SELECT TO authenticated
+  USING (id = auth.uid() OR public.has_role(auth.uid(), 'viewer'));
+
+CREATE POLICY "Users read their own roles" ON public.user_roles
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid() OR public.has_role(auth.uid(), 'data_manager'));
+
+CREATE POLICY "Data managers grant roles" ON public.user_roles
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'data_manager'));
+
+CREATE POLICY "Data managers revoke roles" ON public.user_roles
+  FOR DELETE TO authenticated
+  USING (public.has_role(auth.uid(), 'data_manager'));
+
+CREATE POLICY "Data managers read the audit log" ON public.admin_audit_log
+  FOR SELECT TO authenticated
+  USING (public.has_role(auth.uid(), 'data_manager'));
+
+-- Any signed-in account could change calibrations and delete readings; tie those to roles instead
+DROP POLICY "Allow authenticated inserts on calibration offsets" ON public.sensor_calibration_offsets;
+DROP POLICY "Allow authenticated updates on calibration offsets" ON public.sensor_calibration_offsets;
+DROP POLICY "Allow authenticated deletes on calibration offsets" ON public.sensor_calibration_offsets;
+DROP POLICY "Allow authenticated deletes on sensor readings" ON public.sensor_readings;
+
+CREATE POLICY "Technicians add calibration offsets" ON public.sensor_calibration_offsets
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'technician') AND created_by = auth.uid());
+
+CREATE POLICY "Technicians update calibration offsets" ON public.sensor_calibration_offsets
+  FOR UPDATE TO authenticated
+  USING (public.has_role(auth.uid(), 'technician'))
+  WITH CHECK (public.has_role(auth.uid(), 'technician'));
+
+CREATE POLICY "Data managers delete calibration offsets" ON public.sensor_calibration_offsets
+  FOR DELETE TO authenticated
+  USING (public.has_role(auth.uid(), 'data_manager'));
+
+CREATE POLICY "Data managers delete sensor readings" ON public.sensor_readings
+  FOR DELETE TO authenticated
+  USING (public.has_role(auth.uid(), 'data_manager'));
+
+CREATE POLICY "Technicians add reference checks" ON public.reference_checks
+  FOR INSERT TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'technician') AND created_by = auth.uid());
+
+CREATE POLICY "Data managers delete reference checks" ON public.reference_checks
+  FOR DELETE TO authenticated
+  USING (public.has_role(auth.uid(), 'data_manager'));
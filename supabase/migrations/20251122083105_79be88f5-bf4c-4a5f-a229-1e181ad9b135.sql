@@ -0,0 +1,7 @@
+-- Station and channel external IDs are text since sources other than Stevens were added, so the
+-- backfill station subset and the archived payload channel list hold text IDs as well
+ALTER TABLE public.ingestion_jobs
+  ALTER COLUMN station_ids TYPE text[] USING station_ids::text[];
+
+ALTER TABLE public.raw_payloads
+  ALTER COLUMN channel_ids TYPE text[] USING channel_ids::text[];
@@ -0,0 +1,135 @@
+-- A channel that stops reporting has no reading after its last one, so no gap was ever stored for it
+-- and it looked complete. Its trailing gap is now stored up to the time of the refresh, and replaced
+-- once readings arrive again.
+CREATE OR REPLACE FUNCTION refresh_channel_gaps(p_channel_id uuid, p_from timestamptz, p_to timestamptz)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  interval_minutes integer;
+  range_start timestamptz;
+  range_end timestamptz;
+BEGIN
+  SELECT expected_interval_minutes INTO interval_minutes
+  FROM sensor_channels
+  WHERE id = p_channel_id;
+
+  IF interval_minutes IS NULL THEN
+    interval_minutes := estimate_expected_interval(p_channel_id);
+    IF interval_minutes IS NULL THEN
+      RETURN;
+    END IF;
+    UPDATE sensor_channels SET expected_interval_minutes = interval_minutes WHERE id = p_channel_id;
+  END IF;
+
+  -- Widen the range to the readings either side of it so gaps crossing its edges are rebuilt too.
+  -- A range with no reading after it reaches the channel's trailing gap.
+  SELECT COALESCE(MAX(measured_at), p_from) INTO range_start
+  FROM sensor_readings
+  WHERE channel_id = p_channel_id AND measured_at < p_from;
+
+  SELECT COALESCE(MIN(measured_at), 'infinity') INTO range_end
+  FROM sensor_readings
+  WHERE channel_id = p_channel_id AND measured_at > p_to;
+
+  DELETE FROM channel_data_gaps
+  WHERE channel_id = p_channel_id
+    AND gap_end > range_start
+    AND gap_start < range_end;
+
+  INSERT INTO channel_data_gaps (channel_id, gap_start, gap_end)
+  SELECT p_channel_id, previous_at, measured_at
+  FROM (
+    SELECT measured_at, LAG(measured_at) OVER (ORDER BY measured_at) AS previous_at
+    FROM sensor_readings
+    WHERE channel_id = p_channel_id
+      AND measured_at BETWEEN range_start AND range_end
+  ) spaced
+  WHERE measured_at - previous_at > make_interval(mins => interval_minutes) * 1.5;
+
+  IF range_end = 'infinity' THEN
+    INSERT INTO channel_data_gaps (channel_id, gap_start, gap_end)
+    SELECT p_channel_id, MAX(measured_at), now()
+    FROM sensor_readings
+    WHERE channel_id = p_channel_id
+    HAVING now() - MAX(measured_at) > make_interval(mins => interval_minutes) * 1.5;
+  END IF;
+END;
+$$;
+
+-- Share of expected readings received per channel over [p_from, p_to), counting at most one reading
+-- per expected interval and leaving out excluded readings, with the gaps overlapping the period.
+-- The trailing gap runs from the channel's last reading to p_to or now, whichever is earlier,
+-- rather than to the time it was last stored.
+CREATE OR REPLACE FUNCTION get_channel_completeness(p_channel_ids uuid[], p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  channel_id uuid,
+  expected_interval_minutes integer,
+  expected_readings integer,
+  received_readings integer,
+  completeness_percent numeric,
+  gap_count integer,
+  gap_minutes numeric,
+  longest_gap_minutes numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    sc.id,
+    sc.expected_interval_minutes,
+    expected.readings,
+    received.readings,
+    CASE WHEN expected.readings > 0
+      THEN LEAST(100, round(100.0 * received.readings / expected.readings, 1))
+    END,
+    gaps.gap_count,
+    gaps.gap_minutes,
+    gaps.longest_gap_minutes
+  FROM sensor_channels sc
+  CROSS JOIN LATERAL (
+    SELECT floor(EXTRACT(EPOCH FROM p_to - p_from) / 60 / sc.expected_interval_minutes)::integer AS readings
+  ) expected
+  CROSS JOIN LATERAL (
+    SELECT count(DISTINCT floor(EXTRACT(EPOCH FROM sr.measured_at) / 60 / sc.expected_interval_minutes))::integer AS readings
+    FROM sensor_readings sr
+    WHERE sr.channel_id = sc.id
+      AND sr.measured_at >= p_from
+      AND sr.measured_at < p_to
+      AND sr.excluded_at IS NULL
+  ) received
+  CROSS JOIN LATERAL (
+    SELECT MAX(sr.measured_at) AS measured_at
+    FROM sensor_readings sr
+    WHERE sr.channel_id = sc.id
+  ) latest
+  CROSS JOIN LATERAL (
+    SELECT
+      count(*)::integer AS gap_count,
+      COALESCE(round(sum(overlap_minutes), 1), 0) AS gap_minutes,
+      round(max(overlap_minutes), 1) AS longest_gap_minutes
+    FROM (
+      SELECT EXTRACT(EPOCH FROM LEAST(g.gap_end, p_to) - GREATEST(g.gap_start, p_from)) / 60 AS overlap_minutes
+      FROM (
+        -- Stored gaps between readings; the stored trailing gap starts at the last reading
+        SELECT stored.gap_start, stored.gap_end
+        FROM channel_data_gaps stored
+        WHERE stored.channel_id = sc.id
+          AND stored.gap_start < latest.measured_at
+        UNION ALL
+        SELECT latest.measured_at, LEAST(p_to, now())
+        WHERE LEAST(p_to, now()) - latest.measured_at > make_interval(mins => sc.expected_interval_minutes) * 1.5
+      ) g
+      WHERE g.gap_start < p_to
+        AND g.gap_end > p_from
+    ) overlapping
+  ) gaps
+  WHERE sc.id = ANY(p_channel_ids);
+$$;
+
+-- Store the trailing gap of every channel that has already stopped reporting
+SELECT refresh_channel_gaps(id, now(), now()) FROM sensor_channels;
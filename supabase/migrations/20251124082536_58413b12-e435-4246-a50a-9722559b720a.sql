@@ -0,0 +1,46 @@
+-- Give a staff member a single role, or remove their access when p_role is NULL, in one transaction so
+-- a failed grant never leaves the account without the role it had. Calls for the same account are
+-- serialised so two data managers changing it at once cannot leave it holding both roles.
+-- Runs with the caller's rights, so the user_roles policies still decide who may change roles.
+CREATE OR REPLACE FUNCTION public.set_user_role(p_user_id uuid, p_role public.app_role)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('user_roles:' || p_user_id::text));
+
+  DELETE FROM user_roles
+  WHERE user_id = p_user_id
+    AND role IS DISTINCT FROM p_role;
+
+  IF p_role IS NOT NULL THEN
+    INSERT INTO user_roles (user_id, role)
+    VALUES (p_user_id, p_role)
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+END;
+$$;
+
+-- Changes are attributed to the profile's display name, so it must not come from sign-up metadata
+-- the person filling in the form chooses. It is the account's email instead.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO profiles (id, display_name, email)
+  VALUES (NEW.id, COALESCE(NEW.email, NEW.id::text), NEW.email);
+  RETURN NEW;
+END;
+$$;
+
+-- Names already taken from sign-up metadata
+UPDATE public.profiles p
+SET display_name = u.email
+FROM auth.users u
+WHERE u.id = p.id
+  AND u.email IS NOT NULL
+  AND p.display_name IS DISTINCT FROM u.email;